@@ -0,0 +1,68 @@
+/**
+ * Recall latency: exact cosine scan vs the HNSW index.
+ *
+ *   npm run bench                      # 20k memories, 384 dims (MiniLM)
+ *   BENCH_SIZE=100000 npm run bench
+ */
+import { bench, describe } from 'vitest';
+import { HnswIndex } from '../src/hnsw.js';
+
+const SIZE = Number(process.env.BENCH_SIZE ?? 20000);
+const DIMS = Number(process.env.BENCH_DIMS ?? 384);
+const K = 8;
+
+// Clustered random vectors: real embeddings are far from uniform
+let seed = 7;
+const random = () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648 - 0.5;
+};
+const centres = Array.from({ length: 64 }, () => Float32Array.from({ length: DIMS }, random));
+const vector = () => {
+  const centre = centres[Math.floor((random() + 0.5) * centres.length)];
+  return Float32Array.from(centre, x => x + random() * 0.6);
+};
+const vectors = Array.from({ length: SIZE }, vector);
+const queries = Array.from({ length: 100 }, vector);
+
+function exact(query: Float32Array): string[] {
+  const scored: Array<{ id: number; score: number }> = [];
+  for (let i = 0; i < vectors.length; i++) {
+    const v = vectors[i];
+    let dot = 0, na = 0, nb = 0;
+    for (let d = 0; d < DIMS; d++) {
+      dot += v[d] * query[d];
+      na += v[d] * v[d];
+      nb += query[d] * query[d];
+    }
+    scored.push({ id: i, score: dot / Math.sqrt(na * nb) });
+  }
+  return scored.sort((a, b) => b.score - a.score).slice(0, K).map(r => `m${r.id}`);
+}
+
+const buildStart = performance.now();
+const index = new HnswIndex(DIMS);
+vectors.forEach((v, i) => index.add(`m${i}`, v));
+const buildMs = performance.now() - buildStart;
+
+let hits = 0;
+for (const q of queries) {
+  const truth = new Set(exact(q));
+  hits += index.search(q, K).filter(r => truth.has(r.id)).length;
+}
+console.log(
+  `${SIZE} x ${DIMS}: index built in ${(buildMs / 1000).toFixed(1)}s, ` +
+  `recall@${K} ${(hits / (queries.length * K)).toFixed(3)}, ` +
+  `${(index.serialize().length / 1048576).toFixed(1)} MB on disk`,
+);
+
+let q = 0;
+describe(`top-${K} of ${SIZE} memories (${DIMS} dims)`, () => {
+  bench('exact scan', () => {
+    exact(queries[q++ % queries.length]);
+  });
+
+  bench('hnsw', () => {
+    index.search(queries[q++ % queries.length], K);
+  });
+});
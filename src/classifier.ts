@@ -14,6 +14,7 @@
  */
 
 import type { Embedder } from './types.js';
+import { cosineSimilarity } from './similarity.js';
 
 // =============================================================================
 // Pattern Definitions
@@ -214,14 +215,7 @@ export class Classifier {
     let max = -1;
     for (const candidate of candidates) {
       if (candidate.length !== query.length) continue;
-      let dot = 0, normA = 0, normB = 0;
-      for (let i = 0; i < query.length; i++) {
-        dot += query[i] * candidate[i];
-        normA += query[i] * query[i];
-        normB += candidate[i] * candidate[i];
-      }
-      const denom = Math.sqrt(normA) * Math.sqrt(normB);
-      const sim = denom === 0 ? 0 : dot / denom;
+      const sim = cosineSimilarity(query, candidate);
       if (sim > max) max = sim;
     }
     return max;
@@ -10,6 +10,11 @@
  *   3. Cluster — group similar memories by embedding proximity
  *   4. Summarize — collapse clusters into condensed memories (requires LLM)
  *   5. Archive — compress old summaries, remove stale data
+ *
+ * Phases 2-4 never cross scopes (see scope.ts). They leave typed links
+ * behind: a kept duplicate 'supersedes' the one removed, a summary is
+ * 'derived-from' the memories it replaced, and an unsummarized cluster is
+ * linked 'related-to' its most important member (see links.ts).
  */
 
 import type {
@@ -18,13 +23,29 @@ import type {
   LLM,
   ConsolidateConfig,
   ConsolidationReport,
+  VectorIndex,
+  MemoryLink,
+  LinkType,
 } from './types.js';
 import { MemoryTier as Tier } from './types.js';
+import { groupByScope } from './scope.js';
+import { foldLinks } from './links.js';
+import { mergeMentions } from './entities.js';
+import { cosineSimilarity } from './similarity.js';
 
 // =============================================================================
 // Defaults
 // =============================================================================
 
+/** Neighbours compared per memory when deduplicating/clustering via an index */
+const NEIGHBOURS = 32;
+
+/** Memories folded into others, and the links recording it */
+interface Folds {
+  absorbed: Array<{ memory: Memory; into: string }>;
+  links: Array<{ source: string; link: MemoryLink }>;
+}
+
 const DEFAULT_CONFIG: Required<ConsolidateConfig> = {
   everyNWrites: 100,
   intervalMs: 6 * 60 * 60 * 1000,  // 6 hours
@@ -56,9 +77,11 @@ export class Consolidator {
 
   /**
    * Run full consolidation on a set of memories.
-   * Returns updated memories + a report.
+   * Returns updated memories + a report. With an index over the memories,
+   * dedup and clustering compare each memory with its nearest neighbours
+   * instead of with every other memory.
    */
-  async consolidate(memories: Memory[]): Promise<{
+  async consolidate(memories: Memory[], index?: VectorIndex): Promise<{
     memories: Memory[];
     report: ConsolidationReport;
   }> {
@@ -71,21 +94,34 @@ export class Consolidator {
     const memoriesDecayed = decayed.changed;
     current = decayed.memories;
 
-    // Phase 2: Deduplicate
-    const deduped = this.deduplicate(current);
-    const duplicatesRemoved = deduped.removed;
-    current = deduped.memories;
-
-    // Phase 3: Cluster
-    const clusters = this.cluster(current);
-
-    // Phase 4: Summarize (if LLM available)
+    // Phases 2-4 run per scope: one user's (or agent's) memories are never
+    // deduplicated against or summarized together with another's
+    let duplicatesRemoved = 0;
+    let clustersFound = 0;
     let memoriesMerged = 0;
-    if (this.llm && clusters.length > 0) {
-      const summarized = await this.summarizeClusters(current, clusters);
-      memoriesMerged = summarized.merged;
-      current = summarized.memories;
+    const scoped: Memory[] = [];
+    const folds: Folds = { absorbed: [], links: [] };
+    for (const group of groupByScope(current)) {
+      // Phase 2: Deduplicate
+      const deduped = this.deduplicate(group, index, folds);
+      duplicatesRemoved += deduped.removed;
+      let result = deduped.memories;
+
+      // Phase 3: Cluster
+      const clusters = this.cluster(result, index);
+      clustersFound += clusters.length;
+
+      // Phase 4: Summarize (if LLM available); clusters left as they are get linked
+      const summarized = this.llm && clusters.length > 0
+        ? await this.summarizeClusters(result, clusters, folds)
+        : { memories: result, merged: 0, unsummarized: clusters };
+      memoriesMerged += summarized.merged;
+      this.linkClusters(result, summarized.unsummarized, folds);
+      result = summarized.memories;
+
+      scoped.push(...result);
     }
+    current = foldLinks(scoped, folds.absorbed, folds.links);
 
     // Phase 5: Archive old COLD memories
     const archived = this.archive(current);
@@ -99,7 +135,7 @@ export class Consolidator {
       report: {
         timestamp: new Date().toISOString(),
         durationMs: Date.now() - start,
-        clustersFound: clusters.length,
+        clustersFound,
         memoriesMerged,
         memoriesDecayed,
         memoriesArchived,
@@ -154,19 +190,22 @@ export class Consolidator {
   // Phase 2: Deduplicate
   // ===========================================================================
 
-  private deduplicate(memories: Memory[]): { memories: Memory[]; removed: number } {
+  private deduplicate(memories: Memory[], index: VectorIndex | undefined, folds: Folds): { memories: Memory[]; removed: number } {
     if (memories.length < 2) return { memories, removed: 0 };
 
-    const keep = new Set<number>();
     const remove = new Set<number>();
+    const near = index ? this.neighbours(memories, index) : null;
 
     for (let i = 0; i < memories.length; i++) {
       if (remove.has(i)) continue;
 
-      for (let j = i + 1; j < memories.length; j++) {
+      const later = near
+        ? near(i).filter(j => j > i).sort((a, b) => a - b)
+        : Array.from({ length: memories.length - i - 1 }, (_, k) => i + 1 + k);
+      for (const j of later) {
         if (remove.has(j)) continue;
 
-        const sim = this.cosineSimilarity(memories[i].embedding, memories[j].embedding);
+        const sim = cosineSimilarity(memories[i].embedding, memories[j].embedding);
         if (sim > this.deduplicateThreshold) {
           // Keep the one with higher importance or more accesses
           const scoreI = memories[i].importance + memories[i].accessCount * 0.1;
@@ -174,8 +213,10 @@ export class Consolidator {
 
           if (scoreI >= scoreJ) {
             remove.add(j);
+            this.fold(folds, memories[j], memories[i], 'supersedes');
           } else {
             remove.add(i);
+            this.fold(folds, memories[i], memories[j], 'supersedes');
             break; // i is removed, move on
           }
         }
@@ -186,6 +227,18 @@ export class Consolidator {
     return { memories: filtered, removed: remove.size };
   }
 
+  /**
+   * Positions (in `memories`) of each memory's nearest neighbours, looked up
+   * in the index. Index entries outside `memories` (another scope, or
+   * already removed) are skipped.
+   */
+  private neighbours(memories: Memory[], index: VectorIndex): (i: number) => number[] {
+    const position = new Map(memories.map((m, i) => [m.id, i]));
+    return i => index.search(memories[i].embedding, NEIGHBOURS)
+      .map(r => position.get(r.id))
+      .filter((j): j is number => j !== undefined && j !== i);
+  }
+
   // ===========================================================================
   // Phase 3: Cluster
   // ===========================================================================
@@ -194,7 +247,7 @@ export class Consolidator {
    * Find clusters of similar memories using greedy nearest-neighbor.
    * Returns indices of clustered memories.
    */
-  private cluster(memories: Memory[]): number[][] {
+  private cluster(memories: Memory[], index?: VectorIndex): number[][] {
     if (memories.length < this.config.minClusterSize) return [];
 
     // Only cluster WARM and COLD memories (HOT are too recent)
@@ -206,6 +259,8 @@ export class Consolidator {
 
     const assigned = new Set<number>();
     const clusters: number[][] = [];
+    const near = index ? this.neighbours(memories, index) : null;
+    const byIndex = new Map(candidates.map(c => [c.index, c]));
 
     for (const candidate of candidates) {
       if (assigned.has(candidate.index)) continue;
@@ -213,10 +268,13 @@ export class Consolidator {
       const cluster = [candidate.index];
       assigned.add(candidate.index);
 
-      for (const other of candidates) {
+      const others = near
+        ? near(candidate.index).flatMap(j => byIndex.get(j) ?? [])
+        : candidates;
+      for (const other of others) {
         if (assigned.has(other.index)) continue;
 
-        const sim = this.cosineSimilarity(
+        const sim = cosineSimilarity(
           candidate.memory.embedding,
           other.memory.embedding,
         );
@@ -248,12 +306,14 @@ export class Consolidator {
   private async summarizeClusters(
     memories: Memory[],
     clusters: number[][],
-  ): Promise<{ memories: Memory[]; merged: number }> {
-    if (!this.llm || clusters.length === 0) return { memories, merged: 0 };
+    folds: Folds,
+  ): Promise<{ memories: Memory[]; merged: number; unsummarized: number[][] }> {
+    if (!this.llm || clusters.length === 0) return { memories, merged: 0, unsummarized: clusters };
 
     let result = [...memories];
     let totalMerged = 0;
     const toRemove = new Set<number>();
+    const unsummarized: number[][] = [];
 
     for (const cluster of clusters) {
       const clusterMemories = cluster.map(i => memories[i]);
@@ -275,6 +335,7 @@ export class Consolidator {
           for (const idx of cluster) {
             if (memories[idx].id !== best.id) {
               toRemove.add(idx);
+              this.fold(folds, memories[idx], best, 'derived-from');
             }
           }
 
@@ -286,6 +347,8 @@ export class Consolidator {
               content: summary,
               tags: [...new Set([...result[bestIdx].tags, 'consolidated'])],
               importance: Math.max(...clusterMemories.map(m => m.importance)),
+              // The summary keeps every member's facts, so their entities too
+              entities: mergeMentions(clusterMemories.map(m => m.entities)),
               metadata: {
                 ...result[bestIdx].metadata,
                 consolidatedFrom: cluster.length,
@@ -295,15 +358,42 @@ export class Consolidator {
           }
 
           totalMerged += cluster.length - 1;
+        } else {
+          unsummarized.push(cluster);
         }
       } catch (e) {
         // LLM failed — skip this cluster, no data loss
+        unsummarized.push(cluster);
         continue;
       }
     }
 
     result = result.filter((_, idx) => !toRemove.has(idx));
-    return { memories: result, merged: totalMerged };
+    return { memories: result, merged: totalMerged, unsummarized };
+  }
+
+  /**
+   * Link each member of a cluster that stays as it is 'related-to' its
+   * most important member.
+   */
+  private linkClusters(memories: Memory[], clusters: number[][], folds: Folds): void {
+    const now = new Date().toISOString();
+    for (const cluster of clusters) {
+      const members = cluster.map(i => memories[i]);
+      const hub = members.reduce((a, b) => (b.importance > a.importance ? b : a));
+      for (const m of members) {
+        if (m.id !== hub.id) folds.links.push({ source: m.id, link: { type: 'related-to', target: hub.id, createdAt: now, createdBy: 'consolidation' } });
+      }
+    }
+  }
+
+  /** Record that `removed` was folded into `kept`, linked by `type` */
+  private fold(folds: Folds, removed: Memory, kept: Memory, type: LinkType): void {
+    folds.absorbed.push({ memory: removed, into: kept.id });
+    folds.links.push({
+      source: kept.id,
+      link: { type, target: removed.id, createdAt: new Date().toISOString(), createdBy: 'consolidation' },
+    });
   }
 
   // ===========================================================================
@@ -332,18 +422,6 @@ export class Consolidator {
   // Utils
   // ===========================================================================
 
-  private cosineSimilarity(a: Float32Array, b: Float32Array): number {
-    if (a.length !== b.length || a.length === 0) return 0;
-    let dot = 0, normA = 0, normB = 0;
-    for (let i = 0; i < a.length; i++) {
-      dot += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
-    const denom = Math.sqrt(normA) * Math.sqrt(normB);
-    return denom === 0 ? 0 : dot / denom;
-  }
-
   private countByTier(memories: Memory[]): Record<MemoryTier, number> {
     const counts = { hot: 0, warm: 0, cold: 0, archive: 0 } as Record<MemoryTier, number>;
     for (const m of memories) counts[m.tier] = (counts[m.tier] || 0) + 1;
@@ -0,0 +1,220 @@
+/**
+ * Engram Trace — Context Packing
+ *
+ * Fits recalled memories into a token budget for a system prompt. Sections
+ * are filled in priority order; each candidate goes in whole while it fits,
+ * then the overflow is dropped, trimmed or summarized. The budget is checked
+ * against the counter's count of the fully rendered text, so separators and
+ * markup are paid for too.
+ */
+import type { BuiltContext, ContextFormat, ContextItem, ContextSection, Memory, TokenCounter } from './types.js';
+
+/** Default token counter: ~4 characters per token (English text, GPT/Claude-style tokenizers) */
+export const estimateTokens: TokenCounter = text => Math.ceil(text.length / 4);
+
+/** Don't bother trimming or summarizing into less than this */
+const MIN_ITEM_TOKENS = 12;
+
+export interface SectionCandidates {
+  section: ContextSection;
+  /** Best first */
+  memories: Memory[];
+}
+
+export interface PackOptions {
+  tokenBudget: number;
+  format: ContextFormat;
+  countTokens: TokenCounter;
+  overflow: 'drop' | 'trim' | 'summarize';
+  /** Condense memories into at most `maxTokens`; without it 'summarize' trims */
+  summarize?: (memories: Memory[], maxTokens: number) => Promise<string | null>;
+}
+
+interface SectionState {
+  section: ContextSection;
+  items: ContextItem[];
+  overflow: Memory[];
+  candidates: number;
+  /** Nothing more goes in whole (something was trimmed or overflowed) */
+  full: boolean;
+}
+
+// =============================================================================
+// Packing
+// =============================================================================
+
+export async function packContext(candidates: SectionCandidates[], options: PackOptions): Promise<BuiltContext> {
+  const { tokenBudget, format, countTokens } = options;
+  const states: SectionState[] = candidates.map(c => ({ section: c.section, items: [], overflow: [], candidates: 0, full: false }));
+  const cited = new Set<string>();
+
+  // Does the context (and this section) still fit with `state` as it is?
+  const fits = (state: SectionState) =>
+    countTokens(render(states, format)) <= tokenBudget &&
+    (state.section.maxTokens === undefined || countTokens(render([state], format)) <= state.section.maxTokens);
+
+  const byPriority = states
+    .map((state, order) => ({ state, order }))
+    .sort((a, b) => (b.state.section.priority ?? 0) - (a.state.section.priority ?? 0) || a.order - b.order)
+    .map(s => s.state);
+
+  // Whole memories, best first. 'drop' keeps trying smaller ones after
+  // one doesn't fit; otherwise the rest overflows in rank order.
+  for (const state of byPriority) {
+    for (const memory of candidates[states.indexOf(state)].memories) {
+      if (cited.has(memory.id)) continue;
+      state.candidates++;
+      if (state.full) {
+        state.overflow.push(memory);
+        continue;
+      }
+
+      const item: ContextItem = { ids: [memory.id], content: memory.content };
+      state.items.push(item);
+      if (fits(state)) {
+        cited.add(memory.id);
+        continue;
+      }
+      state.items.pop();
+
+      if (options.overflow === 'trim' && trimInto(state, item, fits, countTokens)) {
+        cited.add(memory.id);
+      } else {
+        state.overflow.push(memory);
+      }
+      if (options.overflow !== 'drop') state.full = true;
+    }
+  }
+
+  // Overflow, condensed into what's left
+  if (options.overflow === 'summarize') {
+    for (const state of byPriority) {
+      if (state.overflow.length === 0) continue;
+      const room = spareTokens(state, states, options);
+      if (room < MIN_ITEM_TOKENS) continue;
+
+      const ids = state.overflow.map(m => m.id);
+      const text = options.summarize ? await options.summarize(state.overflow, room) : null;
+      const item: ContextItem = text
+        ? { ids, content: text.trim(), summary: true }
+        : { ids: [ids[0]], content: state.overflow[0].content };
+
+      state.items.push(item);
+      if (!fits(state)) {
+        state.items.pop();
+        if (!trimInto(state, item, fits, countTokens)) continue;
+      }
+      for (const id of item.ids) cited.add(id);
+    }
+  }
+
+  const text = render(states, format);
+  return {
+    text,
+    tokens: countTokens(text),
+    format,
+    sections: states.map(s => ({
+      name: s.section.name,
+      items: s.items,
+      tokens: s.items.length > 0 ? countTokens(render([s], format)) : 0,
+      omitted: s.candidates - s.items.reduce((n, item) => n + item.ids.length, 0),
+    })),
+    ids: [...cited],
+  };
+}
+
+/**
+ * Add `item` cut to the longest prefix (at a word boundary) that fits;
+ * false if not even a few tokens' worth does.
+ */
+function trimInto(
+  state: SectionState,
+  item: ContextItem,
+  fits: (state: SectionState) => boolean,
+  countTokens: TokenCounter,
+): boolean {
+  const content = item.content;
+  let lo = 0;
+  let hi = content.length;
+  let best: string | null = null;
+
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    const cut = content.slice(0, mid).replace(/\s+\S*$/, '') || content.slice(0, mid);
+    state.items.push({ ...item, content: `${cut}…`, trimmed: true });
+    const ok = fits(state);
+    state.items.pop();
+    if (ok) {
+      best = cut;
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+
+  if (best === null || countTokens(best) < MIN_ITEM_TOKENS) return false;
+  state.items.push({ ...item, content: `${best}…`, trimmed: true });
+  return true;
+}
+
+/** Roughly how many tokens one more entry in `state` could use */
+function spareTokens(state: SectionState, states: SectionState[], options: PackOptions): number {
+  const used = options.countTokens(render(states, options.format));
+  let room = options.tokenBudget - used;
+  if (state.section.maxTokens !== undefined) {
+    room = Math.min(room, state.section.maxTokens - options.countTokens(render([state], options.format)));
+  }
+  // Leave room for the entry's markup
+  return room - options.countTokens(renderItem({ ids: state.overflow.map(m => m.id), content: '' }, options.format));
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Render sections (empty ones are left out) as Markdown (`## name` and a
+ * bullet per entry), XML (`<memory-context>`, `<section>` and `<memory>`
+ * tags) or compact JSON. Every entry carries the ids it cites.
+ */
+export function renderContext(sections: Array<{ name: string; items: ContextItem[] }>, format: ContextFormat): string {
+  const filled = sections.filter(s => s.items.length > 0);
+
+  if (format === 'json') {
+    return JSON.stringify({ sections: filled.map(s => ({ name: s.name, memories: s.items.map(jsonItem) })) });
+  }
+  if (format === 'xml') {
+    const body = filled.map(s =>
+      `<section name="${escapeXml(s.name)}">\n${s.items.map(item => renderItem(item, format)).join('\n')}\n</section>`);
+    return `<memory-context>\n${body.join('\n')}\n</memory-context>`;
+  }
+  return filled
+    .map(s => `## ${s.name}\n${s.items.map(item => renderItem(item, format)).join('\n')}`)
+    .join('\n\n');
+}
+
+function render(states: SectionState[], format: ContextFormat): string {
+  return renderContext(states.map(s => ({ name: s.section.name, items: s.items })), format);
+}
+
+function renderItem(item: ContextItem, format: ContextFormat): string {
+  if (format === 'json') return JSON.stringify(jsonItem(item));
+  if (format === 'xml') {
+    const tag = item.summary ? 'summary' : 'memory';
+    return `<${tag} ${item.summary ? 'ids' : 'id'}="${item.ids.join(' ')}">${escapeXml(item.content)}</${tag}>`;
+  }
+  return `- [${item.ids.join(', ')}] ${item.summary ? '(summary) ' : ''}${item.content.replace(/\s*\n\s*/g, ' ')}`;
+}
+
+function jsonItem(item: ContextItem): Record<string, unknown> {
+  return {
+    ...(item.ids.length === 1 && !item.summary ? { id: item.ids[0] } : { ids: item.ids }),
+    content: item.content,
+    ...(item.trimmed ? { trimmed: true } : {}),
+    ...(item.summary ? { summary: true } : {}),
+  };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,81 @@
+/**
+ * Engram Trace — Conversation-Aware Queries
+ *
+ * Builds recall queries from the latest message and the turns before it,
+ * so a follow-up like "and what about the staging one?" carries the context
+ * it refers to. Recent turns weigh more: each turn back counts `decay` times
+ * the one after it.
+ */
+import type { ConversationTurn, Memory, RecallResult } from './types.js';
+
+/** A turn with less room than this is left out rather than cut to a stub */
+const MIN_PIECE_CHARS = 20;
+
+export interface TurnQueryOptions {
+  /** Weight of a turn relative to the next newer one (0-1) */
+  decay: number;
+  /** Max characters of a query */
+  maxChars: number;
+}
+
+export interface WeightedQuery {
+  text: string;
+  weight: number;
+}
+
+/**
+ * The message (if any), then the turns newest first, each with its weight:
+ * 1 for the newest piece, times `decay` per step back.
+ */
+export function turnQueries(message: string | undefined, turns: ConversationTurn[], options: TurnQueryOptions): WeightedQuery[] {
+  const pieces = [
+    ...(message?.trim() ? [message.trim()] : []),
+    ...turns.slice().reverse().map(t => `${t.user.trim()} ${t.assistant.trim()}`.trim()),
+  ].filter(Boolean);
+
+  return pieces.map((text, age) => ({ text: clip(text, options.maxChars), weight: options.decay ** age }));
+}
+
+/**
+ * One query from the message and the turns, newest first. Each piece may
+ * take up to `maxChars` x its weight (within what's left), so older turns
+ * contribute less text.
+ */
+export function combinedTurnQuery(message: string | undefined, turns: ConversationTurn[], options: TurnQueryOptions): string {
+  const parts: string[] = [];
+  let left = options.maxChars;
+
+  for (const { text, weight } of turnQueries(message, turns, options)) {
+    const room = Math.min(left, Math.floor(options.maxChars * weight));
+    const part = clip(text, room);
+    if (!part || (room < MIN_PIECE_CHARS && part.length < text.length)) break;
+    parts.push(part);
+    left -= part.length + 1;
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Fuse the results of weighted sub-queries: each memory keeps its best
+ * score x weight, best first.
+ */
+export function fuseWeightedResults(lists: Array<{ results: RecallResult[]; weight: number }>): RecallResult[] {
+  const best = new Map<Memory, RecallResult>();
+  for (const { results, weight } of lists) {
+    for (const result of results) {
+      const score = result.score * weight;
+      const current = best.get(result.memory);
+      if (!current || score > current.score) best.set(result.memory, { ...result, score });
+    }
+  }
+  return [...best.values()].sort((a, b) => b.score - a.score);
+}
+
+/** `text` cut to `max` characters at a word boundary */
+export function clip(text: string, max: number): string {
+  if (text.length <= max) return text;
+  if (max <= 0) return '';
+  // Up to the last whitespace that keeps it within max, else a hard cut
+  const end = text.slice(0, max + 1).search(/\s+\S*$/);
+  return (end > 0 ? text.slice(0, end) : text.slice(0, max)).trimEnd();
+}
@@ -0,0 +1,227 @@
+/**
+ * Engram Trace — At-Rest Encryption
+ *
+ * AES-256-GCM over individual memory records, keyed either by an
+ * argon2id-derived passphrase key or a raw 32-byte key from a provider.
+ *
+ * Sealed value layout (base64): iv (12 bytes) | auth tag (16 bytes) | ciphertext
+ *
+ * The file header carries a SecurityDescriptor (algorithm, KDF, salt, KDF
+ * params and a sealed key-check marker) so a wrong key is detected up front
+ * instead of surfacing as garbage memories.
+ */
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'node:crypto';
+
+import type { EncryptionConfig } from './types.js';
+import { EncryptionError } from './errors.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const SALT_BYTES = 16;
+const KEY_CHECK = 'engram-trace:key-check:v1';
+const DIGEST_CONTEXT = 'engram-trace:digest:v1';
+
+const DEFAULT_KDF_PARAMS: KdfParams = {
+  timeCost: 3,
+  memoryCost: 65536,  // 64 MiB
+  parallelism: 4,
+};
+
+// =============================================================================
+// Descriptor
+// =============================================================================
+
+export interface KdfParams {
+  timeCost: number;
+  memoryCost: number;
+  parallelism: number;
+}
+
+/** Serializable description of how a file is encrypted (lives in the header). */
+export interface SecurityDescriptor {
+  encrypted: boolean;
+  algorithm: 'aes-256-gcm' | 'none';
+  kdf: 'argon2id' | 'none';
+  /** base64 salt (argon2id only) */
+  salt?: string;
+  kdfParams?: KdfParams;
+  /** base64 sealed key-check marker */
+  keyCheck?: string;
+}
+
+export const PLAINTEXT_DESCRIPTOR: SecurityDescriptor = {
+  encrypted: false,
+  algorithm: 'none',
+  kdf: 'none',
+};
+
+// =============================================================================
+// File Cipher
+// =============================================================================
+
+export class FileCipher {
+  private key: Buffer;
+  readonly descriptor: SecurityDescriptor;
+
+  private constructor(key: Buffer, descriptor: Omit<SecurityDescriptor, 'keyCheck'>) {
+    this.key = key;
+    this.descriptor = { ...descriptor, keyCheck: this.seal(KEY_CHECK) };
+  }
+
+  /**
+   * Create a cipher with a fresh salt (new files and key rotation).
+   */
+  static async create(config: EncryptionConfig): Promise<FileCipher> {
+    const secret = await resolveSecret(config);
+    if (typeof secret !== 'string') {
+      return new FileCipher(secret, { encrypted: true, algorithm: ALGORITHM, kdf: 'none' });
+    }
+
+    const salt = randomBytes(SALT_BYTES);
+    const kdfParams = { ...DEFAULT_KDF_PARAMS, ...config.kdfParams };
+    const key = await deriveKey(secret, salt, kdfParams);
+    return new FileCipher(key, {
+      encrypted: true,
+      algorithm: ALGORITHM,
+      kdf: 'argon2id',
+      salt: salt.toString('base64'),
+      kdfParams,
+    });
+  }
+
+  /**
+   * Re-open the cipher described by an existing file header.
+   * Throws EncryptionError if the key does not match.
+   */
+  static async open(config: EncryptionConfig, descriptor: SecurityDescriptor): Promise<FileCipher> {
+    if (descriptor.algorithm !== ALGORITHM) {
+      throw new EncryptionError(`Unsupported encryption algorithm: ${descriptor.algorithm}`);
+    }
+
+    const secret = await resolveSecret(config);
+    let key: Buffer;
+    if (descriptor.kdf === 'argon2id') {
+      if (typeof secret !== 'string') {
+        throw new EncryptionError('File is passphrase-encrypted but a raw key was provided');
+      }
+      if (!descriptor.salt) throw new EncryptionError('Encrypted header is missing its salt');
+      key = await deriveKey(secret, Buffer.from(descriptor.salt, 'base64'), descriptor.kdfParams ?? DEFAULT_KDF_PARAMS);
+    } else {
+      if (typeof secret === 'string') {
+        throw new EncryptionError('File is encrypted with a raw key but a passphrase was provided');
+      }
+      key = secret;
+    }
+
+    const cipher = new FileCipher(key, {
+      encrypted: true,
+      algorithm: ALGORITHM,
+      kdf: descriptor.kdf,
+      salt: descriptor.salt,
+      kdfParams: descriptor.kdfParams,
+    });
+
+    if (!descriptor.keyCheck) throw new EncryptionError('Encrypted header is missing its key check');
+    let check: string;
+    try {
+      check = cipher.open(descriptor.keyCheck).toString('utf8');
+    } catch {
+      throw new EncryptionError('Wrong encryption key: key check failed');
+    }
+    if (check !== KEY_CHECK) throw new EncryptionError('Wrong encryption key: key check mismatch');
+
+    // Keep the header's original key check so unchanged files stay byte-stable
+    cipher.descriptor.keyCheck = descriptor.keyCheck;
+    return cipher;
+  }
+
+  /**
+   * Encrypt a value. `aad` binds the ciphertext to a context (e.g. memory id)
+   * so sealed records cannot be swapped between nodes.
+   */
+  seal(plaintext: string | Uint8Array, aad?: string): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, this.key, iv);
+    if (aad) cipher.setAAD(Buffer.from(aad, 'utf8'));
+    const data = typeof plaintext === 'string' ? Buffer.from(plaintext, 'utf8') : plaintext;
+    const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+  }
+
+  /**
+   * Decrypt a sealed value. Throws EncryptionError on a bad key or tampering.
+   */
+  open(sealed: string, aad?: string): Buffer {
+    const raw = Buffer.from(sealed, 'base64');
+    if (raw.length < IV_BYTES + TAG_BYTES) {
+      throw new EncryptionError('Sealed value is truncated');
+    }
+    try {
+      const decipher = createDecipheriv(ALGORITHM, this.key, raw.subarray(0, IV_BYTES));
+      decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+      if (aad) decipher.setAAD(Buffer.from(aad, 'utf8'));
+      return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+    } catch (e) {
+      throw new EncryptionError('Decryption failed: wrong key or corrupted data', { cause: e });
+    }
+  }
+
+  /**
+   * Keyed content hash (HMAC-SHA256 under a sub-key, hex). Equal plaintexts
+   * get equal digests, for content addressing without revealing content.
+   */
+  digest(data: string): string {
+    const subkey = createHmac('sha256', this.key).update(DIGEST_CONTEXT).digest();
+    return createHmac('sha256', subkey).update(data, 'utf8').digest('hex');
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function resolveSecret(config: EncryptionConfig): Promise<string | Buffer> {
+  const secret = config.keyProvider ? await config.keyProvider() : config.passphrase;
+
+  if (secret === undefined || secret === null || secret === '') {
+    throw new EncryptionError('Encryption requires a passphrase or keyProvider');
+  }
+  if (typeof secret === 'string') return secret;
+
+  if (secret.length !== KEY_BYTES) {
+    throw new EncryptionError(`Raw encryption keys must be ${KEY_BYTES} bytes, got ${secret.length}`);
+  }
+  return Buffer.from(secret);
+}
+
+async function deriveKey(passphrase: string, salt: Buffer, params: KdfParams): Promise<Buffer> {
+  const argon2 = await import('argon2');
+  return argon2.hash(passphrase, {
+    type: argon2.argon2id,
+    raw: true,
+    salt,
+    hashLength: KEY_BYTES,
+    timeCost: params.timeCost,
+    memoryCost: params.memoryCost,
+    parallelism: params.parallelism,
+  });
+}
+
+/** Encode an embedding as base64 little-endian float32 bytes. */
+export function encodeEmbedding(embedding: Float32Array): string {
+  return Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength).toString('base64');
+}
+
+/** Inverse of encodeEmbedding. Copies so the result is properly aligned. */
+export function decodeEmbedding(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, 'base64');
+  const copy = new Uint8Array(bytes.length);
+  copy.set(bytes);
+  return new Float32Array(copy.buffer, 0, Math.floor(bytes.length / 4));
+}
@@ -0,0 +1,164 @@
+/**
+ * Engram Trace — Brain Diff
+ *
+ * Compares two sets of memories (two brains, or a brain and an earlier
+ * copy of itself): what was added, removed, rewritten, re-tiered or
+ * re-weighted. Memories are paired by id first; leftovers are paired by
+ * embedding similarity so a consolidation summary that replaced a memory
+ * shows up as a change rather than an unrelated add + remove.
+ */
+import type { Memory, BrainDiff, MemoryChange } from './types.js';
+import { cosineSimilarity } from './similarity.js';
+
+// =============================================================================
+// Diff
+// =============================================================================
+
+export interface DiffMemoriesOptions {
+  /** Minimum similarity for a semantic match, or null for id matching only */
+  semanticThreshold: number | null;
+  beforeSource?: string;
+  afterSource?: string;
+}
+
+export function diffMemories(before: Memory[], after: Memory[], options: DiffMemoriesOptions): BrainDiff {
+  const afterById = new Map(after.map(m => [m.id, m]));
+  const changed: MemoryChange[] = [];
+  let unchanged = 0;
+  let removed: Memory[] = [];
+
+  for (const b of before) {
+    const a = afterById.get(b.id);
+    if (!a) {
+      removed.push(b);
+      continue;
+    }
+    afterById.delete(b.id);
+
+    const change = compare(b, a, 'id');
+    if (change) changed.push(change);
+    else unchanged++;
+  }
+  let added = [...afterById.values()];
+
+  // Semantic fallback: best pairs first, each memory used once
+  if (options.semanticThreshold !== null && removed.length > 0 && added.length > 0) {
+    const pairs: Array<{ r: number; a: number; score: number }> = [];
+    removed.forEach((r, i) => added.forEach((a, j) => {
+      const score = cosineSimilarity(r.embedding, a.embedding);
+      if (score >= options.semanticThreshold!) pairs.push({ r: i, a: j, score });
+    }));
+    pairs.sort((x, y) => y.score - x.score);
+
+    const usedRemoved = new Set<number>();
+    const usedAdded = new Set<number>();
+    for (const pair of pairs) {
+      if (usedRemoved.has(pair.r) || usedAdded.has(pair.a)) continue;
+      usedRemoved.add(pair.r);
+      usedAdded.add(pair.a);
+      changed.push(compare(removed[pair.r], added[pair.a], 'semantic')!);
+    }
+    removed = removed.filter((_, i) => !usedRemoved.has(i));
+    added = added.filter((_, j) => !usedAdded.has(j));
+  }
+
+  return {
+    before: { source: options.beforeSource ?? 'before', total: before.length },
+    after: { source: options.afterSource ?? 'after', total: after.length },
+    added,
+    removed,
+    changed,
+    unchanged,
+  };
+}
+
+/**
+ * What changed between two versions of a memory, or null if nothing
+ * beyond access stats did. Semantic matches always count as a change.
+ */
+function compare(before: Memory, after: Memory, match: 'id' | 'semantic'): MemoryChange | null {
+  const tagsAdded = after.tags.filter(t => !before.tags.includes(t));
+  const tagsRemoved = before.tags.filter(t => !after.tags.includes(t));
+  const contentChanged = before.content !== after.content;
+  const tierChanged = before.tier !== after.tier;
+  const importanceChanged = Math.abs(before.importance - after.importance) > 1e-9;
+
+  if (match === 'id' && !contentChanged && !tierChanged && !importanceChanged && tagsAdded.length === 0 && tagsRemoved.length === 0) {
+    return null;
+  }
+
+  return {
+    before,
+    after,
+    match,
+    similarity: cosineSimilarity(before.embedding, after.embedding),
+    contentChanged,
+    tier: tierChanged ? { from: before.tier, to: after.tier } : undefined,
+    importance: importanceChanged ? { from: before.importance, to: after.importance } : undefined,
+    tagsAdded,
+    tagsRemoved,
+  };
+}
+
+// =============================================================================
+// Printable Output
+// =============================================================================
+
+export interface FormatDiffOptions {
+  /** Truncate memory content to this many characters. Default: 100 */
+  maxContent?: number;
+}
+
+/**
+ * Render a diff as text, `diff -u` style:
+ *
+ *   --- before.engram (120 memories)
+ *   +++ after.engram (95 memories)
+ *   3 added, 20 removed, 12 changed, 80 unchanged
+ *
+ *   + [3f2a9c1e] User prefers dark mode
+ *   - [77d01b2a] Meeting moved to Tuesday
+ *   ~ [a1b2c3d4] tier hot -> warm, importance 0.50 -> 0.70
+ *   ~ [9e8f7a6b -> 5c4d3e2f] semantic match (0.91)
+ *       - Decided on Postgres
+ *       + Summary: database decisions (Postgres, pgvector)
+ */
+export function formatDiff(diff: BrainDiff, options?: FormatDiffOptions): string {
+  const max = options?.maxContent ?? 100;
+  const text = (m: Memory) => {
+    const oneLine = m.content.replace(/\s+/g, ' ').trim();
+    return oneLine.length > max ? oneLine.slice(0, max - 3) + '...' : oneLine;
+  };
+  const id = (m: Memory) => m.id.slice(0, 8);
+
+  const lines = [
+    `--- ${diff.before.source} (${diff.before.total} memories)`,
+    `+++ ${diff.after.source} (${diff.after.total} memories)`,
+    `${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed, ${diff.unchanged} unchanged`,
+  ];
+  if (diff.added.length + diff.removed.length + diff.changed.length > 0) lines.push('');
+
+  for (const m of diff.added) lines.push(`+ [${id(m)}] ${text(m)}`);
+  for (const m of diff.removed) lines.push(`- [${id(m)}] ${text(m)}`);
+
+  for (const c of diff.changed) {
+    const ids = c.match === 'id' ? id(c.after) : `${id(c.before)} -> ${id(c.after)}`;
+    const notes: string[] = [];
+    if (c.match === 'semantic') notes.push(`semantic match (${c.similarity.toFixed(2)})`);
+    if (c.tier) notes.push(`tier ${c.tier.from} -> ${c.tier.to}`);
+    if (c.importance) notes.push(`importance ${c.importance.from.toFixed(2)} -> ${c.importance.to.toFixed(2)}`);
+    if (c.tagsAdded.length) notes.push(`tags +${c.tagsAdded.join(' +')}`);
+    if (c.tagsRemoved.length) notes.push(`tags -${c.tagsRemoved.join(' -')}`);
+    if (c.contentChanged && c.match === 'id') notes.push('content changed');
+
+    lines.push(`~ [${ids}] ${notes.join(', ')}`);
+    if (c.contentChanged) {
+      lines.push(`    - ${text(c.before)}`);
+      lines.push(`    + ${text(c.after)}`);
+    } else {
+      lines.push(`    ${text(c.after)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
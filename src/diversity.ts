@@ -0,0 +1,56 @@
+/**
+ * Engram Trace — Result Diversity
+ *
+ * The top results for a query are often paraphrases of one memory (the same
+ * decision restated over several sessions). These re-rank a scored result
+ * list so each slot adds something new:
+ *   - collapseNearDuplicates — drop results nearly identical to a better one
+ *   - selectMmr              — maximal marginal relevance
+ */
+import type { RecallResult } from './types.js';
+import { cosineSimilarity } from './similarity.js';
+
+/**
+ * Results in order, minus any whose embedding is at least `threshold`
+ * cosine-similar to an earlier (better-ranked) result that was kept.
+ */
+export function collapseNearDuplicates(results: RecallResult[], threshold: number): RecallResult[] {
+  const kept: RecallResult[] = [];
+  for (const r of results) {
+    if (!kept.some(k => cosineSimilarity(k.memory.embedding, r.memory.embedding) >= threshold)) kept.push(r);
+  }
+  return kept;
+}
+
+/**
+ * Greedily pick `limit` results maximizing
+ *   lambda x score - (1 - lambda) x max similarity to those already picked,
+ * so lambda = 1 is plain ranking by score and lower values favour novelty.
+ * `results` must be sorted by score; the picks are returned in pick order.
+ */
+export function selectMmr(results: RecallResult[], limit: number, lambda: number): RecallResult[] {
+  const remaining = [...results];
+  // Highest similarity of each remaining result to anything picked so far
+  const redundancy = new Array<number>(remaining.length).fill(0);
+  const picked: RecallResult[] = [];
+
+  while (picked.length < limit && remaining.length > 0) {
+    let best = 0;
+    let bestValue = -Infinity;
+    for (let i = 0; i < remaining.length; i++) {
+      const value = lambda * remaining[i].score - (1 - lambda) * redundancy[i];
+      if (value > bestValue) {
+        bestValue = value;
+        best = i;
+      }
+    }
+
+    const [choice] = remaining.splice(best, 1);
+    redundancy.splice(best, 1);
+    picked.push(choice);
+    for (let i = 0; i < remaining.length; i++) {
+      redundancy[i] = Math.max(redundancy[i], cosineSimilarity(choice.memory.embedding, remaining[i].memory.embedding));
+    }
+  }
+  return picked;
+}
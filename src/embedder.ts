@@ -12,7 +12,7 @@ import type { Embedder, EmbedderConfig } from './types.js';
 
 export class LocalEmbedder implements Embedder {
   private pipeline: any = null;
-  private model: string;
+  readonly model: string;
   dims: number = 384;
 
   constructor(model = 'Xenova/all-MiniLM-L6-v2') {
@@ -38,7 +38,7 @@ export class LocalEmbedder implements Embedder {
 
 export class OllamaEmbedder implements Embedder {
   private url: string;
-  private model: string;
+  readonly model: string;
   dims: number = 384;
   private initialized = false;
 
@@ -68,7 +68,7 @@ export class OllamaEmbedder implements Embedder {
 
 export class OpenAIEmbedder implements Embedder {
   private apiKey: string;
-  private model: string;
+  readonly model: string;
   dims: number = 1536;
 
   constructor(apiKey: string, model = 'text-embedding-3-small') {
@@ -98,7 +98,9 @@ export class OpenAIEmbedder implements Embedder {
 // Factory
 // =============================================================================
 
-export function createEmbedder(config?: EmbedderConfig): Embedder {
+export function createEmbedder(config?: EmbedderConfig | Embedder): Embedder {
+  if (config && 'embed' in config) return config;
+
   if (!config || config.provider === 'local') {
     return new LocalEmbedder(config?.model);
   }
@@ -0,0 +1,491 @@
+/**
+ * Engram Trace — .engram File Codec
+ *
+ * Converts between Trace memories and @terronex/engram files, including the
+ * JSON fallback written when the engram library fails, per-record
+ * encryption, and crash-safe atomic writes with rotated backups.
+ *
+ * Used by the file-backed storage adapters; knows nothing about journals,
+ * locks or recovery policy.
+ */
+import { existsSync } from 'node:fs';
+import { open, readFile, writeFile, rename, copyFile, rm, stat } from 'node:fs/promises';
+
+import type { Memory, MemoryTier, MemoryScope, MemoryLink, TraceMeta } from './types.js';
+import { MemoryTier as Tier } from './types.js';
+import {
+  PLAINTEXT_DESCRIPTOR,
+  encodeEmbedding,
+  decodeEmbedding,
+  type FileCipher,
+  type SecurityDescriptor,
+} from './crypto.js';
+import { EncryptionError } from './errors.js';
+import { isLinkType } from './links.js';
+import { EntityIndex } from './entities.js';
+
+/** `format` marker of the JSON file written when the engram library fails */
+const JSON_FALLBACK_FORMAT = 'engram-trace';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface BrainFile {
+  memories: Memory[];
+  /** Header generation counter, bumped on every save */
+  generation: number;
+  meta: Partial<TraceMeta>;
+  format: 'engram' | 'json';
+}
+
+/**
+ * Turns a file's header security block into a cipher (null for plaintext).
+ * Throws EncryptionError for a wrong or missing key.
+ */
+export type CipherResolver = (security: Partial<SecurityDescriptor> | undefined) => Promise<FileCipher | null>;
+
+/**
+ * The file is not a well-formed brain file: empty, truncated, or not
+ * decodable. Unlike I/O and key errors, this is what recovery from a
+ * backup is for.
+ */
+export class MalformedFileError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'MalformedFileError';
+  }
+}
+
+export interface WriteOptions {
+  /** Rotated backups to keep. Default: 0 */
+  backups?: number;
+  /** Write the JSON fallback if the engram library fails. Default: true */
+  fallback?: boolean;
+  /** Debug logger */
+  log?: (msg: string) => void;
+}
+
+// =============================================================================
+// Read
+// =============================================================================
+
+/**
+ * Read and decode one .engram (or JSON fallback) file. Throws
+ * MalformedFileError on anything short of a well-formed file (zero-length,
+ * truncated, missing node table); I/O and key errors are thrown as-is.
+ */
+export async function readBrainFile(path: string, resolveCipher: CipherResolver): Promise<BrainFile> {
+  const { size } = await stat(path);
+  if (size === 0) throw new MalformedFileError('file is empty (interrupted write?)');
+
+  if (await isJsonFile(path)) {
+    return readJsonFallback(path, resolveCipher);
+  }
+
+  // Dynamic import of engram
+  const engram = await import('@terronex/engram');
+  const data = await decoding(() => engram.readEngramFile(path));
+
+  if (!data || !data.header || !Array.isArray(data.nodes)) {
+    throw new MalformedFileError('not a valid .engram file (missing header or node table)');
+  }
+
+  const cipher = await resolveCipher(data.header.security);
+
+  // Convert engram MemoryNodes to Trace Memory objects, links from the links table
+  const memories = await decoding(() => {
+    const links = linksBySource(data.links);
+    const converted: Memory[] = [];
+    for (const node of data.nodes) {
+      const memory = fromNode(node, cipher, path);
+      if (!memory) continue;
+      if (links.has(memory.id)) memory.links = links.get(memory.id);
+      converted.push(memory);
+    }
+    return converted;
+  });
+
+  return {
+    memories,
+    generation: Number(data.header.metadata?.generation) || 0,
+    meta: data.header.metadata?.trace ?? {},
+    format: 'engram',
+  };
+}
+
+/**
+ * The security block of a file's header (undefined for plaintext files
+ * that predate it), e.g. to see whether another process rotated the key.
+ */
+export async function readSecurity(path: string): Promise<Partial<SecurityDescriptor> | undefined> {
+  if (await isJsonFile(path)) return JSON.parse(await readFile(path, 'utf8'))?.security;
+
+  const engram = await import('@terronex/engram');
+  return (await engram.readEngramFile(path))?.header?.security;
+}
+
+/**
+ * The JSON fallback starts with '{'; .engram files start with binary magic.
+ */
+async function isJsonFile(path: string): Promise<boolean> {
+  const handle = await open(path, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(64), 0, 64, 0);
+    return buffer.subarray(0, bytesRead).toString('utf8').trimStart().startsWith('{');
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Read the `{ version, format: 'engram-trace', memories }` file that save()
+ * writes when @terronex/engram is unavailable.
+ */
+async function readJsonFallback(path: string, resolveCipher: CipherResolver): Promise<BrainFile> {
+  const text = await readFile(path, 'utf8');
+  const data = await decoding(() => JSON.parse(text));
+  if (data?.format !== JSON_FALLBACK_FORMAT || !Array.isArray(data.memories)) {
+    throw new MalformedFileError(`not an ${JSON_FALLBACK_FORMAT} JSON file`);
+  }
+
+  const cipher = await resolveCipher(data.security);
+
+  const memories = await decoding(() => data.memories.map((m: any): Memory => {
+    if (typeof m.sealed === 'string') return openRecord(cipher, m.id, m.sealed, path);
+
+    const now = new Date().toISOString();
+    return {
+      id: m.id || crypto.randomUUID(),
+      content: String(m.content ?? ''),
+      embedding: new Float32Array(Array.isArray(m.embedding) ? m.embedding : []),
+      tags: Array.isArray(m.tags) ? m.tags : [],
+      importance: typeof m.importance === 'number' ? m.importance : 0.5,
+      tier: (m.tier as MemoryTier) || Tier.HOT,
+      createdAt: m.createdAt || now,
+      lastAccessed: m.lastAccessed || m.createdAt || now,
+      accessCount: m.accessCount || 0,
+      source: m.source,
+      metadata: m.metadata,
+      scope: m.scope,
+      links: Array.isArray(m.links) ? m.links : undefined,
+      entities: Array.isArray(m.entities) ? m.entities : undefined,
+    };
+  }));
+
+  return { memories, generation: Number(data.generation) || 0, meta: data.trace ?? {}, format: 'json' };
+}
+
+/**
+ * Run a decode step, reporting what it throws as MalformedFileError unless
+ * it is an I/O or key error, which say nothing about the file's contents.
+ */
+async function decoding<T>(decode: () => T | Promise<T>): Promise<T> {
+  try {
+    return await decode();
+  } catch (e) {
+    if (e instanceof EncryptionError || e instanceof MalformedFileError || (e as NodeJS.ErrnoException)?.syscall) throw e;
+    throw new MalformedFileError(e instanceof Error ? e.message : String(e), { cause: e });
+  }
+}
+
+// =============================================================================
+// Write
+// =============================================================================
+
+/**
+ * Write memories as an .engram file (atomically, rotating backups). Falls
+ * back to JSON if the engram library fails, unless `fallback` is false.
+ * Returns the format that was written.
+ */
+export async function writeBrainFile(
+  path: string,
+  brain: { memories: Memory[]; generation: number; meta: Partial<TraceMeta> },
+  cipher: FileCipher | null,
+  options: WriteOptions = {},
+): Promise<'engram' | 'json'> {
+  try {
+    await writeEngram(path, brain, cipher, options.backups ?? 0);
+    options.log?.(`Saved ${brain.memories.length} memories to ${path}`);
+    return 'engram';
+  } catch (e) {
+    if (options.fallback === false) throw e;
+
+    // Fallback: save as JSON if engram format fails
+    options.log?.(`Engram write failed (${e}), falling back to JSON`);
+    await writeJsonFallback(path, brain, cipher, options.backups ?? 0);
+    options.log?.(`Saved ${brain.memories.length} memories as JSON fallback to ${path}`);
+    return 'json';
+  }
+}
+
+async function writeEngram(
+  path: string,
+  brain: { memories: Memory[]; generation: number; meta: Partial<TraceMeta> },
+  cipher: FileCipher | null,
+  backups: number,
+): Promise<void> {
+  const engram = await import('@terronex/engram');
+
+  const nodes = brain.memories.map(m => toNode(engram, m, cipher));
+  const security = cipher?.descriptor ?? PLAINTEXT_DESCRIPTOR;
+
+  const file: any = {
+    header: {
+      version: [1, 0],
+      created: Date.now(),
+      modified: Date.now(),
+      security: { ...security, integrity: new Uint8Array(0) },
+      metadata: {
+        source: 'engram-trace',
+        description: `Trace memory: ${brain.memories.length} memories`,
+        generation: brain.generation,
+        trace: brain.meta,
+      },
+      schema: { version: 1, contentTypes: ['text'] },
+      stats: { nodeCount: nodes.length, totalBytes: 0, maxDepth: 0 },
+    },
+    nodes,
+    // Sealed memories keep their entities and links inside the sealed record
+    entities: cipher ? [] : toEntityRecords(brain.memories),
+    links: cipher ? [] : brain.memories.flatMap(toLinkRecords),
+  };
+
+  await writeAtomic(path, backups, tmp => engram.writeEngramFile(tmp, file));
+}
+
+async function writeJsonFallback(
+  path: string,
+  brain: { memories: Memory[]; generation: number; meta: Partial<TraceMeta> },
+  cipher: FileCipher | null,
+  backups: number,
+): Promise<void> {
+  const data = cipher
+    ? brain.memories.map(m => ({ id: m.id, sealed: sealRecord(cipher, m) }))
+    : brain.memories.map(m => ({
+      ...m,
+      embedding: Array.from(m.embedding),
+    }));
+  const security = cipher?.descriptor ?? PLAINTEXT_DESCRIPTOR;
+  const json = JSON.stringify({
+    version: 1,
+    format: JSON_FALLBACK_FORMAT,
+    generation: brain.generation,
+    trace: brain.meta,
+    security,
+    memories: data,
+  }, null, 2);
+  await writeAtomic(path, backups, tmp => writeFile(tmp, json));
+}
+
+/**
+ * Write to a temp file, fsync, rotate backups, then rename over the
+ * target. A crash at any point leaves either the old or the new file.
+ */
+export async function writeAtomic(
+  path: string,
+  backups: number,
+  write: (tmp: string) => Promise<void>,
+): Promise<void> {
+  const tmp = `${path}.tmp-${process.pid}`;
+  try {
+    await write(tmp);
+    const handle = await open(tmp, 'r+');
+    try {
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await rotateBackups(path, backups);
+    await rename(tmp, path);
+  } catch (e) {
+    await rm(tmp, { force: true });
+    throw e;
+  }
+}
+
+async function rotateBackups(path: string, backups: number): Promise<void> {
+  if (backups <= 0 || !existsSync(path)) return;
+
+  for (let i = backups - 1; i >= 1; i--) {
+    const from = backupPath(path, i);
+    if (existsSync(from)) await rename(from, backupPath(path, i + 1));
+  }
+  await copyFile(path, backupPath(path, 1));
+}
+
+export function backupPath(path: string, n: number): string {
+  return `${path}.bak.${n}`;
+}
+
+// =============================================================================
+// Node <-> Memory
+// =============================================================================
+
+function fromNode(node: any, cipher: FileCipher | null, path: string): Memory | null {
+  if (!node.content) return null;
+
+  // Extract text content
+  const content = typeof node.content.data === 'string'
+    ? node.content.data
+    : '';
+  if (!content) return null;
+
+  const meta = node.metadata || {} as Record<string, unknown>;
+  const { entities, ...custom } = (meta as any).custom || {};
+
+  if (custom.sealed) {
+    return openRecord(cipher, node.id, content, path, node.temporal?.decayTier);
+  }
+
+  const embedding = node.embedding
+    ? (node.embedding instanceof Float32Array ? node.embedding : new Float32Array(node.embedding))
+    : new Float32Array(0);
+
+  return {
+    id: node.id || crypto.randomUUID(),
+    content,
+    embedding,
+    tags: (custom.tags as string[]) || (meta as any).tags || [],
+    importance: (custom.importance as number) ?? (node.quality?.score ?? 0.5),
+    tier: (custom.tier as MemoryTier) || (node.temporal?.decayTier as MemoryTier) || Tier.HOT,
+    createdAt: node.temporal?.created ? new Date(node.temporal.created).toISOString() : new Date().toISOString(),
+    lastAccessed: node.temporal?.accessed ? new Date(node.temporal.accessed).toISOString() : new Date().toISOString(),
+    accessCount: (custom.accessCount as number) || 0,
+    source: custom.source as string | undefined,
+    metadata: custom,
+    scope: custom.scope as MemoryScope | undefined,
+    entities: Array.isArray(entities) ? entities : undefined,
+  };
+}
+
+function toNode(engram: any, m: Memory, cipher: FileCipher | null): any {
+  if (cipher) {
+    // Everything but id, tier and timestamps goes inside the sealed record
+    const node = engram.createNode(sealRecord(cipher, m));
+    node.embedding = [] as any;
+    node.id = m.id;
+    node.temporal = {
+      created: new Date(m.createdAt).getTime(),
+      modified: Date.now(),
+      accessed: new Date(m.lastAccessed).getTime(),
+      decayTier: m.tier,
+    };
+    node.quality = { score: 0, confidence: 1, source: 'trace' as any };
+    node.metadata = { ...(node.metadata || {}), custom: { sealed: true } } as any;
+    return node;
+  }
+
+  const node = engram.createNode(m.content);
+  // Store embedding as number[] to avoid msgpackr Float32Array corruption
+  node.embedding = Array.from(m.embedding) as any;
+  node.id = m.id;
+  node.temporal = {
+    created: new Date(m.createdAt).getTime(),
+    modified: Date.now(),
+    accessed: new Date(m.lastAccessed).getTime(),
+    decayTier: m.tier,
+  };
+  node.quality = {
+    score: m.importance,
+    confidence: 1,
+    source: (m.source || 'trace') as any,
+  };
+  node.metadata = {
+    ...(node.metadata || {}),
+    custom: {
+      tags: m.tags,
+      importance: m.importance,
+      tier: m.tier,
+      createdAt: m.createdAt,
+      lastAccessed: m.lastAccessed,
+      accessCount: m.accessCount,
+      source: m.source,
+      scope: m.scope,
+      ...(m.metadata || {}),
+      entities: m.entities,
+    },
+  } as any;
+  return node;
+}
+
+/** A memory's links as rows of the file's links table */
+function toLinkRecords(m: Memory): any[] {
+  return (m.links ?? []).map(l => ({
+    source: m.id,
+    target: l.target,
+    type: l.type,
+    created: Date.parse(l.createdAt),
+    metadata: { createdBy: l.createdBy },
+  }));
+}
+
+/**
+ * The entity table: one row per entity, with the memories mentioning it.
+ * Written for other readers of the file; each memory's own mentions (in
+ * its node) are what's read back.
+ */
+function toEntityRecords(memories: Memory[]): any[] {
+  return new EntityIndex(memories).all().map(e => ({
+    id: e.id,
+    name: e.name,
+    type: e.type,
+    aliases: e.aliases,
+    mentions: e.mentions,
+    nodes: e.memoryIds,
+  }));
+}
+
+/** The links table grouped by source memory (unknown link types are skipped) */
+function linksBySource(rows: unknown): Map<string, MemoryLink[]> {
+  const bySource = new Map<string, MemoryLink[]>();
+  for (const row of Array.isArray(rows) ? rows : []) {
+    if (!row || typeof row.source !== 'string' || typeof row.target !== 'string' || !isLinkType(row.type)) continue;
+    const link: MemoryLink = {
+      type: row.type,
+      target: row.target,
+      createdAt: new Date(Number(row.created) || Date.now()).toISOString(),
+      createdBy: row.metadata?.createdBy === 'consolidation' ? 'consolidation' : 'user',
+    };
+    const list = bySource.get(row.source);
+    if (list) list.push(link);
+    else bySource.set(row.source, [link]);
+  }
+  return bySource;
+}
+
+/**
+ * Encrypt a memory (content, embedding, tags, metadata, links, entities)
+ * bound to its id.
+ */
+function sealRecord(cipher: FileCipher, m: Memory): string {
+  const record = {
+    content: m.content,
+    embedding: encodeEmbedding(m.embedding),
+    tags: m.tags,
+    importance: m.importance,
+    tier: m.tier,
+    createdAt: m.createdAt,
+    lastAccessed: m.lastAccessed,
+    accessCount: m.accessCount,
+    source: m.source,
+    metadata: m.metadata,
+    scope: m.scope,
+    links: m.links,
+    entities: m.entities,
+  };
+  return cipher.seal(JSON.stringify(record), m.id);
+}
+
+function openRecord(cipher: FileCipher | null, id: string, sealed: string, path: string, tier?: string): Memory {
+  if (!cipher) {
+    throw new EncryptionError(`${path} contains encrypted memories but no \`encryption\` config was provided`);
+  }
+  const record = JSON.parse(cipher.open(sealed, id).toString('utf8'));
+  return {
+    ...record,
+    id,
+    tier: (record.tier as MemoryTier) || (tier as MemoryTier) || Tier.HOT,
+    embedding: decodeEmbedding(record.embedding),
+  };
+}
@@ -0,0 +1,389 @@
+/**
+ * Engram Trace — Entities
+ *
+ * Finds the people, projects, repos, URLs, versions, dates and code
+ * identifiers a memory mentions, and gathers them across memories into
+ * entities with aliases and mention counts.
+ *   - LocalEntityExtractor — regex heuristics, no model (default)
+ *   - LLMEntityExtractor   — asks the configured LLM
+ *
+ * Mentions are stored in `Memory.entities`; the .engram file's entity table
+ * is rebuilt from them on save.
+ */
+import type { Entity, EntityConfig, EntityExtractor, EntityMention, EntityType, LLM, Memory } from './types.js';
+
+export const ENTITY_TYPES: readonly EntityType[] = ['person', 'project', 'repo', 'url', 'version', 'date', 'identifier'];
+
+export function isEntityType(value: unknown): value is EntityType {
+  return ENTITY_TYPES.includes(value as EntityType);
+}
+
+/**
+ * The name mentions of one entity share: lowercase, camelCase split, no
+ * leading article or '@', separators as single spaces, no leading 'v' on a
+ * version and no trailing '()' on a call.
+ */
+export function entityKey(name: string): string {
+  return name
+    .trim()
+    .replace(/\(\)$/, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/^(?:the|our|my|their)\s+/, '')
+    .replace(/^@/, '')
+    .replace(/^v(?=\d)/, '')
+    .replace(/[\s_-]+/g, ' ')
+    .trim();
+}
+
+// =============================================================================
+// Local Extractor (default)
+// =============================================================================
+
+const MONTHS = 'January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sept?|Oct|Nov|Dec';
+
+/** Capitalized words that start sentences or name times, never people */
+const NOT_NAMES = new Set([
+  'I', 'The', 'This', 'That', 'These', 'Those', 'We', 'You', 'He', 'She', 'They', 'It', 'My', 'Our', 'Your',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  'Today', 'Tomorrow', 'Yesterday', 'Hi', 'Hello', 'Hey', 'Thanks', 'Yes', 'No', 'Ok', 'Okay',
+  ...MONTHS.replace('Sept?', 'Sep|Sept').split('|'),
+]);
+
+/** Words in front of a project kind that describe it rather than name it */
+const NOT_PROJECT_NAMES = /^(?:new|old|main|current|whole|entire|same|other|existing|first|last|next|latest|previous|this|that|its)$/i;
+
+const PROJECT_KINDS = 'service|microservice|project|app|api|library|package|module|pipeline|server|cluster|bot|dashboard|website|platform|database|cli|sdk|plugin|frontend|backend';
+
+const NAME = '[A-Z][a-z]+(?:\\s[A-Z][a-z]+)?';
+
+/** A word of a project name: not a function word ("the user wants the app") */
+const NAME_WORD = '(?!(?:the|a|an|and|or|of|to|for|in|on|at|with|is|are|was|be|it)\\b)[A-Za-z][\\w.-]*';
+
+/** Words a capitalized "product version" match can start with that aren't products */
+const NOT_PRODUCTS = /^(?:in|on|at|since|before|after|from|to|until|with|for|by|and|or|the|version|release)$/i;
+
+/** Repo hosts whose URLs name an owner/repo */
+const REPO_URL = /^https?:\/\/(?:www\.)?(?:github\.com|gitlab\.com|bitbucket\.org)\/([\w.-]+\/[\w.-]+)/i;
+
+/** Alternatives that may also start with a capital ("Asked Dana") */
+function anyCase(alternatives: string): string {
+  return alternatives.split('|').map(w => `[${w[0].toUpperCase()}${w[0]}]${w.slice(1)}`).join('|');
+}
+
+interface Pattern {
+  type: EntityType;
+  regex: RegExp;
+  /** Which group is the name. Default: the whole match */
+  group?: number;
+}
+
+/**
+ * In priority order: each match is blanked out of the text before the
+ * next pattern runs, so a URL's path isn't also read as a repo and
+ * identifiers.
+ */
+const PATTERNS: Pattern[] = [
+  { type: 'url', regex: /\bhttps?:\/\/[^\s<>"'`)\]]+[^\s<>"'`)\].,;:!?]/g },
+  { type: 'repo', regex: /\b(?:repo|repository)\s+(?:is\s+|at\s+)?([\w.-]+\/[\w.-]*\w)/gi, group: 1 },
+  // Scoped packages (@acme/billing)
+  { type: 'project', regex: /(?<![\w@])@[a-z0-9][\w.-]*\/[\w.-]*\w/g },
+  { type: 'identifier', regex: /`([^`\s]{2,60})`/g, group: 1 },
+  { type: 'date', regex: /\b\d{4}-\d{2}-\d{2}\b/g },
+  {
+    type: 'date',
+    regex: new RegExp(`\\b(?:\\d{1,2}\\s+(?:${MONTHS})\\.?,?\\s+\\d{4}|(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?|(?:${MONTHS})\\s+\\d{4})\\b`, 'g'),
+  },
+  // Product and version (Postgres 16.2), then bare versions (v2.1, 2.1.0-rc.1)
+  { type: 'version', regex: /\b[A-Z][A-Za-z]*(?:\.js)?\s+(?:v\d+(?:\.\d+){1,2}|[1-9]\d*\.\d+(?:\.\d+)?|0\.\d+\.\d+)(?![\w.]*\d)/g },
+  { type: 'version', regex: /(?<![\w.])(?:v\d+(?:\.\d+)+|\d+\.\d+\.\d+)(?:-[0-9A-Za-z.]*[0-9A-Za-z])?(?![\w.]*\d)/g },
+  { type: 'version', regex: /\b(?:version|release)\s+(\d+(?:\.\d+)*)\b/gi, group: 1 },
+  { type: 'person', regex: /(?<![\w@])@[A-Za-z][\w-]{1,38}\b/g },
+  { type: 'person', regex: new RegExp(`\\b(?:my name is|I'm|I am|call me)\\s+(${NAME})\\b`, 'g'), group: 1 },
+  {
+    type: 'person',
+    regex: new RegExp(`\\b(?:${anyCase('ask|asked|tell|told|ping|pinged|cc|thanks|thank|talked to|spoke with|met with|meeting with|call with')})\\s+(${NAME})\\b`, 'g'),
+    group: 1,
+  },
+  {
+    type: 'person',
+    regex: new RegExp(`\\b(?:${anyCase('my|our')})\\s+(?:manager|boss|lead|colleague|coworker|teammate|wife|husband|partner|friend|client|customer|designer|engineer)\\s*,?\\s+(${NAME})\\b`, 'g'),
+    group: 1,
+  },
+  {
+    type: 'person',
+    regex: new RegExp(`\\b(${NAME})\\s+(?:said|says|asked|wants|thinks|mentioned|suggested|prefers|approved|reviewed|agreed)\\b`, 'g'),
+    group: 1,
+  },
+  // "the billing service", "our Stripe API"; "project Atlas"
+  {
+    type: 'project',
+    regex: new RegExp(`\\b(?:the|our|my|their)\\s+((?:${NAME_WORD}\\s+){0,2}?${NAME_WORD}\\s+(?:${PROJECT_KINDS}))\\b`, 'gi'),
+    group: 1,
+  },
+  { type: 'project', regex: /\b(?:project|codename)\s+([A-Z][\w-]*)/g, group: 1 },
+  // Calls, file names, camelCase, PascalCase, snake_case
+  { type: 'identifier', regex: /(?<![\w.])[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*\(\)/g },
+  { type: 'identifier', regex: /\b[\w-]+\.(?:tsx?|jsx?|mjs|cjs|py|go|rs|java|rb|json|ya?ml|toml|sql|sh)\b/g },
+  { type: 'identifier', regex: /\b[a-z][a-z0-9]*(?:[A-Z][a-z0-9]*)+\b/g },
+  { type: 'identifier', regex: /\b[A-Z][a-z0-9]+(?:[A-Z][a-z0-9]*)+\b/g },
+  { type: 'identifier', regex: /\b[A-Za-z][A-Za-z0-9]*(?:_[A-Za-z0-9]+)+\b/g },
+];
+
+/**
+ * Regex heuristics: precise for URLs, repos, versions, dates and code
+ * identifiers; people and projects only where the wording gives them away
+ * ("asked Dana", "my manager Sam", "the billing service").
+ */
+export class LocalEntityExtractor implements EntityExtractor {
+  readonly name = 'local';
+
+  async extract(text: string): Promise<EntityMention[]> {
+    return extractEntities(text);
+  }
+}
+
+/** LocalEntityExtractor's mentions, in the order they appear (one per entity) */
+export function extractEntities(text: string): EntityMention[] {
+  let masked = text;
+  const found: Array<EntityMention & { at: number }> = [];
+  const seen = new Set<string>();
+  const add = (name: string, type: EntityType, at: number) => {
+    const key = name && entityKey(name);
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+    found.push({ name, type, at });
+  };
+
+  for (const { type, regex, group } of PATTERNS) {
+    for (const match of masked.matchAll(regex)) {
+      const raw = group ? match[group] : match[0];
+      const at = match.index! + (group ? match[0].indexOf(raw) : 0);
+      masked = masked.slice(0, at) + ' '.repeat(raw.length) + masked.slice(at + raw.length);
+
+      add(cleanName(raw, type), type, at);
+      // A repo host's URL also names the repo
+      const repo = type === 'url' ? raw.match(REPO_URL) : null;
+      if (repo) add(cleanName(repo[1], 'repo'), 'repo', at);
+    }
+  }
+  return found.sort((a, b) => a.at - b.at).map(({ name, type }) => ({ name, type }));
+}
+
+/** A match as an entity name, or '' if it turns out not to be one */
+function cleanName(raw: string, type: EntityType): string {
+  if (type === 'person') {
+    // "Alice Monday" -> "Alice"; "Yesterday" -> ''
+    const words = raw.split(/\s+/);
+    const start = words.findIndex(w => !NOT_NAMES.has(w));
+    if (start === -1) return '';
+    const end = words.findIndex((w, i) => i > start && NOT_NAMES.has(w));
+    return words.slice(start, end === -1 ? undefined : end).join(' ');
+  }
+  if (type === 'project') {
+    const words = raw.split(/\s+/);
+    while (words.length > 1 && NOT_PROJECT_NAMES.test(words[0])) words.shift();
+    return words.length > 1 || !new RegExp(`^(?:${PROJECT_KINDS})$`, 'i').test(words[0]) ? words.join(' ') : '';
+  }
+  if (type === 'version') {
+    // "In 2.1.0" -> "2.1.0"
+    const [first, ...rest] = raw.split(/\s+/);
+    return rest.length > 0 && NOT_PRODUCTS.test(first) ? rest.join(' ') : raw;
+  }
+  if (type === 'repo') return raw.replace(/\.git$/, '');
+  return raw;
+}
+
+/**
+ * `mentions` plus the configured names and aliases (see
+ * EntityConfig.aliases) that `text` contains but the extractor missed,
+ * as projects. Case and separators don't matter: "billing service" is
+ * found as "billing-service" and "BillingService".
+ */
+export function withKnownNames(mentions: EntityMention[], text: string, aliases: Record<string, string[]>): EntityMention[] {
+  const canonical = new Map<string, string>();
+  for (const [name, others] of Object.entries(aliases)) {
+    for (const n of [name, ...others]) canonical.set(entityKey(n), entityKey(name));
+  }
+  const found = new Set(mentions.map(m => canonical.get(entityKey(m.name)) ?? entityKey(m.name)));
+
+  const result = [...mentions];
+  for (const [name, others] of Object.entries(aliases)) {
+    if (found.has(entityKey(name))) continue;
+    for (const n of [name, ...others]) {
+      const words = entityKey(n).split(' ').map(w => w.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'));
+      const match = text.match(new RegExp(`(?<![\\w-])${words.join('[\\s_-]*')}(?![\\w-])`, 'i'));
+      if (match) {
+        result.push({ name: match[0], type: 'project' });
+        found.add(entityKey(name));
+        break;
+      }
+    }
+  }
+  return result;
+}
+
+// =============================================================================
+// LLM Extractor
+// =============================================================================
+
+/** Longest memory text shown to the LLM */
+const LLM_TEXT_CHARS = 4000;
+
+export class LLMEntityExtractor implements EntityExtractor {
+  readonly name = 'llm';
+  private llm: LLM;
+
+  constructor(llm: LLM) {
+    this.llm = llm;
+  }
+
+  async extract(text: string): Promise<EntityMention[]> {
+    const shown = text.length > LLM_TEXT_CHARS ? `${text.slice(0, LLM_TEXT_CHARS)}…` : text;
+    const response = await this.llm.generate(
+      `Text:\n${shown}\n\nList the entities this text mentions: people, projects (services, apps, products), repos, URLs, versions, dates and code identifiers, each named as written in the text.\n\nReply with a JSON array of {"name": string, "type": ${ENTITY_TYPES.map(t => `"${t}"`).join(' | ')}} objects, or [] if there are none.`,
+      'You are an entity extractor. Output only the JSON array, nothing else.',
+    );
+    return parseEntities(response);
+  }
+}
+
+/**
+ * Mentions from an LLM reply (one per entity; items with an unknown type or
+ * no name are skipped). Throws unless the reply holds a JSON array.
+ */
+export function parseEntities(response: string): EntityMention[] {
+  const match = response.match(/\[[\s\S]*\]/);
+  let items: unknown;
+  try {
+    items = match ? JSON.parse(match[0]) : null;
+  } catch {
+    items = null;
+  }
+  if (!Array.isArray(items)) {
+    throw new Error(`LLM entity extractor expected a JSON array of entities, got: ${response.slice(0, 200)}`);
+  }
+
+  const seen = new Set<string>();
+  const mentions: EntityMention[] = [];
+  for (const item of items) {
+    const name = typeof item?.name === 'string' ? item.name.trim() : '';
+    const key = entityKey(name);
+    if (!key || !isEntityType(item.type) || seen.has(key)) continue;
+    seen.add(key);
+    mentions.push({ name, type: item.type });
+  }
+  return mentions;
+}
+
+// =============================================================================
+// Index
+// =============================================================================
+
+/** Every entity among a set of memories, looked up by name or alias */
+export class EntityIndex {
+  private byId = new Map<string, Entity>();
+  /** Normalized alias -> entity id */
+  private aliasOf = new Map<string, string>();
+
+  /** `aliases`: other names by entity name (see EntityConfig.aliases) */
+  constructor(memories: Iterable<Memory>, aliases: Record<string, string[]> = {}) {
+    const configured = new Map<string, { name: string; aliases: string[] }>();
+    for (const [name, others] of Object.entries(aliases)) {
+      const id = entityKey(name);
+      configured.set(id, { name, aliases: others });
+      for (const alias of others) this.aliasOf.set(entityKey(alias), id);
+    }
+
+    const spellings = new Map<string, Map<string, number>>();
+    const types = new Map<string, Map<EntityType, number>>();
+    for (const m of memories) {
+      for (const mention of m.entities ?? []) {
+        const id = this.resolve(mention.name);
+        if (!id) continue;
+
+        let entity = this.byId.get(id);
+        if (!entity) {
+          entity = { id, name: mention.name, type: mention.type, aliases: [], mentions: 0, memoryIds: [], firstSeen: m.createdAt, lastSeen: m.createdAt };
+          this.byId.set(id, entity);
+        }
+        if (entity.memoryIds[entity.memoryIds.length - 1] !== m.id) {
+          entity.memoryIds.push(m.id);
+          entity.mentions++;
+        }
+        if (m.createdAt < entity.firstSeen) entity.firstSeen = m.createdAt;
+        if (m.createdAt > entity.lastSeen) entity.lastSeen = m.createdAt;
+        count(spellings, id, mention.name);
+        count(types, id, mention.type);
+      }
+    }
+
+    // Name: the configured one, else the most frequent spelling (first seen on ties)
+    for (const entity of this.byId.values()) {
+      const seen = [...spellings.get(entity.id)!];
+      const config = configured.get(entity.id);
+      entity.name = config?.name ?? seen.reduce((a, b) => (b[1] > a[1] ? b : a))[0];
+      entity.type = [...types.get(entity.id)!].reduce((a, b) => (b[1] > a[1] ? b : a))[0];
+      entity.aliases = [...new Set([...seen.map(([s]) => s), ...(config?.aliases ?? [])])].filter(s => s !== entity.name);
+    }
+  }
+
+  /** Most mentioned first, then by name */
+  all(): Entity[] {
+    return [...this.byId.values()].sort((a, b) => b.mentions - a.mentions || a.name.localeCompare(b.name));
+  }
+
+  /** The entity a name or alias refers to */
+  get(name: string): Entity | undefined {
+    const id = this.resolve(name);
+    return id ? this.byId.get(id) : undefined;
+  }
+
+  private resolve(name: string): string {
+    const key = entityKey(name);
+    return this.aliasOf.get(key) ?? key;
+  }
+}
+
+function count<T>(counts: Map<string, Map<T, number>>, id: string, value: T): void {
+  let byValue = counts.get(id);
+  if (!byValue) counts.set(id, byValue = new Map());
+  byValue.set(value, (byValue.get(value) ?? 0) + 1);
+}
+
+/**
+ * The mentions of several memories as one list (one per entity), or
+ * undefined if any of them hasn't been extracted yet.
+ */
+export function mergeMentions(lists: Array<EntityMention[] | undefined>): EntityMention[] | undefined {
+  const merged: EntityMention[] = [];
+  const seen = new Set<string>();
+  for (const list of lists) {
+    if (!list) return undefined;
+    for (const mention of list) {
+      const key = entityKey(mention.name);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      merged.push(mention);
+    }
+  }
+  return merged;
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+export function createEntityExtractor(config: EntityConfig, llm: LLM | null): EntityExtractor {
+  const extractor = config.extractor ?? 'local';
+  if (typeof extractor === 'object') return extractor;
+
+  if (extractor === 'local') return new LocalEntityExtractor();
+
+  if (extractor === 'llm') {
+    if (!llm) throw new Error('LLM entity extractor requires an llm config');
+    return new LLMEntityExtractor(llm);
+  }
+
+  throw new Error(`Unknown entity extractor: ${extractor}`);
+}
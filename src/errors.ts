@@ -0,0 +1,86 @@
+/**
+ * Engram Trace — Error Types
+ *
+ * Typed errors for failures the caller is expected to handle
+ * (as opposed to programming errors, which stay plain `Error`s).
+ */
+
+import type { RecoveryReport } from './types.js';
+
+// =============================================================================
+// Base
+// =============================================================================
+
+export class EngramTraceError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'EngramTraceError';
+  }
+}
+
+// =============================================================================
+// Encryption
+// =============================================================================
+
+/**
+ * Thrown when an encrypted file cannot be opened: wrong passphrase/key,
+ * missing encryption config, or tampered ciphertext.
+ */
+export class EncryptionError extends EngramTraceError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'EncryptionError';
+  }
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+/**
+ * Thrown by init() when the file is corrupt/truncated and no backup could be
+ * restored. The report lists every file that was tried.
+ */
+export class CorruptFileError extends EngramTraceError {
+  readonly report: RecoveryReport;
+
+  constructor(message: string, report: RecoveryReport, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'CorruptFileError';
+    this.report = report;
+  }
+}
+
+/**
+ * Thrown when another process holds the file lock for longer than
+ * `concurrency.lockTimeoutMs`.
+ */
+export class LockTimeoutError extends EngramTraceError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'LockTimeoutError';
+  }
+}
+
+// =============================================================================
+// Embeddings
+// =============================================================================
+
+/**
+ * Thrown by init() when the file was embedded with a different model than
+ * the configured embedder (see `onEmbedderMismatch` and reembed()).
+ */
+export class EmbedderMismatchError extends EngramTraceError {
+  readonly fileModel: string;
+  readonly embedderModel: string;
+
+  constructor(fileModel: string, embedderModel: string) {
+    super(
+      `Memories were embedded with "${fileModel}" but the embedder is "${embedderModel}". ` +
+      `Reopen with onEmbedderMismatch: 'reembed' to migrate, or 'warn' to load anyway and call reembed() later.`,
+    );
+    this.name = 'EmbedderMismatchError';
+    this.fileModel = fileModel;
+    this.embedderModel = embedderModel;
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Engram Trace — Memory Filters
+ *
+ * Compiles a MemoryFilter into a predicate. Filters are checked when
+ * compiled, so a typo in a field name fails loudly instead of silently
+ * matching everything.
+ */
+import type { Memory, MemoryFilter, NumberRange, DateRange, ValueCondition, TagCondition } from './types.js';
+import { toDate } from './temporal.js';
+
+const DAY_MS = 86_400_000;
+
+const FIELDS = new Set(['and', 'or', 'not', 'ids', 'tags', 'source', 'tier', 'importance', 'accessCount', 'createdAt', 'lastAccessed', 'metadata']);
+const RANGE_KEYS = new Set(['gt', 'gte', 'lt', 'lte']);
+const DATE_KEYS = new Set(['since', 'until', 'olderThanDays', 'newerThanDays']);
+const TAG_KEYS = new Set(['any', 'all', 'none']);
+const VALUE_KEYS = new Set(['eq', 'ne', 'in', 'gt', 'gte', 'lt', 'lte', 'exists']);
+
+type Predicate = (m: Memory) => boolean;
+
+/**
+ * A predicate for `filter`. Relative dates (`olderThanDays`, ...) are
+ * measured from `now`.
+ */
+export function compileFilter(filter: MemoryFilter, now: number = Date.now()): Predicate {
+  if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+    throw new Error(`Filter must be an object, got ${JSON.stringify(filter)}`);
+  }
+  checkKeys(filter, FIELDS, 'filter field');
+
+  const tests: Predicate[] = [];
+
+  if (filter.and) {
+    const parts = filter.and.map(f => compileFilter(f, now));
+    tests.push(m => parts.every(p => p(m)));
+  }
+  if (filter.or) {
+    const parts = filter.or.map(f => compileFilter(f, now));
+    tests.push(m => parts.some(p => p(m)));
+  }
+  if (filter.not) {
+    const inner = compileFilter(filter.not, now);
+    tests.push(m => !inner(m));
+  }
+
+  if (filter.ids) {
+    const ids = new Set(filter.ids);
+    tests.push(m => ids.has(m.id));
+  }
+  if (filter.tags !== undefined) tests.push(tagTest(filter.tags));
+  if (filter.source !== undefined) {
+    const sources = new Set(Array.isArray(filter.source) ? filter.source : [filter.source]);
+    tests.push(m => m.source !== undefined && sources.has(m.source));
+  }
+  if (filter.tier !== undefined) {
+    const tiers = new Set<string>(Array.isArray(filter.tier) ? filter.tier : [filter.tier]);
+    tests.push(m => tiers.has(m.tier));
+  }
+  if (filter.importance) {
+    const inRange = rangeTest(filter.importance, 'importance');
+    tests.push(m => inRange(m.importance));
+  }
+  if (filter.accessCount) {
+    const inRange = rangeTest(filter.accessCount, 'accessCount');
+    tests.push(m => inRange(m.accessCount));
+  }
+  if (filter.createdAt) {
+    const inRange = dateTest(filter.createdAt, 'createdAt', now);
+    tests.push(m => inRange(m.createdAt));
+  }
+  if (filter.lastAccessed) {
+    const inRange = dateTest(filter.lastAccessed, 'lastAccessed', now);
+    tests.push(m => inRange(m.lastAccessed));
+  }
+  if (filter.metadata) {
+    for (const [key, condition] of Object.entries(filter.metadata)) {
+      const test = valueTest(condition, `metadata.${key}`);
+      const path = key.split('.');
+      tests.push(m => test(lookup(m.metadata, path)));
+    }
+  }
+
+  return m => tests.every(t => t(m));
+}
+
+/**
+ * True if `filter` sets no condition, so it matches every memory: `{}`,
+ * fields that are undefined or hold a condition that is itself empty (like
+ * `importance: {}` or `createdAt: { olderThanDays: undefined }`), or
+ * `and`/`or` of such filters.
+ */
+export function matchesEverything(filter: MemoryFilter): boolean {
+  return Object.entries(filter).every(([key, value]) => {
+    if (value === undefined) return true;
+    switch (key) {
+      case 'and': return (value as MemoryFilter[]).every(matchesEverything);
+      case 'or': return (value as MemoryFilter[]).some(matchesEverything);
+      case 'tags': return isCondition(value) && unset(value, ['all', 'none']);
+      case 'importance':
+      case 'accessCount':
+      case 'createdAt':
+      case 'lastAccessed': return unset(value);
+      // `eq`/`ne` test even when undefined (`eq: undefined` = key missing)
+      case 'metadata': return Object.values(value as object).every(c => isCondition(c) && !('eq' in c) && !('ne' in c) && unset(c));
+      default: return false;
+    }
+  });
+}
+
+/** Whether `memory` matches `filter` (compile once to test many) */
+export function matchesFilter(memory: Memory, filter: MemoryFilter): boolean {
+  return compileFilter(filter)(memory);
+}
+
+// =============================================================================
+// Conditions
+// =============================================================================
+
+function tagTest(tags: string | string[] | TagCondition): Predicate {
+  if (typeof tags === 'string') return m => m.tags.includes(tags);
+  if (Array.isArray(tags)) return m => tags.some(t => m.tags.includes(t));
+
+  checkKeys(tags, TAG_KEYS, 'tags condition');
+  return m =>
+    (!tags.any || tags.any.some(t => m.tags.includes(t))) &&
+    (!tags.all || tags.all.every(t => m.tags.includes(t))) &&
+    (!tags.none || !tags.none.some(t => m.tags.includes(t)));
+}
+
+function rangeTest(range: NumberRange, field: string): (value: number) => boolean {
+  checkKeys(range, RANGE_KEYS, `${field} condition`);
+  return value =>
+    (range.gt === undefined || value > range.gt) &&
+    (range.gte === undefined || value >= range.gte) &&
+    (range.lt === undefined || value < range.lt) &&
+    (range.lte === undefined || value <= range.lte);
+}
+
+function dateTest(range: DateRange, field: string, now: number): (timestamp: string) => boolean {
+  checkKeys(range, DATE_KEYS, `${field} condition`);
+
+  // Everything becomes a half-open [from, to) window
+  let from = -Infinity;
+  let to = Infinity;
+  if (range.since !== undefined) from = Math.max(from, toDate(range.since, `${field}.since`).getTime());
+  if (range.until !== undefined) to = Math.min(to, toDate(range.until, `${field}.until`).getTime());
+  if (range.newerThanDays !== undefined) from = Math.max(from, now - range.newerThanDays * DAY_MS);
+  if (range.olderThanDays !== undefined) to = Math.min(to, now - range.olderThanDays * DAY_MS);
+
+  return timestamp => {
+    const t = Date.parse(timestamp);
+    return t >= from && t < to;
+  };
+}
+
+function valueTest(
+  condition: ValueCondition | string | number | boolean | null | Array<string | number | boolean>,
+  field: string,
+): (value: unknown) => boolean {
+  if (condition === null || typeof condition !== 'object') return value => value === condition;
+  if (Array.isArray(condition)) return value => condition.includes(value as string);
+
+  checkKeys(condition, VALUE_KEYS, `${field} condition`);
+  const { eq, ne, in: among, gt, gte, lt, lte, exists } = condition;
+  return value =>
+    (exists === undefined || (value !== undefined) === exists) &&
+    (!('eq' in condition) || equal(value, eq)) &&
+    (!('ne' in condition) || !equal(value, ne)) &&
+    (among === undefined || among.some(v => equal(value, v))) &&
+    (gt === undefined || compare(value, gt) > 0) &&
+    (gte === undefined || compare(value, gte) >= 0) &&
+    (lt === undefined || compare(value, lt) < 0) &&
+    (lte === undefined || compare(value, lte) <= 0);
+}
+
+// =============================================================================
+// Internal
+// =============================================================================
+
+function checkKeys(object: object, allowed: Set<string>, what: string): void {
+  for (const key of Object.keys(object)) {
+    if (!allowed.has(key)) throw new Error(`Unknown ${what} "${key}" (expected one of: ${[...allowed].join(', ')})`);
+  }
+}
+
+function isCondition(value: unknown): value is object {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** True if every key of `condition` is undefined, or an empty list for `emptyLists` (which then test nothing) */
+function unset(condition: object, emptyLists: string[] = []): boolean {
+  return Object.entries(condition).every(([key, value]) =>
+    value === undefined || (emptyLists.includes(key) && Array.isArray(value) && value.length === 0));
+}
+
+function lookup(metadata: Record<string, unknown> | undefined, path: string[]): unknown {
+  if (metadata && path.length > 1 && path.join('.') in metadata) return metadata[path.join('.')];
+  let value: unknown = metadata;
+  for (const key of path) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function equal(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** NaN (so every comparison is false) unless both are numbers or both strings */
+function compare(value: unknown, bound: number | string): number {
+  if (typeof value === 'number' && typeof bound === 'number') return value - bound;
+  if (typeof value === 'string' && typeof bound === 'string') return value < bound ? -1 : value > bound ? 1 : 0;
+  return NaN;
+}
@@ -0,0 +1,566 @@
+/**
+ * Engram Trace — HNSW Index
+ *
+ * Approximate nearest-neighbour search over memory embeddings, so recall,
+ * dedup and clustering stay fast past a few thousand memories (Malkov &
+ * Yashunin, "Hierarchical Navigable Small World graphs", 2016).
+ *
+ * The index holds references to the memories' own embeddings rather than
+ * copies, and its persisted form is the graph only (ids + links): vectors
+ * are supplied again from the loaded memories, so an index file next to an
+ * encrypted brain leaks no embeddings.
+ *
+ * Removal is a soft delete: the node keeps routing searches but is never
+ * returned. Once deleted nodes outnumber live ones the graph is compacted,
+ * reconnecting each node through its deleted neighbours.
+ */
+import { join } from 'node:path';
+
+import type { TraceConfig, VectorIndex } from './types.js';
+
+/** `format` marker of the persisted index header */
+const INDEX_FORMAT = 'engram-trace-hnsw';
+
+export interface HnswOptions {
+  /** Links per node per layer (twice that on layer 0). Default: 16 */
+  m?: number;
+
+  /** Candidate list size while inserting. Default: 100 */
+  efConstruction?: number;
+
+  /** Candidate list size while searching (raised to k if smaller). Default: 64 */
+  efSearch?: number;
+
+  /** Seed for level assignment, so builds are reproducible. Default: 42 */
+  seed?: number;
+}
+
+interface Candidate {
+  node: number;
+  sim: number;
+}
+
+// =============================================================================
+// HNSW Index
+// =============================================================================
+
+export class HnswIndex implements VectorIndex {
+  readonly dims: number;
+  readonly m: number;
+  readonly efConstruction: number;
+  efSearch: number;
+  /** Bumped on every add/remove, so owners can persist only when changed */
+  version = 0;
+
+  private m0: number;
+  private levelMult: number;
+  private random: () => number;
+
+  private ids: string[] = [];
+  private vectors: Float32Array[] = [];
+  private invNorms: number[] = [];
+  private levels: number[] = [];
+  /** links[node][level] = neighbour nodes */
+  private links: number[][][] = [];
+  private deleted: boolean[] = [];
+  private deletedCount = 0;
+  private nodeOf: Map<string, number> = new Map();
+  private entry = -1;
+  private maxLevel = -1;
+
+  private visited = new Uint32Array(0);
+  private visitStamp = 0;
+
+  constructor(dims: number, options: HnswOptions = {}) {
+    this.dims = dims;
+    this.m = options.m ?? 16;
+    this.m0 = this.m * 2;
+    this.efConstruction = options.efConstruction ?? 100;
+    this.efSearch = options.efSearch ?? 64;
+    this.levelMult = 1 / Math.log(this.m);
+    this.random = mulberry32(options.seed ?? 42);
+  }
+
+  /** Live (not deleted) entries */
+  get size(): number {
+    return this.nodeOf.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodeOf.has(id);
+  }
+
+  /** Ids of the live entries */
+  keys(): IterableIterator<string> {
+    return this.nodeOf.keys();
+  }
+
+  /** The embedding indexed under `id` (the same array that was added) */
+  vectorOf(id: string): Float32Array | undefined {
+    const node = this.nodeOf.get(id);
+    return node === undefined ? undefined : this.vectors[node];
+  }
+
+  /** Add or replace the vector for `id`. */
+  add(id: string, vector: Float32Array): void {
+    if (vector.length !== this.dims) {
+      throw new Error(`Vector has ${vector.length} dims, index has ${this.dims}`);
+    }
+    if (this.nodeOf.has(id)) this.remove(id);
+
+    const node = this.ids.length;
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMult);
+    this.ids.push(id);
+    this.vectors.push(vector);
+    this.invNorms.push(inverseNorm(vector));
+    this.levels.push(level);
+    this.links.push(Array.from({ length: level + 1 }, () => []));
+    this.deleted.push(false);
+    this.nodeOf.set(id, node);
+    this.version++;
+
+    if (this.entry < 0) {
+      this.entry = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    const inv = this.invNorms[node];
+    let ep = this.entry;
+    let epSim = this.similarity(ep, vector, inv);
+    for (let l = this.maxLevel; l > level; l--) {
+      [ep, epSim] = this.greedy(vector, inv, ep, epSim, l);
+    }
+
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(vector, inv, ep, epSim, this.efConstruction, l);
+      const neighbours = this.selectNeighbours(candidates, this.m);
+      this.links[node][l] = neighbours;
+
+      const maxLinks = l === 0 ? this.m0 : this.m;
+      for (const n of neighbours) {
+        const list = this.links[n][l];
+        list.push(node);
+        if (list.length > maxLinks) this.links[n][l] = this.shrink(n, list, maxLinks);
+      }
+      ep = candidates[0].node;
+      epSim = candidates[0].sim;
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entry = node;
+    }
+  }
+
+  remove(id: string): boolean {
+    const node = this.nodeOf.get(id);
+    if (node === undefined) return false;
+
+    this.deleted[node] = true;
+    this.deletedCount++;
+    this.nodeOf.delete(id);
+    this.version++;
+
+    if (this.nodeOf.size === 0) this.clear();
+    else if (this.deletedCount > this.nodeOf.size) this.compact();
+    return true;
+  }
+
+  /**
+   * The k live entries most similar (cosine) to `vector`, best first.
+   */
+  search(vector: Float32Array, k: number, ef?: number): Array<{ id: string; score: number }> {
+    if (this.entry < 0 || k <= 0 || vector.length !== this.dims) return [];
+
+    const inv = inverseNorm(vector);
+    let ep = this.entry;
+    let epSim = this.similarity(ep, vector, inv);
+    for (let l = this.maxLevel; l > 0; l--) {
+      [ep, epSim] = this.greedy(vector, inv, ep, epSim, l);
+    }
+
+    const found = this.searchLayer(vector, inv, ep, epSim, Math.max(ef ?? this.efSearch, k), 0);
+    const results: Array<{ id: string; score: number }> = [];
+    for (const c of found) {
+      if (this.deleted[c.node]) continue;
+      results.push({ id: this.ids[c.node], score: c.sim });
+      if (results.length === k) break;
+    }
+    return results;
+  }
+
+  // ===========================================================================
+  // Persistence
+  // ===========================================================================
+
+  /**
+   * The graph as bytes: a JSON header line (ids, levels, parameters and the
+   * caller's `meta`), then every node's links as int32s. Vectors are not
+   * included; deleted nodes are compacted away first.
+   */
+  serialize(meta: Record<string, unknown> = {}): Buffer {
+    if (this.deletedCount > 0) this.compact();
+
+    const header = JSON.stringify({
+      format: INDEX_FORMAT,
+      version: 1,
+      dims: this.dims,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      entry: this.entry,
+      maxLevel: this.maxLevel,
+      ids: this.ids,
+      levels: this.levels,
+      meta,
+    });
+
+    const words: number[] = [];
+    for (const nodeLinks of this.links) {
+      for (const list of nodeLinks) words.push(list.length, ...list);
+    }
+    return Buffer.concat([Buffer.from(header + '\n', 'utf8'), Buffer.from(new Int32Array(words).buffer)]);
+  }
+
+  /**
+   * Rebuild an index from serialize() output. `vectorOf` supplies each
+   * entry's embedding; entries it doesn't know (forgotten since the index
+   * was written) are loaded as deleted.
+   */
+  static deserialize(
+    data: Buffer,
+    vectorOf: (id: string) => Float32Array | undefined,
+    options: Pick<HnswOptions, 'efSearch' | 'seed'> = {},
+  ): { index: HnswIndex; meta: Record<string, unknown> } {
+    const newline = data.indexOf(0x0a);
+    if (newline < 0) throw new Error('Not an HNSW index file');
+    const header = JSON.parse(data.subarray(0, newline).toString('utf8'));
+    if (header?.format !== INDEX_FORMAT || header.version !== 1) throw new Error('Not an HNSW index file');
+
+    const index = new HnswIndex(header.dims, { ...options, m: header.m, efConstruction: header.efConstruction });
+    const body = data.subarray(newline + 1);
+    const words = new Int32Array(body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength));
+    const missing = new Float32Array(header.dims);
+    const count = header.ids.length;
+
+    let pos = 0;
+    for (let node = 0; node < count; node++) {
+      const id: string = header.ids[node];
+      const level: number = header.levels[node];
+      const vector = vectorOf(id);
+      const usable = vector !== undefined && vector.length === header.dims;
+
+      index.ids.push(id);
+      index.vectors.push(usable ? vector : missing);
+      index.invNorms.push(usable ? inverseNorm(vector) : 0);
+      index.levels.push(level);
+      index.deleted.push(!usable);
+      if (usable) index.nodeOf.set(id, node);
+      else index.deletedCount++;
+
+      const nodeLinks: number[][] = [];
+      for (let l = 0; l <= level; l++) {
+        const n = words[pos++];
+        if (n === undefined || pos + n > words.length) throw new Error('Truncated HNSW index file');
+        nodeLinks.push(Array.from(words.subarray(pos, pos + n)));
+        pos += n;
+      }
+      index.links.push(nodeLinks);
+    }
+
+    index.entry = header.entry;
+    index.maxLevel = header.maxLevel;
+    if (index.nodeOf.size === 0) index.clear();
+    return { index, meta: header.meta ?? {} };
+  }
+
+  // ===========================================================================
+  // Graph
+  // ===========================================================================
+
+  /** Hill-climb on one layer towards `vector`. */
+  private greedy(vector: Float32Array, inv: number, ep: number, epSim: number, level: number): [number, number] {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const n of this.links[ep][level] ?? []) {
+        const sim = this.similarity(n, vector, inv);
+        if (sim > epSim) {
+          ep = n;
+          epSim = sim;
+          changed = true;
+        }
+      }
+    }
+    return [ep, epSim];
+  }
+
+  /** Beam search on one layer; returns up to `ef` nodes, most similar first. */
+  private searchLayer(vector: Float32Array, inv: number, ep: number, epSim: number, ef: number, level: number): Candidate[] {
+    const stamp = this.nextVisitStamp();
+    this.visited[ep] = stamp;
+
+    const candidates = new Heap(1);   // best first
+    const results = new Heap(-1);     // worst first
+    candidates.push(ep, epSim);
+    results.push(ep, epSim);
+
+    while (candidates.length > 0) {
+      const current = candidates.peekNode();
+      const currentSim = candidates.peekSim();
+      if (results.length >= ef && currentSim < results.peekSim()) break;
+      candidates.pop();
+
+      for (const n of this.links[current][level] ?? []) {
+        if (this.visited[n] === stamp) continue;
+        this.visited[n] = stamp;
+
+        const sim = this.similarity(n, vector, inv);
+        if (results.length < ef || sim > results.peekSim()) {
+          candidates.push(n, sim);
+          results.push(n, sim);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+
+    const out: Candidate[] = [];
+    while (results.length > 0) {
+      out.push({ node: results.peekNode(), sim: results.peekSim() });
+      results.pop();
+    }
+    return out.reverse();
+  }
+
+  /**
+   * Pick up to `max` neighbours from candidates sorted by similarity,
+   * preferring ones that are not closer to an already-picked neighbour than
+   * to the target (keeps links spread out), then topping up with the rest.
+   */
+  private selectNeighbours(candidates: Candidate[], max: number): number[] {
+    const selected: number[] = [];
+    const pruned: number[] = [];
+    for (const c of candidates) {
+      if (selected.length >= max) break;
+      if (selected.some(s => this.nodeSimilarity(c.node, s) > c.sim)) pruned.push(c.node);
+      else selected.push(c.node);
+    }
+    for (const node of pruned) {
+      if (selected.length >= max) break;
+      selected.push(node);
+    }
+    return selected;
+  }
+
+  /**
+   * Cut an over-full link list down to the `max` most similar. (Cheaper than
+   * re-running the selection heuristic, and this runs on most inserts.)
+   */
+  private shrink(node: number, list: number[], max: number): number[] {
+    return list
+      .map(n => ({ node: n, sim: this.nodeSimilarity(node, n) }))
+      .sort((a, b) => b.sim - a.sim)
+      .slice(0, max)
+      .map(c => c.node);
+  }
+
+  /**
+   * Drop deleted nodes, linking each live node to its deleted neighbours'
+   * live neighbours so no region of the graph is cut off.
+   */
+  private compact(): void {
+    const remap = new Int32Array(this.ids.length).fill(-1);
+    let next = 0;
+    for (let node = 0; node < this.ids.length; node++) {
+      if (!this.deleted[node]) remap[node] = next++;
+    }
+
+    const links: number[][][] = [];
+    for (let node = 0; node < this.ids.length; node++) {
+      if (this.deleted[node]) continue;
+
+      links.push(this.links[node].map((list, level) => {
+        const reachable = new Set<number>();
+        for (const n of list) {
+          if (!this.deleted[n]) {
+            reachable.add(n);
+            continue;
+          }
+          for (const via of this.links[n][level] ?? []) {
+            if (via !== node && !this.deleted[via]) reachable.add(via);
+          }
+        }
+        const max = level === 0 ? this.m0 : this.m;
+        const kept = reachable.size > max ? this.shrink(node, [...reachable], max) : [...reachable];
+        return kept.map(n => remap[n]);
+      }));
+    }
+
+    const live = (_: unknown, node: number) => !this.deleted[node];
+    let entry = this.deleted[this.entry] ? -1 : this.entry;
+    if (entry < 0) {
+      for (let node = 0; node < this.ids.length; node++) {
+        if (!this.deleted[node] && (entry < 0 || this.levels[node] > this.levels[entry])) entry = node;
+      }
+    }
+
+    this.ids = this.ids.filter(live);
+    this.vectors = this.vectors.filter(live);
+    this.invNorms = this.invNorms.filter(live);
+    this.levels = this.levels.filter(live);
+    this.links = links;
+    this.entry = entry < 0 ? -1 : remap[entry];
+    this.maxLevel = this.entry < 0 ? -1 : this.levels[this.entry];
+    this.deleted = this.ids.map(() => false);
+    this.deletedCount = 0;
+    this.nodeOf = new Map(this.ids.map((id, node) => [id, node]));
+  }
+
+  private clear(): void {
+    this.ids = [];
+    this.vectors = [];
+    this.invNorms = [];
+    this.levels = [];
+    this.links = [];
+    this.deleted = [];
+    this.deletedCount = 0;
+    this.entry = -1;
+    this.maxLevel = -1;
+  }
+
+  private similarity(node: number, vector: Float32Array, inv: number): number {
+    return dot(this.vectors[node], vector) * this.invNorms[node] * inv;
+  }
+
+  private nodeSimilarity(a: number, b: number): number {
+    return this.similarity(a, this.vectors[b], this.invNorms[b]);
+  }
+
+  private nextVisitStamp(): number {
+    if (this.visited.length < this.ids.length) {
+      const grown = new Uint32Array(Math.max(this.ids.length, this.visited.length * 2, 1024));
+      grown.set(this.visited);
+      this.visited = grown;
+    }
+    if (++this.visitStamp === 0xffffffff) {
+      this.visited.fill(0);
+      this.visitStamp = 1;
+    }
+    return this.visitStamp;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * The index sits next to the brain: `<file>.hnsw` for the default file
+ * storage, `<dir>/index.hnsw` for sharded storage. Other adapters keep it
+ * in memory only.
+ */
+export function defaultIndexFile(config: TraceConfig): string | null {
+  const storage = config.storage;
+  if (!storage) return `${config.file}.hnsw`;
+  if ('load' in storage) return null;
+  if (storage.type === 'file') return `${config.file}.hnsw`;
+  if (storage.type === 'sharded') return join(config.file, 'index.hnsw');
+  return null;
+}
+
+/**
+ * Binary heap of (node, similarity) pairs: `order` 1 pops the most similar
+ * first, -1 the least similar.
+ */
+class Heap {
+  private nodes: number[] = [];
+  private sims: number[] = [];
+
+  constructor(private order: 1 | -1) {}
+
+  get length(): number {
+    return this.nodes.length;
+  }
+
+  peekNode(): number {
+    return this.nodes[0];
+  }
+
+  peekSim(): number {
+    return this.sims[0];
+  }
+
+  push(node: number, sim: number): void {
+    const { nodes, sims } = this;
+    let i = nodes.length;
+    nodes.push(node);
+    sims.push(sim);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(sim, sims[parent])) break;
+      nodes[i] = nodes[parent];
+      sims[i] = sims[parent];
+      i = parent;
+    }
+    nodes[i] = node;
+    sims[i] = sim;
+  }
+
+  pop(): void {
+    const { nodes, sims } = this;
+    const lastNode = nodes.pop()!;
+    const lastSim = sims.pop()!;
+    if (nodes.length === 0) return;
+
+    let i = 0;
+    const n = nodes.length;
+    while (true) {
+      const left = 2 * i + 1;
+      if (left >= n) break;
+      const right = left + 1;
+      const child = right < n && this.before(sims[right], sims[left]) ? right : left;
+      if (!this.before(sims[child], lastSim)) break;
+      nodes[i] = nodes[child];
+      sims[i] = sims[child];
+      i = child;
+    }
+    nodes[i] = lastNode;
+    sims[i] = lastSim;
+  }
+
+  private before(a: number, b: number): boolean {
+    return this.order === 1 ? a > b : a < b;
+  }
+}
+
+/** Dot product, unrolled by four: this is where nearly all the time goes. */
+function dot(a: Float32Array, b: Float32Array): number {
+  let s0 = 0, s1 = 0, s2 = 0, s3 = 0;
+  const n = a.length;
+  let i = 0;
+  for (; i + 3 < n; i += 4) {
+    s0 += a[i] * b[i];
+    s1 += a[i + 1] * b[i + 1];
+    s2 += a[i + 2] * b[i + 2];
+    s3 += a[i + 3] * b[i + 3];
+  }
+  for (; i < n; i++) s0 += a[i] * b[i];
+  return s0 + s1 + s2 + s3;
+}
+
+function inverseNorm(vector: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i++) sum += vector[i] * vector[i];
+  return sum === 0 ? 0 : 1 / Math.sqrt(sum);
+}
+
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
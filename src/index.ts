@@ -33,21 +33,124 @@ export { Classifier } from './classifier.js';
 export { Consolidator } from './consolidator.js';
 export { createEmbedder, LocalEmbedder, OllamaEmbedder, OpenAIEmbedder } from './embedder.js';
 export { createLLM, OllamaLLM, AnthropicLLM, OpenAILLM } from './llm.js';
+export { createStorage, EngramFileStorage, MemoryStorage, ShardedStorage } from './storage.js';
+export { formatDiff } from './diff.js';
+export { SnapshotStore } from './snapshots.js';
+export { HnswIndex } from './hnsw.js';
+export { Bm25Index, tokenize, keywords, fuseScores } from './lexical.js';
+export { cosineSimilarity } from './similarity.js';
+export { collapseNearDuplicates, selectMmr } from './diversity.js';
+export { parseTimePhrase, recencyFactor } from './temporal.js';
+export { compileFilter, matchesFilter, matchesEverything } from './filter.js';
+export { createRanker, DefaultRanker, WeightedRanker } from './ranker.js';
+export { packContext, renderContext, estimateTokens } from './context.js';
+export { turnQueries, combinedTurnQuery, fuseWeightedResults } from './conversation.js';
+export { createReranker, CrossEncoderReranker, LLMReranker } from './reranker.js';
+export { LinkGraph, LINK_TYPES } from './links.js';
+export { createEntityExtractor, LocalEntityExtractor, LLMEntityExtractor, EntityIndex, extractEntities, entityKey, ENTITY_TYPES } from './entities.js';
+export {
+  EngramTraceError,
+  EncryptionError,
+  CorruptFileError,
+  LockTimeoutError,
+  EmbedderMismatchError,
+} from './errors.js';
+export type { SecurityDescriptor } from './crypto.js';
+export type { FileStorageOptions, ShardedStorageOptions } from './storage.js';
+export type { FormatDiffOptions } from './diff.js';
+export type { SnapshotStoreOptions } from './snapshots.js';
+export type { HnswOptions } from './hnsw.js';
+export type { FuseOptions } from './lexical.js';
+export type { TimeRange, ParsedTimeQuery } from './temporal.js';
+export type { SectionCandidates, PackOptions } from './context.js';
 export type {
   TraceConfig,
   EmbedderConfig,
   LLMConfig,
   AutoRememberConfig,
   ConsolidateConfig,
+  EncryptionConfig,
+  JournalConfig,
+  ConcurrencyConfig,
+  StorageConfig,
+  SnapshotConfig,
+  MountConfig,
+  IndexConfig,
+  StorageAdapter,
+  StoredBrain,
+  TraceMeta,
+  JournalRecord,
   Memory,
+  MemoryScope,
   MemoryTier,
   RecallResult,
+  ScoreExplanation,
   RecallOptions,
+  FusionMethod,
+  FusionOptions,
+  DiversityOptions,
+  RecencyOptions,
+  RecallDefaults,
+  ForgetOptions,
+  FindOptions,
+  MemoryFilter,
+  TagCondition,
+  NumberRange,
+  DateRange,
+  ValueCondition,
+  BootstrapOptions,
+  ProcessOptions,
   RememberOptions,
   TraceStats,
   BootstrapContext,
+  BootstrapSectionResult,
+  BootstrapProfile,
+  BootstrapSection,
+  MemoryType,
+  ConversationConfig,
+  ConversationTurn,
+  TurnRecallOptions,
+  Reranker,
+  RerankConfig,
+  LinkType,
+  MemoryLink,
+  LinkEdge,
+  LinkQuery,
+  ExpandOptions,
+  EntityConfig,
+  EntityExtractor,
+  EntityType,
+  EntityMention,
+  Entity,
+  EntityQuery,
+  TokenCounter,
+  ContextFormat,
+  ContextSection,
+  BuildContextOptions,
+  ContextItem,
+  BuiltContext,
   ConsolidationReport,
+  RecoveryReport,
+  ReembedOptions,
+  ReembedProgress,
+  ReembedReport,
+  ExportFormat,
+  ExportOptions,
+  ImportOptions,
+  ImportReport,
+  MergePolicy,
+  MergeOptions,
+  MergeReport,
+  DiffOptions,
+  BrainDiff,
+  MemoryChange,
+  VectorIndex,
+  SnapshotInfo,
   Embedder,
   LLM,
+  Ranker,
+  RankingSignals,
+  RankedScore,
+  RankerWeights,
 } from './types.js';
 export { MemoryTier as Tier } from './types.js';
@@ -0,0 +1,307 @@
+/**
+ * Engram Trace — Import / Export Formats
+ *
+ * Text formats for moving memories between brains and seeding a brain
+ * from existing notes:
+ *   - JSONL — lossless: every field, embeddings as base64 float32
+ *   - Markdown — headings become tags, bullets become memories (MEMORY.md)
+ *   - CSV — one row per memory with a header row; embedding column optional,
+ *     with the model that made it
+ */
+import type { Memory, MemoryTier, ExportFormat } from './types.js';
+import { MemoryTier as Tier } from './types.js';
+import { encodeEmbedding, decodeEmbedding } from './crypto.js';
+
+/** `format` marker of the JSONL header line */
+const JSONL_FORMAT = 'engram-trace-export';
+
+const CSV_COLUMNS = [
+  'id', 'content', 'tags', 'importance', 'tier', 'createdAt', 'lastAccessed',
+  'accessCount', 'source', 'metadata', 'scope', 'links', 'entities', 'embedding', 'embeddingModel',
+] as const;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A memory as read from an export: only `content` is guaranteed */
+export type ParsedMemory = Partial<Memory> & { content: string };
+
+export interface ParsedExport {
+  memories: ParsedMemory[];
+  /** Model that produced the embeddings, if the format records it */
+  embedder: { model: string; dims: number } | null;
+}
+
+// =============================================================================
+// Serialize
+// =============================================================================
+
+export function serializeMemories(
+  memories: Memory[],
+  format: ExportFormat,
+  embedder: { model: string; dims: number } | null = null,
+): string {
+  switch (format) {
+    case 'jsonl': return toJsonl(memories, embedder);
+    case 'markdown': return toMarkdown(memories);
+    case 'csv': return toCsv(memories, embedder);
+    default: throw new Error(`Unknown export format: ${format}`);
+  }
+}
+
+function toJsonl(memories: Memory[], embedder: { model: string; dims: number } | null): string {
+  const lines = [JSON.stringify({ format: JSONL_FORMAT, version: 1, embedder, count: memories.length })];
+  for (const m of memories) {
+    lines.push(JSON.stringify({ ...m, embedding: encodeEmbedding(m.embedding) }));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * One `##` section per primary tag (first tag), one bullet per memory.
+ * Remaining tags are appended as `#hashtags` so they survive a round trip;
+ * untagged memories come first, before any section.
+ */
+function toMarkdown(memories: Memory[]): string {
+  const sections = new Map<string, Memory[]>([['', []]]);
+  for (const m of memories) {
+    const key = m.tags[0] ?? '';
+    const list = sections.get(key);
+    if (list) list.push(m);
+    else sections.set(key, [m]);
+  }
+
+  const out: string[] = ['# Memories', ''];
+  for (const [tag, items] of sections) {
+    if (items.length === 0) continue;
+    if (tag) out.push(`## ${tag}`, '');
+    for (const m of items) {
+      const [first, ...rest] = m.content.trim().split('\n');
+      const extra = m.tags.slice(1).map(t => ` #${t.replace(/\s+/g, '-')}`).join('');
+      out.push(`- ${first}${extra}`);
+      for (const line of rest) out.push(`  ${line}`);
+    }
+    out.push('');
+  }
+  return out.join('\n');
+}
+
+function toCsv(memories: Memory[], embedder: { model: string; dims: number } | null): string {
+  const rows = [CSV_COLUMNS.join(',')];
+  for (const m of memories) {
+    const cells: Record<(typeof CSV_COLUMNS)[number], string> = {
+      id: m.id,
+      content: m.content,
+      tags: m.tags.join(';'),
+      importance: String(m.importance),
+      tier: m.tier,
+      createdAt: m.createdAt,
+      lastAccessed: m.lastAccessed,
+      accessCount: String(m.accessCount),
+      source: m.source ?? '',
+      metadata: m.metadata ? JSON.stringify(m.metadata) : '',
+      scope: m.scope ? JSON.stringify(m.scope) : '',
+      links: m.links?.length ? JSON.stringify(m.links) : '',
+      entities: m.entities ? JSON.stringify(m.entities) : '',
+      embedding: encodeEmbedding(m.embedding),
+      embeddingModel: embedder && m.embedding.length > 0 ? embedder.model : '',
+    };
+    rows.push(CSV_COLUMNS.map(c => csvCell(cells[c])).join(','));
+  }
+  return rows.join('\n') + '\n';
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// =============================================================================
+// Parse
+// =============================================================================
+
+export function parseMemories(text: string, format: ExportFormat): ParsedExport {
+  switch (format) {
+    case 'jsonl': return fromJsonl(text);
+    case 'markdown': return { memories: fromMarkdown(text), embedder: null };
+    case 'csv': return fromCsv(text);
+    default: throw new Error(`Unknown import format: ${format}`);
+  }
+}
+
+function fromJsonl(text: string): ParsedExport {
+  const memories: ParsedMemory[] = [];
+  let embedder: ParsedExport['embedder'] = null;
+
+  text.split('\n').forEach((line, i) => {
+    if (!line.trim()) return;
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid JSON on line ${i + 1}`);
+    }
+    if (record?.format === JSONL_FORMAT) {
+      embedder = record.embedder ?? null;
+      return;
+    }
+    if (typeof record?.content !== 'string') throw new Error(`Line ${i + 1} has no content`);
+
+    memories.push({
+      ...record,
+      embedding: typeof record.embedding === 'string'
+        ? decodeEmbedding(record.embedding)
+        : Array.isArray(record.embedding) ? new Float32Array(record.embedding) : undefined,
+    });
+  });
+
+  return { memories, embedder };
+}
+
+/**
+ * Headings form a tag path (`## Projects` / `### Pricing` tags a bullet with
+ * both); every bullet is a memory and indented lines continue it. Inline
+ * `#hashtags` become tags too. Text outside bullets is ignored, and a
+ * single `#` heading is taken as the document title rather than a tag.
+ */
+function fromMarkdown(text: string): ParsedMemory[] {
+  const memories: ParsedMemory[] = [];
+  const headings: string[] = [];
+  const titled = (text.match(/^#\s/gm)?.length ?? 0) === 1;
+  let current: ParsedMemory | null = null;
+
+  for (const line of text.split('\n')) {
+    const heading = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      current = null;
+      headings.length = heading[1].length - 1;
+      headings[heading[1].length - 1] = heading[2];
+      continue;
+    }
+
+    const bullet = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line);
+    if (bullet) {
+      current = { content: bullet[1], tags: headings.slice(titled ? 1 : 0).filter(Boolean).map(toTag) };
+      memories.push(current);
+      continue;
+    }
+
+    if (current && /^\s+\S/.test(line)) {
+      current.content += '\n' + line.trim();
+    } else if (!line.trim()) {
+      continue;
+    } else {
+      current = null;
+    }
+  }
+
+  // Trailing `#hashtags` on a bullet's first line are tags, not content
+  for (const m of memories) {
+    const [first, ...rest] = m.content.split('\n');
+    const trailing = /((?:\s+#[A-Za-z][\w-]*)+)\s*$/.exec(first);
+    if (!trailing) continue;
+    const hashtags = trailing[1].trim().split(/\s+/).map(t => toTag(t.slice(1)));
+    m.content = [first.slice(0, trailing.index).trim(), ...rest].join('\n');
+    m.tags = [...new Set([...(m.tags ?? []), ...hashtags])];
+  }
+
+  return memories.filter(m => m.content);
+}
+
+function toTag(heading: string): string {
+  return heading.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * The embedding model comes from the `embeddingModel` column (every row of
+ * an export has the same); sheets without one give no embedder.
+ */
+function fromCsv(text: string): ParsedExport {
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) return { memories: [], embedder: null };
+
+  const header = rows[0].map(h => h.trim());
+  if (!header.includes('content')) throw new Error('CSV needs a `content` column');
+
+  let embedder: ParsedExport['embedder'] = null;
+  const memories = rows.slice(1)
+    .filter(row => row.some(cell => cell !== ''))
+    .map(row => {
+      const get = (column: string) => {
+        const i = header.indexOf(column);
+        return i >= 0 && row[i] !== '' ? row[i] : undefined;
+      };
+      const tags = get('tags');
+      const metadata = get('metadata');
+      const scope = get('scope');
+      const links = get('links');
+      const entities = get('entities');
+      const embedding = get('embedding') ? decodeEmbedding(get('embedding')!) : undefined;
+      const model = get('embeddingModel');
+      if (model && embedding && !embedder) embedder = { model, dims: embedding.length };
+      return {
+        id: get('id'),
+        content: get('content') ?? '',
+        tags: tags ? tags.split(';').map(t => t.trim()).filter(Boolean) : undefined,
+        importance: get('importance') !== undefined ? Number(get('importance')) : undefined,
+        tier: get('tier') as MemoryTier | undefined,
+        createdAt: get('createdAt'),
+        lastAccessed: get('lastAccessed'),
+        accessCount: get('accessCount') !== undefined ? Number(get('accessCount')) : undefined,
+        source: get('source'),
+        metadata: metadata ? JSON.parse(metadata) : undefined,
+        scope: scope ? JSON.parse(scope) : undefined,
+        links: links ? JSON.parse(links) : undefined,
+        entities: entities ? JSON.parse(entities) : undefined,
+        embedding,
+      };
+    })
+    .filter(m => m.content);
+
+  return { memories, embedder };
+}
+
+/** RFC 4180: quoted cells may contain commas, newlines and doubled quotes. */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** Tiers outside the MemoryTier enum (or missing) fall back to HOT. */
+export function normalizeTier(tier: string | undefined): MemoryTier {
+  return (Object.values(Tier) as string[]).includes(tier ?? '') ? (tier as MemoryTier) : Tier.HOT;
+}
@@ -0,0 +1,239 @@
+/**
+ * Engram Trace — Write-Ahead Journal
+ *
+ * Append-only JSONL sidecar (`<file>.journal`) that makes every store,
+ * forget and recall access durable immediately, without rewriting the
+ * whole .engram file. Replayed on init(), truncated after each full save
+ * (compaction).
+ *
+ * Replaying records that were already compacted is not harmless: a stale
+ * store brings back a memory that a later consolidation merged away. So a
+ * save first appends a checkpoint carrying the generation it is about to
+ * write; if it crashes after writing the main file but before truncating,
+ * replay skips everything above a checkpoint the main file has reached.
+ */
+import { existsSync } from 'node:fs';
+import { appendFile, open, readFile, writeFile, rm, stat } from 'node:fs/promises';
+
+import type { Memory, MemoryTier, JournalRecord } from './types.js';
+import { encodeEmbedding, decodeEmbedding, type FileCipher } from './crypto.js';
+import { EncryptionError } from './errors.js';
+
+/** Additional authenticated data for sealed journal lines */
+const JOURNAL_AAD = 'engram-trace:journal';
+
+// =============================================================================
+// Journal
+// =============================================================================
+
+export class Journal {
+  readonly path: string;
+  private getCipher: () => FileCipher | null;
+  private queue: Promise<void> = Promise.resolve();
+  private count = 0;
+  /** Bytes this instance knows about (to spot other writers' appends) */
+  private bytes = 0;
+
+  constructor(path: string, getCipher: () => FileCipher | null) {
+    this.path = path;
+    this.getCipher = getCipher;
+  }
+
+  /** Lines appended (or found on replay) since the last truncate. */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Append a record. Appends are serialized so records land in call order.
+   */
+  append(record: JournalRecord): Promise<void> {
+    const line = this.encode(record) + '\n';
+    this.count++;
+    return this.enqueue(() => this.write(line));
+  }
+
+  /**
+   * Mark everything appended so far as about to be compacted into a save of
+   * `generation`. Call under the lock, right before writing the main file.
+   */
+  checkpoint(generation: number): Promise<void> {
+    return this.enqueue(async () => {
+      // Nothing to skip on replay
+      if (!existsSync(this.path) || (await stat(this.path)).size === 0) return;
+      this.count++;
+      await this.write(JSON.stringify({ checkpoint: generation }) + '\n');
+    });
+  }
+
+  /**
+   * True if someone else appended to (or truncated) the journal since this
+   * instance last read, wrote or truncated it.
+   */
+  async changed(): Promise<boolean> {
+    await this.queue;
+    const size = existsSync(this.path) ? (await stat(this.path)).size : 0;
+    return size !== this.bytes;
+  }
+
+  /**
+   * Read the records not yet in a main file of generation `compacted`.
+   * A torn line (crash mid-append) and other unreadable lines are skipped
+   * and counted.
+   */
+  async read(compacted = 0): Promise<{ records: JournalRecord[]; skipped: number }> {
+    await this.queue;
+    const raw = existsSync(this.path) ? await readFile(this.path, 'utf8') : '';
+    const lines = raw.split('\n').filter(l => l.trim());
+    const parsed: any[] = [];
+    let skipped = 0;
+
+    for (const line of lines) {
+      try {
+        parsed.push(JSON.parse(line));
+      } catch {
+        skipped++;
+      }
+    }
+
+    // Records above the last checkpoint the main file reached are in it already
+    let start = 0;
+    parsed.forEach((p, i) => {
+      if (typeof p.checkpoint === 'number' && p.checkpoint <= compacted) start = i + 1;
+    });
+
+    const records: JournalRecord[] = [];
+    for (const p of parsed.slice(start)) {
+      if (typeof p.checkpoint === 'number') continue;
+      // Decryption errors propagate: a wrong key must not silently drop writes
+      records.push(this.decode(p));
+    }
+
+    this.count = lines.length;
+    this.bytes = Buffer.byteLength(raw, 'utf8');
+    return { records, skipped };
+  }
+
+  /**
+   * Discard the first `upTo` lines (default: everything appended so far)
+   * after they were compacted into the main file. Pass the `size` observed
+   * before the save started so records appended while it was writing survive.
+   */
+  truncate(upTo = this.count): Promise<void> {
+    this.count = Math.max(0, this.count - upTo);
+    // Queued like appends so no record lands between the read and the rewrite
+    return this.enqueue(async () => {
+      const rest = (await this.lines()).slice(upTo);
+      if (rest.length === 0) {
+        await rm(this.path, { force: true });
+        this.bytes = 0;
+      } else {
+        const content = rest.map(l => l + '\n').join('');
+        await writeFile(this.path, content, 'utf8');
+        this.bytes = Buffer.byteLength(content, 'utf8');
+      }
+    });
+  }
+
+  /** Append a line; call from a queued operation. */
+  private async write(line: string): Promise<void> {
+    // A crash mid-append leaves a torn line with no newline: end it first so
+    // this record doesn't join it and get skipped along with it
+    const text = await this.tornTail() ? '\n' + line : line;
+    await appendFile(this.path, text, 'utf8');
+    this.bytes += Buffer.byteLength(text, 'utf8');
+  }
+
+  private async tornTail(): Promise<boolean> {
+    if (!existsSync(this.path)) return false;
+    const handle = await open(this.path, 'r');
+    try {
+      const { size } = await handle.stat();
+      if (size === 0) return false;
+      const last = Buffer.alloc(1);
+      await handle.read(last, 0, 1, size - 1);
+      return last[0] !== 0x0a;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /** Run file operations one at a time; a failure doesn't wedge later ones. */
+  private enqueue(op: () => Promise<void>): Promise<void> {
+    const next = this.queue.then(op);
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  private async lines(): Promise<string[]> {
+    if (!existsSync(this.path)) return [];
+    return (await readFile(this.path, 'utf8')).split('\n').filter(l => l.trim());
+  }
+
+  // ===========================================================================
+  // Encoding
+  // ===========================================================================
+
+  private encode(record: JournalRecord): string {
+    const plain = record.op === 'store'
+      ? { op: 'store', memory: { ...record.memory, embedding: encodeEmbedding(record.memory.embedding) } }
+      : record;
+
+    const cipher = this.getCipher();
+    if (!cipher) return JSON.stringify(plain);
+    return JSON.stringify({ sealed: cipher.seal(JSON.stringify(plain), JOURNAL_AAD) });
+  }
+
+  private decode(parsed: any): JournalRecord {
+    let plain = parsed;
+    if (typeof parsed.sealed === 'string') {
+      const cipher = this.getCipher();
+      if (!cipher) throw new EncryptionError(`${this.path} contains encrypted records but no \`encryption\` config was provided`);
+      plain = JSON.parse(cipher.open(parsed.sealed, JOURNAL_AAD).toString('utf8'));
+    }
+
+    if (plain.op === 'store') {
+      return {
+        op: 'store',
+        memory: {
+          ...plain.memory,
+          tier: plain.memory.tier as MemoryTier,
+          embedding: decodeEmbedding(plain.memory.embedding),
+        },
+      };
+    }
+    return plain as JournalRecord;
+  }
+}
+
+// =============================================================================
+// Replay
+// =============================================================================
+
+/**
+ * Apply journal records to a memory list in order. Returns a new array.
+ */
+export function replayJournal(memories: Memory[], records: JournalRecord[]): Memory[] {
+  const byId = new Map(memories.map(m => [m.id, m]));
+
+  for (const record of records) {
+    switch (record.op) {
+      case 'store':
+        byId.set(record.memory.id, record.memory);
+        break;
+      case 'forget':
+        for (const id of record.ids) byId.delete(id);
+        break;
+      case 'access':
+        for (const entry of record.entries) {
+          const m = byId.get(entry.id);
+          if (!m) continue;
+          m.accessCount = Math.max(m.accessCount, entry.accessCount);
+          if (entry.lastAccessed > m.lastAccessed) m.lastAccessed = entry.lastAccessed;
+        }
+        break;
+    }
+  }
+
+  return [...byId.values()];
+}
@@ -0,0 +1,179 @@
+/**
+ * Engram Trace — Lexical Index
+ *
+ * BM25 keyword search over memory content, fused with embedding similarity
+ * in recall(). Embeddings are good at meaning and bad at exact strings: a
+ * port number, `v2.1` or `ERR_CONN_RESET` barely moves a sentence vector,
+ * but it is a rare, high-IDF token here.
+ *
+ * Tokens keep identifiers intact (`v2.1`, `api.example.com`, `e-1042`) and
+ * also index their parts, so `example` still finds `api.example.com`.
+ */
+import type { FusionMethod } from './types.js';
+
+const K1 = 1.2;
+const B = 0.75;
+
+const TOKEN = /[\p{L}\p{N}]+(?:[._\-:/@#][\p{L}\p{N}]+)*/gu;
+const PART = /[\p{L}\p{N}]+/gu;
+
+/** Words nearly every English sentence has; matching only these says nothing */
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'did', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'he', 'her', 'his', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my',
+  'no', 'not', 'of', 'on', 'or', 'our', 's', 'she', 'so', 'that', 'the', 'their', 'them', 'then',
+  'there', 'they', 'this', 'to', 'us', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who',
+  'why', 'will', 'with', 'you', 'your',
+]);
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.toLowerCase().matchAll(TOKEN)) {
+    const token = match[0];
+    tokens.push(token);
+    const parts = token.match(PART)!;
+    if (parts.length > 1) tokens.push(...parts);
+  }
+  return tokens;
+}
+
+/** The tokens of `text` that aren't stopwords */
+export function keywords(text: string): Set<string> {
+  return new Set(tokenize(text).filter(t => !STOPWORDS.has(t)));
+}
+
+// =============================================================================
+// BM25 Index
+// =============================================================================
+
+export class Bm25Index {
+  /** term -> (id -> term frequency) */
+  private postings: Map<string, Map<string, number>> = new Map();
+  /** id -> [indexed text, token count] */
+  private docs: Map<string, [string, number]> = new Map();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  keys(): IterableIterator<string> {
+    return this.docs.keys();
+  }
+
+  /** The text indexed under `id` */
+  textOf(id: string): string | undefined {
+    return this.docs.get(id)?.[0];
+  }
+
+  /** Add or replace the text for `id`. */
+  add(id: string, text: string): void {
+    if (this.docs.has(id)) this.remove(id);
+
+    const tokens = tokenize(text);
+    this.docs.set(id, [text, tokens.length]);
+    this.totalLength += tokens.length;
+
+    const counts = new Map<string, number>();
+    for (const t of tokens) counts.set(t, (counts.get(t) ?? 0) + 1);
+    for (const [term, tf] of counts) {
+      let posting = this.postings.get(term);
+      if (!posting) this.postings.set(term, posting = new Map());
+      posting.set(id, tf);
+    }
+  }
+
+  remove(id: string): boolean {
+    const doc = this.docs.get(id);
+    if (!doc) return false;
+
+    this.docs.delete(id);
+    this.totalLength -= doc[1];
+    for (const term of new Set(tokenize(doc[0]))) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) this.postings.delete(term);
+    }
+    return true;
+  }
+
+  /**
+   * The k best-matching ids by BM25 (only those sharing a term with the
+   * query), best first.
+   */
+  search(query: string, k: number): Array<{ id: string; score: number }> {
+    const n = this.docs.size;
+    if (n === 0 || k <= 0) return [];
+
+    const avgLength = this.totalLength / n;
+    const scores = new Map<string, number>();
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (n - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, tf] of posting) {
+        const length = this.docs.get(id)![1];
+        const score = idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / avgLength));
+        scores.set(id, (scores.get(id) ?? 0) + score);
+      }
+    }
+
+    return [...scores]
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+}
+
+// =============================================================================
+// Fusion
+// =============================================================================
+
+export interface FuseOptions {
+  method: FusionMethod;
+  /** 'weighted': weight of the normalized BM25 score */
+  lexicalWeight: number;
+  /** 'rrf': rank constant */
+  rrfK: number;
+}
+
+/**
+ * One relevance score per candidate from its semantic (cosine) and lexical
+ * (BM25, 0 = no match) scores:
+ *   - 'none'     — the semantic score
+ *   - 'weighted' — semantic + lexicalWeight x BM25 / best BM25
+ *   - 'rrf'      — reciprocal rank fusion, scaled so 1 = ranked first by both
+ */
+export function fuseScores(semantic: number[], lexical: number[], options: FuseOptions): number[] {
+  if (options.method === 'none') return semantic;
+
+  if (options.method === 'weighted') {
+    const best = lexical.reduce((a, b) => Math.max(a, b), 0);
+    return semantic.map((s, i) => s + (best > 0 ? options.lexicalWeight * lexical[i] / best : 0));
+  }
+
+  const k = options.rrfK;
+  const semanticRank = ranks(semantic, () => true);
+  const lexicalRank = ranks(lexical, score => score > 0);
+  return semantic.map((_, i) => {
+    let fused = 1 / (k + semanticRank[i]);
+    if (lexicalRank[i] > 0) fused += 1 / (k + lexicalRank[i]);
+    return fused / (2 / (k + 1));
+  });
+}
+
+/** 1-based rank of each score (highest first); 0 where `include` is false */
+function ranks(scores: number[], include: (score: number) => boolean): number[] {
+  const order = scores
+    .map((score, i) => ({ score, i }))
+    .filter(s => include(s.score))
+    .sort((a, b) => b.score - a.score);
+  const rank = new Array<number>(scores.length).fill(0);
+  order.forEach((s, r) => { rank[s.i] = r + 1; });
+  return rank;
+}
@@ -0,0 +1,139 @@
+/**
+ * Engram Trace — Memory Links
+ *
+ * Typed links between memories, held in `Memory.links` of the memory they
+ * start from and written to the .engram file's links table. A link may
+ * outlive its target: a memory consolidated away is still in the snapshot
+ * taken before consolidation.
+ */
+import type { LinkEdge, LinkQuery, LinkType, Memory, MemoryLink } from './types.js';
+
+export const LINK_TYPES: readonly LinkType[] = ['supersedes', 'derived-from', 'related-to', 'contradicts', 'part-of'];
+
+export function isLinkType(value: unknown): value is LinkType {
+  return LINK_TYPES.includes(value as LinkType);
+}
+
+/** `links` plus `link`, unless one of the same type and target is already there */
+export function withLink(links: MemoryLink[] | undefined, link: MemoryLink): MemoryLink[] {
+  const current = links ?? [];
+  return current.some(l => l.type === link.type && l.target === link.target) ? current : [...current, link];
+}
+
+// =============================================================================
+// Graph
+// =============================================================================
+
+/** Every link among a set of memories, looked up from either end */
+export class LinkGraph {
+  private out = new Map<string, LinkEdge[]>();
+  private in = new Map<string, LinkEdge[]>();
+
+  constructor(memories: Iterable<Memory>) {
+    for (const m of memories) {
+      for (const link of m.links ?? []) {
+        const edge: LinkEdge = { ...link, source: m.id };
+        push(this.out, m.id, edge);
+        push(this.in, link.target, edge);
+      }
+    }
+  }
+
+  /** Links held by `id`, pointing at it, or both */
+  edges(id: string, query: LinkQuery = {}): LinkEdge[] {
+    const direction = query.direction ?? 'both';
+    const edges = [
+      ...(direction !== 'in' ? this.out.get(id) ?? [] : []),
+      ...(direction !== 'out' ? this.in.get(id) ?? [] : []),
+    ];
+    return query.types ? edges.filter(e => query.types!.includes(e.type)) : edges;
+  }
+
+  /**
+   * Memories reachable from `start` within `hops` links (breadth-first, so
+   * each at its fewest hops), with the memory and link it was reached by.
+   * `start` itself is not included, and neither is (nor is anything
+   * reached through) a memory `visit` rejects.
+   */
+  traverse(
+    start: string,
+    hops: number,
+    query: LinkQuery = {},
+    visit: (id: string) => boolean = () => true,
+  ): Map<string, { from: string; type: LinkType; hops: number }> {
+    const reached = new Map<string, { from: string; type: LinkType; hops: number }>();
+    let frontier = [start];
+
+    for (let hop = 1; hop <= hops && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const edge of this.edges(id, query)) {
+          const other = edge.source === id ? edge.target : edge.source;
+          if (other === start || reached.has(other) || !visit(other)) continue;
+          reached.set(other, { from: id, type: edge.type, hops: hop });
+          next.push(other);
+        }
+      }
+      frontier = next;
+    }
+    return reached;
+  }
+}
+
+function push<T>(map: Map<string, T[]>, key: string, value: T): void {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
+
+// =============================================================================
+// Consolidation
+// =============================================================================
+
+/**
+ * Keep links intact when consolidation folds memories into others: each
+ * survivor takes over the links of the memories it absorbed, links to an
+ * absorbed memory point at its survivor instead, and the `added` links
+ * (which may point at absorbed memories on purpose) are attached last.
+ * Memories whose links change are copied.
+ */
+export function foldLinks(
+  memories: Memory[],
+  absorbed: Array<{ memory: Memory; into: string }>,
+  added: Array<{ source: string; link: MemoryLink }>,
+): Memory[] {
+  if (absorbed.length === 0 && added.length === 0) return memories;
+
+  const into = new Map(absorbed.map(a => [a.memory.id, a.into]));
+  const survivor = (id: string) => {
+    const seen = new Set<string>();
+    while (into.has(id) && !seen.has(id)) {
+      seen.add(id);
+      id = into.get(id)!;
+    }
+    return id;
+  };
+
+  const inherited = new Map<string, MemoryLink[]>();
+  for (const a of absorbed) {
+    for (const link of a.memory.links ?? []) push(inherited, survivor(a.into), link);
+  }
+  const extra = new Map<string, MemoryLink[]>();
+  for (const a of added) push(extra, survivor(a.source), a.link);
+
+  return memories.map(m => {
+    const own = m.links ?? [];
+    const carried = inherited.get(m.id) ?? [];
+    if (carried.length === 0 && !extra.has(m.id) && !own.some(l => into.has(l.target))) return m;
+
+    let links: MemoryLink[] = [];
+    for (const link of [...own, ...carried]) {
+      const target = survivor(link.target);
+      if (target !== m.id) links = withLink(links, target === link.target ? link : { ...link, target });
+    }
+    for (const link of extra.get(m.id) ?? []) {
+      if (link.target !== m.id) links = withLink(links, link);
+    }
+    return links.length === own.length && links.every((l, i) => l === own[i]) ? m : { ...m, links };
+  });
+}
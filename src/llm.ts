@@ -1,7 +1,7 @@
 /**
  * Engram Trace — LLM Providers
  *
- * Used only for consolidation summaries. Entirely optional.
+ * Used for consolidation and context summaries and LLM reranking. Entirely optional.
  */
 import type { LLM, LLMConfig } from './types.js';
 
@@ -0,0 +1,103 @@
+/**
+ * Engram Trace — Advisory File Lock
+ *
+ * Serializes writers to one .engram file across processes (and across
+ * async callers within a process). The lock is a `<file>.lock` sidecar
+ * created with O_EXCL and holding the owner's pid/host; a lock whose owner
+ * is gone (same host, dead pid) or that is older than `staleMs` is broken.
+ */
+import { hostname } from 'node:os';
+import { open, readFile, rm, stat } from 'node:fs/promises';
+
+import { LockTimeoutError } from './errors.js';
+
+// =============================================================================
+// File Lock
+// =============================================================================
+
+export interface FileLockOptions {
+  /** Give up acquiring after this long. Default: 10000 */
+  timeoutMs?: number;
+
+  /** Break locks older than this (crashed owner on another host). Default: 60000 */
+  staleMs?: number;
+}
+
+export class FileLock {
+  readonly path: string;
+  private timeoutMs: number;
+  private staleMs: number;
+  private chain: Promise<unknown> = Promise.resolve();
+
+  constructor(path: string, options: FileLockOptions = {}) {
+    this.path = path;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.staleMs = options.staleMs ?? 60000;
+  }
+
+  /**
+   * Run `fn` while holding the lock. Not reentrant: do not call run()
+   * from inside `fn`.
+   */
+  run<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.chain.then(async () => {
+      await this.acquire();
+      try {
+        return await fn();
+      } finally {
+        await rm(this.path, { force: true });
+      }
+    });
+    this.chain = next.catch(() => {});
+    return next;
+  }
+
+  private async acquire(): Promise<void> {
+    const deadline = Date.now() + this.timeoutMs;
+    let delay = 5;
+
+    for (;;) {
+      try {
+        const handle = await open(this.path, 'wx');
+        try {
+          await handle.writeFile(JSON.stringify({ pid: process.pid, host: hostname(), acquiredAt: new Date().toISOString() }));
+        } finally {
+          await handle.close();
+        }
+        return;
+      } catch (e: any) {
+        if (e?.code !== 'EEXIST') throw e;
+      }
+
+      if (await this.isStale()) {
+        await rm(this.path, { force: true });
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new LockTimeoutError(`Timed out after ${this.timeoutMs}ms waiting for ${this.path}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay = Math.min(delay * 2, 200);
+    }
+  }
+
+  private async isStale(): Promise<boolean> {
+    try {
+      const { mtimeMs } = await stat(this.path);
+      if (Date.now() - mtimeMs > this.staleMs) return true;
+
+      const owner = JSON.parse(await readFile(this.path, 'utf8'));
+      if (owner.host !== hostname() || typeof owner.pid !== 'number') return false;
+      try {
+        process.kill(owner.pid, 0);
+        return false;
+      } catch (e: any) {
+        return e?.code === 'ESRCH';
+      }
+    } catch {
+      // Vanished between open and stat, or half-written: just retry
+      return false;
+    }
+  }
+}
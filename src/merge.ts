@@ -0,0 +1,150 @@
+/**
+ * Engram Trace — Brain Merge
+ *
+ * Folds the memories of one brain into another:
+ *   1. Reconcile by id — same memory on both sides (e.g. a staging copy)
+ *   2. Deduplicate — different ids, near-identical embeddings
+ *   3. Resolve conflicts — same id, diverged content, per MergePolicy
+ *
+ * Pure: takes and returns memory arrays, never touches storage.
+ */
+import type { Memory, MemoryTier, MergePolicy, MergeReport } from './types.js';
+import { scopeKey } from './scope.js';
+import { withLink } from './links.js';
+import { cosineSimilarity } from './similarity.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface MergeMemoriesOptions {
+  policy: MergePolicy;
+  /** Near-duplicate similarity, or null to skip deduplication */
+  deduplicateThreshold: number | null;
+  /** Tags added to every incoming memory */
+  tags?: string[];
+}
+
+export interface MergeMemoriesResult {
+  memories: Memory[];
+  /** Memories that are new to `ours` (incoming as-is, or kept-both copies) */
+  added: Memory[];
+  report: Pick<MergeReport, 'incoming' | 'added' | 'matchedById' | 'conflicts' | 'keptBoth' | 'duplicates' | 'before' | 'after'>;
+}
+
+// =============================================================================
+// Merge
+// =============================================================================
+
+export function mergeMemories(ours: Memory[], theirs: Memory[], options: MergeMemoriesOptions): MergeMemoriesResult {
+  const memories = [...ours];
+  const index = new Map(memories.map((m, i) => [m.id, i]));
+  const added: Memory[] = [];
+  const report: MergeMemoriesResult['report'] = {
+    incoming: theirs.length,
+    added: 0,
+    matchedById: 0,
+    conflicts: 0,
+    keptBoth: 0,
+    duplicates: 0,
+    before: { total: ours.length, byTier: countByTier(ours) },
+    after: { total: 0, byTier: countByTier([]) },
+  };
+
+  const add = (m: Memory) => {
+    index.set(m.id, memories.length);
+    memories.push(m);
+    added.push(m);
+  };
+
+  for (const incoming of theirs) {
+    const t = options.tags?.length ? { ...incoming, tags: union(incoming.tags, options.tags) } : incoming;
+
+    // 1. Same id
+    const i = index.get(t.id);
+    if (i !== undefined) {
+      const o = memories[i];
+      if (o.content === t.content) {
+        memories[i] = resolve(o, t, options.policy);
+        report.matchedById++;
+      } else if (options.policy === 'keep-both') {
+        add({ ...t, id: crypto.randomUUID(), metadata: { ...t.metadata, mergedFrom: t.id } });
+        report.conflicts++;
+        report.keptBoth++;
+      } else {
+        memories[i] = resolve(o, t, options.policy);
+        report.conflicts++;
+      }
+      continue;
+    }
+
+    // 2. Near-duplicate of a memory we already have (or just added), same scope
+    if (options.deduplicateThreshold !== null) {
+      const j = nearest(memories, t, options.deduplicateThreshold);
+      if (j >= 0) {
+        memories[j] = resolve(memories[j], t, options.policy);
+        report.duplicates++;
+        continue;
+      }
+    }
+
+    // 3. New
+    add(t);
+    report.added++;
+  }
+
+  report.after = { total: memories.length, byTier: countByTier(memories) };
+  return { memories, added, report };
+}
+
+/**
+ * One memory out of two versions. The winner's content, embedding, tier and
+ * metadata are kept under our id; tags and links are unioned, access stats
+ * maxed, and the earliest creation time wins.
+ */
+function resolve(ours: Memory, theirs: Memory, policy: MergePolicy): Memory {
+  const winner = policy === 'newest-wins'
+    ? (touched(theirs) > touched(ours) ? theirs : ours)
+    : (theirs.importance > ours.importance ? theirs : ours);
+
+  return {
+    ...winner,
+    id: ours.id,
+    tags: union(ours.tags, theirs.tags),
+    ...(ours.links || theirs.links ? { links: (theirs.links ?? []).reduce(withLink, ours.links ?? []) } : {}),
+    importance: policy === 'newest-wins' ? winner.importance : Math.max(ours.importance, theirs.importance),
+    createdAt: theirs.createdAt < ours.createdAt ? theirs.createdAt : ours.createdAt,
+    lastAccessed: theirs.lastAccessed > ours.lastAccessed ? theirs.lastAccessed : ours.lastAccessed,
+    accessCount: Math.max(ours.accessCount, theirs.accessCount),
+  };
+}
+
+/** Most recent of creation and last access */
+function touched(m: Memory): string {
+  return m.lastAccessed > m.createdAt ? m.lastAccessed : m.createdAt;
+}
+
+function nearest(memories: Memory[], target: Memory, threshold: number): number {
+  const key = scopeKey(target.scope);
+  let best = -1;
+  let bestScore = threshold;
+  for (let i = 0; i < memories.length; i++) {
+    if (scopeKey(memories[i].scope) !== key) continue;
+    const score = cosineSimilarity(target.embedding, memories[i].embedding);
+    if (score >= bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function union(a: string[], b: string[]): string[] {
+  return [...new Set([...a, ...b])];
+}
+
+function countByTier(memories: Memory[]): Record<MemoryTier, number> {
+  const counts = { hot: 0, warm: 0, cold: 0, archive: 0 } as Record<MemoryTier, number>;
+  for (const m of memories) counts[m.tier] = (counts[m.tier] || 0) + 1;
+  return counts;
+}
@@ -0,0 +1,103 @@
+/**
+ * Engram Trace — Rankers
+ *
+ * Turn a recall candidate's relevance and its stats into a score.
+ *   - DefaultRanker  — relevance x tier boost (or recency) x importance boost
+ *   - WeightedRanker — weighted sum of relevance, importance, recency and
+ *                      access frequency
+ */
+import { MemoryTier, type Memory, type Ranker, type RankerWeights, type RankedScore, type RankingSignals, type RecallOptions } from './types.js';
+import { recencyFactor } from './temporal.js';
+
+const DAY_MS = 86_400_000;
+
+const TIER_BOOST: Record<MemoryTier, number> = {
+  [MemoryTier.HOT]: 1.1,
+  [MemoryTier.WARM]: 1.0,
+  [MemoryTier.COLD]: 0.95,
+  [MemoryTier.ARCHIVE]: 0.85,
+};
+
+// =============================================================================
+// Default Ranker
+// =============================================================================
+
+/**
+ * The long-standing formula: relevance, times a tier boost (HOT memories
+ * get a slight boost, ARCHIVE ones are deprioritized) or the `recency`
+ * decay when set, times 1 + importance x 0.2. `decayBoost: false` drops the
+ * tier/recency factor.
+ */
+export class DefaultRanker implements Ranker {
+  readonly name = 'default';
+
+  score(memory: Memory, signals: RankingSignals, options: RecallOptions): RankedScore {
+    const factors: Record<string, number> = { relevance: signals.relevance };
+
+    if (options.decayBoost !== false) {
+      const recency = options.recency;
+      if (recency) {
+        const days = (recency.field ?? 'createdAt') === 'createdAt' ? signals.ageDays : signals.idleDays;
+        factors.recency = recencyFactor(days * DAY_MS, recency.halfLifeDays, recency.floor);
+      } else {
+        factors.tier = TIER_BOOST[memory.tier] ?? 1;
+      }
+    }
+
+    factors.importance = 1 + memory.importance * 0.2;
+
+    return { score: Object.values(factors).reduce((a, b) => a * b, 1), factors };
+  }
+}
+
+// =============================================================================
+// Weighted Ranker
+// =============================================================================
+
+/**
+ * Sum of weight x signal, with every signal in 0-1: relevance, importance,
+ * recency and access frequency (1 - 1 / (1 + ln(1 + accessCount))). Recency
+ * halves every `halfLifeDays` unless the call passes `recency` options;
+ * `decayBoost: false` drops it. `minScore` is checked against the relevance
+ * alone, so importance and recency reorder relevant memories but can't let
+ * an irrelevant one in.
+ */
+export class WeightedRanker implements Ranker {
+  readonly name = 'weighted';
+  private weights: Required<RankerWeights>;
+
+  constructor(weights: RankerWeights = {}) {
+    this.weights = {
+      similarity: weights.similarity ?? 1,
+      importance: weights.importance ?? 0.2,
+      recency: weights.recency ?? 0.2,
+      accessFrequency: weights.accessFrequency ?? 0.1,
+      halfLifeDays: weights.halfLifeDays ?? 30,
+    };
+  }
+
+  score(memory: Memory, signals: RankingSignals, options: RecallOptions = {}): RankedScore {
+    const w = this.weights;
+    const factors: Record<string, number> = {
+      similarity: w.similarity * signals.relevance,
+      importance: w.importance * memory.importance,
+    };
+    if (options.decayBoost !== false) {
+      const recency = options.recency;
+      const days = (recency?.field ?? 'createdAt') === 'createdAt' ? signals.ageDays : signals.idleDays;
+      factors.recency = w.recency * recencyFactor(days * DAY_MS, recency?.halfLifeDays ?? w.halfLifeDays, recency?.floor);
+    }
+    factors.accessFrequency = w.accessFrequency * (1 - 1 / (1 + Math.log1p(memory.accessCount)));
+    return { score: Object.values(factors).reduce((a, b) => a + b, 0), factors, relevance: signals.relevance };
+  }
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+export function createRanker(config?: Ranker | RankerWeights): Ranker {
+  if (!config) return new DefaultRanker();
+  if (typeof (config as Ranker).score === 'function') return config as Ranker;
+  return new WeightedRanker(config as RankerWeights);
+}
@@ -0,0 +1,105 @@
+/**
+ * Engram Trace — Rerankers
+ *
+ * Re-score recall's top candidates against the query, reading both
+ * together instead of comparing two independent embeddings.
+ *   - CrossEncoderReranker — local @xenova/transformers cross-encoder (default)
+ *   - LLMReranker          — asks the configured LLM to grade each candidate
+ */
+import type { LLM, Reranker, RerankConfig } from './types.js';
+
+// =============================================================================
+// Cross-Encoder Reranker (default) — @xenova/transformers
+// =============================================================================
+
+export class CrossEncoderReranker implements Reranker {
+  readonly name = 'cross-encoder';
+  private tokenizer: any = null;
+  private model: any = null;
+  readonly modelName: string;
+
+  constructor(model = 'Xenova/ms-marco-MiniLM-L-6-v2') {
+    this.modelName = model;
+  }
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    if (documents.length === 0) return [];
+    if (!this.model) {
+      const { AutoTokenizer, AutoModelForSequenceClassification } = await import('@xenova/transformers');
+      this.tokenizer = await AutoTokenizer.from_pretrained(this.modelName);
+      this.model = await AutoModelForSequenceClassification.from_pretrained(this.modelName);
+    }
+
+    const inputs = this.tokenizer(new Array(documents.length).fill(query), {
+      text_pair: documents,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await this.model(inputs);
+
+    // One relevance logit per pair, squashed to 0-1
+    return Array.from(logits.data as Float32Array, x => 1 / (1 + Math.exp(-x)));
+  }
+}
+
+// =============================================================================
+// LLM Reranker
+// =============================================================================
+
+/** Longest candidate text shown to the LLM */
+const LLM_DOCUMENT_CHARS = 500;
+
+export class LLMReranker implements Reranker {
+  readonly name = 'llm';
+  private llm: LLM;
+
+  constructor(llm: LLM) {
+    this.llm = llm;
+  }
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    if (documents.length === 0) return [];
+
+    const listed = documents
+      .map((d, i) => `[${i + 1}] ${d.length > LLM_DOCUMENT_CHARS ? `${d.slice(0, LLM_DOCUMENT_CHARS)}…` : d}`)
+      .join('\n');
+    const response = await this.llm.generate(
+      `Query: ${query}\n\nRate how relevant each memory is to the query, from 0 (unrelated) to 10 (answers it directly).\n\nMemories:\n${listed}\n\nReply with a JSON array of ${documents.length} numbers, one per memory, in order.`,
+      'You are a search relevance grader. Output only the JSON array, nothing else.',
+    );
+    return parseGrades(response, documents.length);
+  }
+}
+
+/** Grades 0-10 from an LLM reply, as 0-1; throws unless there is one per document */
+export function parseGrades(response: string, count: number): number[] {
+  const match = response.match(/\[[\s\S]*?\]/);
+  let grades: unknown;
+  try {
+    grades = match ? JSON.parse(match[0]) : null;
+  } catch {
+    grades = null;
+  }
+  if (!Array.isArray(grades) || grades.length !== count || !grades.every(g => typeof g === 'number' && Number.isFinite(g))) {
+    throw new Error(`LLM reranker expected a JSON array of ${count} grades, got: ${response.slice(0, 200)}`);
+  }
+  return grades.map(g => Math.min(Math.max(g / 10, 0), 1));
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+export function createReranker(config: RerankConfig, llm: LLM | null): Reranker {
+  const reranker = config.reranker ?? 'cross-encoder';
+  if (typeof reranker === 'object') return reranker;
+
+  if (reranker === 'cross-encoder') return new CrossEncoderReranker(config.model);
+
+  if (reranker === 'llm') {
+    if (!llm) throw new Error('LLM reranker requires an llm config');
+    return new LLMReranker(llm);
+  }
+
+  throw new Error(`Unknown reranker: ${reranker}`);
+}
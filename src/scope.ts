@@ -0,0 +1,67 @@
+/**
+ * Engram Trace — Scopes
+ *
+ * One brain can hold memories for many users and agents. A memory's scope
+ * says whose it is; the scope a call is made with says who is asking:
+ *   - visibleTo() — may this caller read the memory? (recall, bootstrap)
+ *   - inScope()   — does the memory belong to this scope? (forget, stats,
+ *                   deleting a scope)
+ *   - scopeKey()  — memories with different keys are never deduplicated
+ *                   or clustered together
+ */
+import type { Memory, MemoryScope } from './types.js';
+
+/**
+ * Unscoped memories are visible to everyone, and so are `shareable` ones.
+ * A private memory needs a caller with the same userId and agentId (for
+ * whichever of the two the memory has).
+ */
+export function visibleTo(memory: Memory, scope: MemoryScope): boolean {
+  const s = memory.scope;
+  if (!s || s.visibility === 'shareable') return true;
+  if (s.userId !== undefined && s.userId !== scope.userId) return false;
+  if (s.agentId !== undefined && s.agentId !== scope.agentId) return false;
+  return true;
+}
+
+/**
+ * Every field set on `selector` matches the memory's scope. An empty
+ * selector matches every memory.
+ */
+export function inScope(memory: Memory, selector: MemoryScope): boolean {
+  const s = memory.scope ?? {};
+  if (selector.userId !== undefined && s.userId !== selector.userId) return false;
+  if (selector.agentId !== undefined && s.agentId !== selector.agentId) return false;
+  if (selector.visibility !== undefined && (s.visibility ?? 'private') !== selector.visibility) return false;
+  return true;
+}
+
+export function scopeKey(scope: MemoryScope | undefined): string {
+  if (!scope) return '';
+  return JSON.stringify([scope.userId ?? null, scope.agentId ?? null, scope.visibility ?? 'private']);
+}
+
+/**
+ * The scope a memory is stored under: the call's scope over the configured
+ * default. Undefined when neither sets anything.
+ */
+export function resolveScope(defaults: MemoryScope, scope?: MemoryScope): MemoryScope | undefined {
+  const merged: MemoryScope = { ...defaults, ...scope };
+  const resolved: MemoryScope = {};
+  if (merged.userId !== undefined) resolved.userId = merged.userId;
+  if (merged.agentId !== undefined) resolved.agentId = merged.agentId;
+  if (merged.visibility !== undefined) resolved.visibility = merged.visibility;
+  return Object.keys(resolved).length > 0 ? resolved : undefined;
+}
+
+/** Split memories by scope, keeping first-seen order within and across groups */
+export function groupByScope(memories: Memory[]): Memory[][] {
+  const groups = new Map<string, Memory[]>();
+  for (const m of memories) {
+    const key = scopeKey(m.scope);
+    const group = groups.get(key);
+    if (group) group.push(m);
+    else groups.set(key, [m]);
+  }
+  return [...groups.values()];
+}
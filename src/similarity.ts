@@ -0,0 +1,22 @@
+/**
+ * Engram Trace — Vector Similarity
+ *
+ * The one cosine similarity used for recall, deduplication, clustering,
+ * merging and diffing, so every feature agrees on how alike two memories are.
+ */
+
+/**
+ * Cosine similarity of two embeddings. Vectors of different lengths (from
+ * different embedding models), empty vectors and zero vectors score 0.
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  const denom = Math.sqrt(normA) * Math.sqrt(normB);
+  return denom === 0 ? 0 : dot / denom;
+}
@@ -0,0 +1,340 @@
+/**
+ * Engram Trace — Snapshots
+ *
+ * Point-in-time copies of a brain for rollback. Storage is content
+ * addressed, so a memory that did not change between snapshots is stored
+ * once no matter how many snapshots reference it:
+ *
+ *   <file>.snapshots/
+ *     security.json                 encryption descriptor (encrypted brains)
+ *     manifests/<snapshot-id>.json  label, time, [id, object, access stats] per memory
+ *     objects/ab/cdef0123...        one memory (content, embedding, tags, ...)
+ *
+ * Access stats live in the manifest, not the object, so a recall does not
+ * make a memory look changed. With encryption, objects are sealed and
+ * addressed by a keyed digest rather than a plain hash.
+ */
+import { existsSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { createHash, randomBytes } from 'node:crypto';
+
+import type { TraceConfig, Memory, MemoryTier, EncryptionConfig, SnapshotInfo } from './types.js';
+import { FileCipher, encodeEmbedding, decodeEmbedding, type SecurityDescriptor } from './crypto.js';
+import { EncryptionError } from './errors.js';
+
+interface Manifest extends SnapshotInfo {
+  version: 1;
+  /** One more than the newest snapshot's when taken; orders snapshots taken in the same millisecond */
+  seq?: number;
+  /** [memory id, object address, accessCount, lastAccessed] */
+  entries: Array<[string, string, number, string]>;
+}
+
+export interface SnapshotStoreOptions {
+  /** Encrypt snapshot objects (use the brain's own config) */
+  encryption?: EncryptionConfig | null;
+
+  /** Debug logger */
+  log?: (msg: string) => void;
+}
+
+// =============================================================================
+// Snapshot Store
+// =============================================================================
+
+export class SnapshotStore {
+  /** Directory, or 'memory' when snapshots are kept in process memory */
+  readonly location: string;
+  private dir: string | null;
+  /** Backing store when there is no directory */
+  private files: Map<string, string> = new Map();
+  private encryption: EncryptionConfig | null;
+  /** undefined until first use (opening may run the KDF) */
+  private cipher: FileCipher | null | undefined = undefined;
+  private log: (msg: string) => void;
+
+  constructor(dir: string | null, options: SnapshotStoreOptions = {}) {
+    this.dir = dir;
+    this.location = dir ?? 'memory';
+    this.encryption = options.encryption ?? null;
+    this.log = options.log ?? (() => {});
+  }
+
+  async create(memories: Memory[], info: Pick<SnapshotInfo, 'label' | 'reason'>): Promise<SnapshotInfo> {
+    const createdAt = new Date().toISOString();
+    const seq = (await this.manifests()).reduce((max, m) => Math.max(max, m.seq ?? 0), 0) + 1;
+    const manifest: Manifest = {
+      version: 1,
+      seq,
+      id: `${createdAt.replace(/[-:.]/g, '')}-${randomBytes(2).toString('hex')}`,
+      label: info.label,
+      reason: info.reason,
+      createdAt,
+      memories: memories.length,
+      entries: await this.writeObjects(memories),
+    };
+
+    await this.writeText(`manifests/${manifest.id}.json`, JSON.stringify(manifest));
+    this.log(`Snapshot ${manifest.id} (${info.reason}${info.label ? `: ${info.label}` : ''}): ${memories.length} memories`);
+    return infoOf(manifest);
+  }
+
+  /** All snapshots, oldest first. */
+  async list(): Promise<SnapshotInfo[]> {
+    return (await this.manifests()).map(infoOf);
+  }
+
+  async read(id: string): Promise<Memory[]> {
+    const manifest = await this.manifest(id);
+    const cipher = await this.getCipher();
+    const objects = new Map<string, Omit<Memory, 'id' | 'accessCount' | 'lastAccessed'>>();
+
+    const memories: Memory[] = [];
+    for (const [memoryId, address, accessCount, lastAccessed] of manifest.entries) {
+      let object = objects.get(address);
+      if (!object) {
+        object = await this.readObject(address, cipher);
+        objects.set(address, object);
+      }
+      memories.push({ ...object, id: memoryId, accessCount, lastAccessed, tags: [...object.tags] });
+    }
+    return memories;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.manifest(id);
+    await this.deleteText(`manifests/${id}.json`);
+    await this.gc();
+  }
+
+  /**
+   * Drop snapshots beyond `keep` (oldest first) or older than `maxAgeDays`,
+   * then delete objects no snapshot references. Returns the removed ids.
+   */
+  async prune(retention: { keep?: number; maxAgeDays?: number }): Promise<string[]> {
+    const all = await this.list();
+    const cutoff = retention.maxAgeDays !== undefined
+      ? new Date(Date.now() - retention.maxAgeDays * 86400000).toISOString()
+      : null;
+    const keepFrom = retention.keep !== undefined ? Math.max(0, all.length - retention.keep) : 0;
+
+    const removed = all.filter((s, i) => i < keepFrom || (cutoff !== null && s.createdAt < cutoff)).map(s => s.id);
+    for (const id of removed) await this.deleteText(`manifests/${id}.json`);
+    if (removed.length > 0) {
+      await this.gc();
+      this.log(`Pruned ${removed.length} snapshots`);
+    }
+    return removed;
+  }
+
+  /**
+   * Remove memories from every snapshot (e.g. a deleted user's), deleting
+   * their objects unless another memory still references them.
+   */
+  async purge(memoryIds: Set<string>): Promise<void> {
+    let purged = 0;
+    for (const m of await this.manifests()) {
+      const entries = m.entries.filter(([id]) => !memoryIds.has(id));
+      if (entries.length === m.entries.length) continue;
+      purged += m.entries.length - entries.length;
+      await this.writeText(`manifests/${m.id}.json`, JSON.stringify({ ...m, entries, memories: entries.length }));
+    }
+    if (purged > 0) {
+      await this.gc();
+      this.log(`Purged ${purged} memory entries from snapshots`);
+    }
+  }
+
+  /**
+   * Re-encrypt every snapshot under a new key (or none), e.g. after the
+   * brain's key was rotated.
+   */
+  async rekey(encryption: EncryptionConfig | null): Promise<void> {
+    const manifests = await this.manifests();
+    const contents = new Map<string, Memory[]>();
+    for (const m of manifests) contents.set(m.id, await this.read(m.id));
+
+    this.encryption = encryption;
+    this.cipher = encryption ? await FileCipher.create(encryption) : null;
+    if (this.cipher) await this.writeText('security.json', JSON.stringify(this.cipher.descriptor));
+    else await this.deleteText('security.json');
+
+    for (const m of manifests) {
+      m.entries = await this.writeObjects(contents.get(m.id)!);
+      await this.writeText(`manifests/${m.id}.json`, JSON.stringify(m));
+    }
+    await this.gc();
+  }
+
+  // ===========================================================================
+  // Objects
+  // ===========================================================================
+
+  private async writeObjects(memories: Memory[]): Promise<Manifest['entries']> {
+    const cipher = await this.getCipher();
+    const entries: Manifest['entries'] = [];
+    let written = 0;
+
+    for (const m of memories) {
+      const json = JSON.stringify({
+        content: m.content,
+        embedding: encodeEmbedding(m.embedding),
+        tags: m.tags,
+        importance: m.importance,
+        tier: m.tier,
+        createdAt: m.createdAt,
+        source: m.source,
+        metadata: m.metadata,
+        scope: m.scope,
+        links: m.links,
+        entities: m.entities,
+      });
+      const address = cipher ? cipher.digest(json) : createHash('sha256').update(json).digest('hex');
+      const path = objectPath(address);
+
+      if (!this.exists(path)) {
+        await this.writeText(path, cipher ? JSON.stringify({ sealed: cipher.seal(json, address) }) : json);
+        written++;
+      }
+      entries.push([m.id, address, m.accessCount, m.lastAccessed]);
+    }
+
+    this.log(`Snapshot stored ${written} new objects, reused ${memories.length - written}`);
+    return entries;
+  }
+
+  private async readObject(address: string, cipher: FileCipher | null): Promise<Omit<Memory, 'id' | 'accessCount' | 'lastAccessed'>> {
+    const text = await this.readText(objectPath(address));
+    if (text === null) throw new Error(`Snapshot object ${address} is missing from ${this.location}`);
+
+    let data = JSON.parse(text);
+    if (typeof data.sealed === 'string') {
+      if (!cipher) throw new EncryptionError(`Snapshots in ${this.location} are encrypted but no \`encryption\` config was provided`);
+      data = JSON.parse(cipher.open(data.sealed, address).toString('utf8'));
+    }
+    return { ...data, tier: data.tier as MemoryTier, embedding: decodeEmbedding(data.embedding) };
+  }
+
+  /** Delete objects that no manifest references. */
+  private async gc(): Promise<void> {
+    const referenced = new Set<string>();
+    for (const m of await this.manifests()) {
+      for (const [, address] of m.entries) referenced.add(address);
+    }
+
+    let removed = 0;
+    for (const prefix of await this.listDir('objects')) {
+      for (const rest of await this.listDir(`objects/${prefix}`)) {
+        if (referenced.has(prefix + rest)) continue;
+        await this.deleteText(`objects/${prefix}/${rest}`);
+        removed++;
+      }
+    }
+    if (removed > 0) this.log(`Removed ${removed} unreferenced snapshot objects`);
+  }
+
+  private async manifests(): Promise<Manifest[]> {
+    const manifests: Manifest[] = [];
+    for (const name of await this.listDir('manifests')) {
+      if (!name.endsWith('.json')) continue;
+      const text = await this.readText(`manifests/${name}`);
+      if (text) manifests.push(JSON.parse(text));
+    }
+    // Manifests written before `seq` existed sort first, by time
+    return manifests.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0) || a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id));
+  }
+
+  private async manifest(id: string): Promise<Manifest> {
+    const text = /^[\w-]+$/.test(id) ? await this.readText(`manifests/${id}.json`) : null;
+    if (!text) throw new Error(`Unknown snapshot: ${id}`);
+    return JSON.parse(text);
+  }
+
+  private async getCipher(): Promise<FileCipher | null> {
+    if (this.cipher !== undefined) return this.cipher;
+
+    const stored = await this.readText('security.json');
+    const descriptor: SecurityDescriptor | null = stored ? JSON.parse(stored) : null;
+    if (descriptor?.encrypted) {
+      if (!this.encryption) {
+        throw new EncryptionError(`Snapshots in ${this.location} are encrypted but no \`encryption\` config was provided`);
+      }
+      this.cipher = await FileCipher.open(this.encryption, descriptor);
+    } else if (this.encryption) {
+      this.cipher = await FileCipher.create(this.encryption);
+      await this.writeText('security.json', JSON.stringify(this.cipher.descriptor));
+    } else {
+      this.cipher = null;
+    }
+    return this.cipher;
+  }
+
+  // ===========================================================================
+  // Backing store (directory, or a map when there is none)
+  // ===========================================================================
+
+  private exists(rel: string): boolean {
+    return this.dir ? existsSync(join(this.dir, rel)) : this.files.has(rel);
+  }
+
+  private async readText(rel: string): Promise<string | null> {
+    if (!this.dir) return this.files.get(rel) ?? null;
+    const path = join(this.dir, rel);
+    return existsSync(path) ? readFile(path, 'utf8') : null;
+  }
+
+  /** Write via temp file + rename so readers never see a partial file. */
+  private async writeText(rel: string, text: string): Promise<void> {
+    if (!this.dir) {
+      this.files.set(rel, text);
+      return;
+    }
+    const path = join(this.dir, rel);
+    await mkdir(dirname(path), { recursive: true });
+    const tmp = `${path}.tmp-${process.pid}`;
+    await writeFile(tmp, text, 'utf8');
+    await rename(tmp, path);
+  }
+
+  private async deleteText(rel: string): Promise<void> {
+    if (!this.dir) this.files.delete(rel);
+    else await rm(join(this.dir, rel), { force: true });
+  }
+
+  private async listDir(rel: string): Promise<string[]> {
+    if (!this.dir) {
+      const prefix = `${rel}/`;
+      const names = new Set<string>();
+      for (const key of this.files.keys()) {
+        if (key.startsWith(prefix)) names.add(key.slice(prefix.length).split('/')[0]);
+      }
+      return [...names];
+    }
+    const path = join(this.dir, rel);
+    return existsSync(path) ? (await readdir(path)).filter(name => !name.includes('.tmp-')) : [];
+  }
+}
+
+/**
+ * Snapshots sit next to the brain: `<file>.snapshots` for the default file
+ * storage, `<dir>/snapshots` for sharded storage, and in memory for the
+ * in-memory and custom adapters.
+ */
+export function defaultSnapshotDir(config: TraceConfig): string | null {
+  const storage = config.storage;
+  if (!storage) return `${config.file}.snapshots`;
+  if ('load' in storage) return null;
+  if (storage.type === 'file') return `${config.file}.snapshots`;
+  if (storage.type === 'sharded') return join(config.file, 'snapshots');
+  return null;
+}
+
+function objectPath(address: string): string {
+  return `objects/${address.slice(0, 2)}/${address.slice(2)}`;
+}
+
+function infoOf(manifest: Manifest): SnapshotInfo {
+  const { id, label, reason, createdAt, memories } = manifest;
+  return { id, label, reason, createdAt, memories };
+}
@@ -0,0 +1,684 @@
+/**
+ * Engram Trace — Storage Adapters
+ *
+ * Persistence backends behind EngramTrace:
+ *   - EngramFileStorage (default) — one .engram file + journal, lock, backups
+ *   - MemoryStorage — nothing touches disk (tests, ephemeral agents)
+ *   - ShardedStorage — a directory of .engram files, one per tier or month,
+ *     so a save only rewrites the shards that changed
+ */
+import { existsSync, statSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+
+import type {
+  TraceConfig,
+  StorageAdapter,
+  StoredBrain,
+  JournalRecord,
+  Memory,
+  TraceMeta,
+  EncryptionConfig,
+  RecoveryReport,
+} from './types.js';
+import { FileCipher, PLAINTEXT_DESCRIPTOR, encodeEmbedding, type SecurityDescriptor } from './crypto.js';
+import { readBrainFile, readSecurity, writeBrainFile, writeAtomic, backupPath, MalformedFileError, type BrainFile } from './engram-file.js';
+import { Journal, replayJournal } from './journal.js';
+import { FileLock, type FileLockOptions } from './lock.js';
+import { CorruptFileError, EncryptionError } from './errors.js';
+
+// =============================================================================
+// Options
+// =============================================================================
+
+export interface FileStorageOptions {
+  /** Rotated backups per file. Default: 2 */
+  backups?: number;
+
+  /** Corrupt file policy (see TraceConfig.onCorrupt). Default: 'restore' */
+  onCorrupt?: 'restore' | 'throw';
+
+  /** Keep a write-ahead journal. Default: true */
+  journal?: boolean;
+
+  /** At-rest encryption. Default: plaintext */
+  encryption?: EncryptionConfig | null;
+
+  /** Cross-process lock options, or false for in-process only. Default: {} */
+  lock?: FileLockOptions | false;
+
+  /** Debug logger */
+  log?: (msg: string) => void;
+}
+
+// =============================================================================
+// Engram File Storage (default)
+// =============================================================================
+
+export class EngramFileStorage implements StorageAdapter {
+  readonly location: string;
+  private file: string;
+  private backups: number;
+  private onCorrupt: 'restore' | 'throw';
+  private encryption: EncryptionConfig | null;
+  private cipher: FileCipher | null = null;
+  private journal: Journal | null;
+  private fileLock: FileLock | null;
+  private diskStamp: DiskStamp | null = null;
+  /** The file as of our last check that it still uses our key */
+  private keyStamp: DiskStamp | null = null;
+  private lastRecovery: RecoveryReport | null = null;
+  private fileFormat: 'engram' | 'json' | null = null;
+  private log: (msg: string) => void;
+
+  constructor(file: string, options: FileStorageOptions = {}) {
+    this.file = file;
+    this.location = file;
+    this.backups = options.backups ?? 2;
+    this.onCorrupt = options.onCorrupt ?? 'restore';
+    this.encryption = options.encryption ?? null;
+    this.journal = options.journal === false ? null : new Journal(`${file}.journal`, () => this.cipher);
+    this.fileLock = options.lock === false ? null : new FileLock(`${file}.lock`, options.lock);
+    this.log = options.log ?? (() => {});
+  }
+
+  async load(): Promise<StoredBrain> {
+    await mkdir(dirname(this.file), { recursive: true });
+
+    let brain: StoredBrain = { memories: [], meta: {}, generation: 0 };
+    if (existsSync(this.file)) {
+      const { file, report } = await readWithRecovery(this.file, {
+        backups: this.backups,
+        onCorrupt: this.onCorrupt,
+        resolveCipher: security => this.resolveCipher(security),
+        log: this.log,
+      });
+      if (report) this.lastRecovery = report;
+      this.fileFormat = file.format;
+      brain = { memories: file.memories, meta: file.meta, generation: file.generation, needsSave: !!report };
+    }
+
+    if (this.journal) await replayInto(brain, this.journal, this.log);
+
+    if (this.encryption && !this.cipher) {
+      // New file, or a plaintext file to encrypt. Sealed journal records are
+      // only readable once the header (salt) is on disk, so save right away.
+      this.cipher = await FileCipher.create(this.encryption);
+      brain.needsSave = true;
+    }
+
+    this.diskStamp = stampOf(this.file);
+    this.keyStamp = this.diskStamp;
+    return brain;
+  }
+
+  async save(brain: StoredBrain): Promise<void> {
+    await this.journal?.checkpoint(brain.generation);
+    this.fileFormat = await writeBrainFile(this.file, brain, this.cipher, { backups: this.backups, log: this.log });
+    await this.afterWrite();
+  }
+
+  async upgrade(brain: StoredBrain): Promise<void> {
+    await this.journal?.checkpoint(brain.generation);
+    this.fileFormat = await writeBrainFile(this.file, brain, this.cipher, { backups: this.backups, fallback: false, log: this.log });
+    await this.afterWrite();
+  }
+
+  async append(record: JournalRecord): Promise<void> {
+    if (!this.journal) return;
+    // Another process may have rotated the key since we last read the file
+    const stamp = stampOf(this.file);
+    if (stamp && !sameStamp(stamp, this.keyStamp)) {
+      this.cipher = await checkKey(await readSecurity(this.file), this.encryption, this.cipher, this.file);
+      this.keyStamp = stamp;
+    }
+    await this.journal.append(record);
+  }
+
+  async delete(): Promise<void> {
+    await this.journal?.truncate();
+    await rm(this.file, { force: true });
+    for (let i = 1; i <= this.backups; i++) await rm(backupPath(this.file, i), { force: true });
+    this.diskStamp = null;
+  }
+
+  lock<T>(fn: () => Promise<T>): Promise<T> {
+    return this.fileLock ? this.fileLock.run(fn) : fn();
+  }
+
+  async hasChanges(): Promise<boolean> {
+    if (!sameStamp(stampOf(this.file), this.diskStamp)) return true;
+    return this.journal ? this.journal.changed() : false;
+  }
+
+  async setEncryption(encryption: EncryptionConfig | null, brain: StoredBrain): Promise<void> {
+    const previous = { encryption: this.encryption, cipher: this.cipher };
+    const cipher = encryption ? await FileCipher.create(encryption) : null;
+    this.encryption = encryption;
+    this.cipher = cipher;
+    try {
+      await this.save(brain);
+    } catch (e) {
+      this.encryption = previous.encryption;
+      this.cipher = previous.cipher;
+      throw e;
+    }
+  }
+
+  recoveryReport(): RecoveryReport | null {
+    return this.lastRecovery;
+  }
+
+  sizeBytes(): number {
+    try {
+      return existsSync(this.file) ? statSync(this.file).size : 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  format(): 'engram' | 'json' | null {
+    return this.fileFormat;
+  }
+
+  /** The full state landed on disk: the journal is compacted into it. */
+  private async afterWrite(): Promise<void> {
+    await this.journal?.truncate();
+    this.diskStamp = stampOf(this.file);
+    this.keyStamp = this.diskStamp;
+  }
+
+  private async resolveCipher(security: Partial<SecurityDescriptor> | undefined): Promise<FileCipher | null> {
+    this.cipher = await openCipher(security, this.encryption, this.cipher, this.file);
+    return security?.encrypted ? this.cipher : null;
+  }
+}
+
+// =============================================================================
+// Memory Storage
+// =============================================================================
+
+/**
+ * Keeps the brain in process memory. Share one instance between several
+ * EngramTrace objects to simulate processes sharing a file.
+ */
+export class MemoryStorage implements StorageAdapter {
+  readonly location = 'memory';
+  private brain: StoredBrain = { memories: [], meta: {}, generation: 0 };
+  private chain: Promise<unknown> = Promise.resolve();
+
+  async load(): Promise<StoredBrain> {
+    return structuredClone(this.brain);
+  }
+
+  async save(brain: StoredBrain): Promise<void> {
+    const { memories, meta, generation } = brain;
+    this.brain = structuredClone({ memories, meta, generation });
+  }
+
+  async append(record: JournalRecord): Promise<void> {
+    this.brain.memories = replayJournal(this.brain.memories, [structuredClone(record)]);
+  }
+
+  async delete(): Promise<void> {
+    this.brain = { memories: [], meta: {}, generation: 0 };
+  }
+
+  lock<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.chain.then(fn);
+    this.chain = next.catch(() => {});
+    return next;
+  }
+
+  async hasChanges(): Promise<boolean> {
+    // Possibly shared between instances, and merging in memory is cheap
+    return true;
+  }
+
+  sizeBytes(): number {
+    return 0;
+  }
+}
+
+// =============================================================================
+// Sharded Directory Storage
+// =============================================================================
+
+export interface ShardedStorageOptions extends FileStorageOptions {
+  /** Split by memory tier or by creation month (YYYY-MM). Default: 'tier' */
+  shardBy?: 'tier' | 'month';
+}
+
+const MANIFEST_FORMAT = 'engram-trace-shards';
+
+/**
+ * A directory holding one .engram file per shard plus a manifest with the
+ * generation, trace bookkeeping and encryption header:
+ *
+ *   brain/
+ *     manifest.json
+ *     hot.engram  warm.engram ...      (or 2026-01.engram, 2026-02.engram ...)
+ *     trace.journal  trace.lock
+ *
+ * Saves rewrite only shards whose contents changed, those that gain
+ * memories first, and commit by writing the manifest last.
+ */
+export class ShardedStorage implements StorageAdapter {
+  readonly location: string;
+  private dir: string;
+  private shardBy: 'tier' | 'month';
+  private backups: number;
+  private onCorrupt: 'restore' | 'throw';
+  private encryption: EncryptionConfig | null;
+  private cipher: FileCipher | null = null;
+  private journal: Journal | null;
+  private fileLock: FileLock | null;
+  /** Content hash per shard as last read/written, to skip unchanged shards */
+  private fingerprints: Map<string, string> = new Map();
+  /** Shard each memory was in as last read/written, to order saves */
+  private placement: Map<string, string> = new Map();
+  private manifestStamp: DiskStamp | null = null;
+  /** The manifest as of our last check that it still uses our key */
+  private keyStamp: DiskStamp | null = null;
+  private lastRecovery: RecoveryReport | null = null;
+  private log: (msg: string) => void;
+
+  constructor(dir: string, options: ShardedStorageOptions = {}) {
+    this.dir = dir;
+    this.location = dir;
+    this.shardBy = options.shardBy ?? 'tier';
+    this.backups = options.backups ?? 2;
+    this.onCorrupt = options.onCorrupt ?? 'restore';
+    this.encryption = options.encryption ?? null;
+    this.journal = options.journal === false ? null : new Journal(join(dir, 'trace.journal'), () => this.cipher);
+    this.fileLock = options.lock === false ? null : new FileLock(join(dir, 'trace.lock'), options.lock);
+    this.log = options.log ?? (() => {});
+  }
+
+  async load(): Promise<StoredBrain> {
+    await mkdir(this.dir, { recursive: true });
+
+    const manifest = await this.readManifest();
+    this.cipher = await openCipher(manifest?.security, this.encryption, this.cipher, this.manifestPath());
+
+    const byId = new Map<string, { memory: Memory; shard: string; generation: number }>();
+    const brain: StoredBrain = { memories: [], meta: manifest?.meta ?? {}, generation: manifest?.generation ?? 0 };
+    this.fingerprints.clear();
+
+    for (const shard of await this.shardNames()) {
+      const { file, report } = await readWithRecovery(this.shardPath(shard), {
+        backups: this.backups,
+        onCorrupt: this.onCorrupt,
+        resolveCipher: async security => {
+          if (security?.encrypted && !this.cipher) {
+            throw new EncryptionError(`${this.shardPath(shard)} is encrypted but no \`encryption\` config was provided`);
+          }
+          return security?.encrypted ? this.cipher : null;
+        },
+        log: this.log,
+      });
+      if (report) {
+        this.lastRecovery = report;
+        brain.needsSave = true;
+      } else {
+        this.fingerprints.set(shard, fingerprint(file.memories));
+      }
+      // A crash mid-save can leave a memory that moved in two shards: the
+      // shard it moved to was written first, and with a newer generation
+      for (const m of file.memories) {
+        const seen = byId.get(m.id);
+        if (!seen || file.generation >= seen.generation) byId.set(m.id, { memory: m, shard, generation: file.generation });
+      }
+    }
+    brain.memories = [...byId.values()].map(e => e.memory);
+    this.placement = new Map([...byId].map(([id, e]) => [id, e.shard]));
+
+    if (this.journal) await replayInto(brain, this.journal, this.log);
+
+    if (this.encryption && !this.cipher) {
+      this.cipher = await FileCipher.create(this.encryption);
+      this.fingerprints.clear();
+      brain.needsSave = true;
+    }
+
+    this.manifestStamp = stampOf(this.manifestPath());
+    this.keyStamp = this.manifestStamp;
+    return brain;
+  }
+
+  async save(brain: StoredBrain): Promise<void> {
+    const shards = new Map<string, Memory[]>();
+    for (const m of brain.memories) {
+      const key = this.shardOf(m);
+      const list = shards.get(key);
+      if (list) list.push(m);
+      else shards.set(key, [m]);
+    }
+
+    await this.journal?.checkpoint(brain.generation);
+    const fingerprints = new Map<string, string>();
+    const changed: string[] = [];
+    for (const [shard, memories] of shards) {
+      const fp = fingerprint(memories);
+      fingerprints.set(shard, fp);
+      if (fp !== this.fingerprints.get(shard) || !existsSync(this.shardPath(shard))) changed.push(shard);
+    }
+
+    // Shards that gain memories go first: a crash part-way leaves a moved
+    // memory in both shards (load keeps the newer copy), never in neither
+    const gaining = new Set(changed.filter(shard => shards.get(shard)!.some(m => this.placement.get(m.id) !== shard)));
+    changed.sort((a, b) => Number(gaining.has(b)) - Number(gaining.has(a)));
+    for (const shard of changed) {
+      await writeBrainFile(this.shardPath(shard), { memories: shards.get(shard)!, generation: brain.generation, meta: {} }, this.cipher, {
+        backups: this.backups,
+        log: this.log,
+      });
+    }
+
+    // Emptied shards go before the manifest commits, so none is left to
+    // bring back memories forgotten since
+    for (const shard of await this.shardNames()) {
+      if (shards.has(shard)) continue;
+      await rm(this.shardPath(shard), { force: true });
+      for (let i = 1; i <= this.backups; i++) await rm(backupPath(this.shardPath(shard), i), { force: true });
+    }
+
+    const manifest = {
+      version: 1,
+      format: MANIFEST_FORMAT,
+      generation: brain.generation,
+      shardBy: this.shardBy,
+      shards: [...shards.keys()],
+      trace: brain.meta,
+      security: this.cipher?.descriptor ?? PLAINTEXT_DESCRIPTOR,
+    };
+    await writeAtomic(this.manifestPath(), 0, tmp => writeFile(tmp, JSON.stringify(manifest, null, 2)));
+
+    await this.journal?.truncate();
+    this.fingerprints = fingerprints;
+    this.placement = new Map(brain.memories.map(m => [m.id, this.shardOf(m)]));
+    this.manifestStamp = stampOf(this.manifestPath());
+    this.keyStamp = this.manifestStamp;
+    this.log(`Saved ${brain.memories.length} memories to ${this.dir} (${changed.length}/${shards.size} shards rewritten)`);
+  }
+
+  async append(record: JournalRecord): Promise<void> {
+    if (!this.journal) return;
+    // Another process may have rotated the key since we last read the manifest
+    const stamp = stampOf(this.manifestPath());
+    if (stamp && !sameStamp(stamp, this.keyStamp)) {
+      const manifest = await this.readManifest();
+      this.cipher = await checkKey(manifest?.security, this.encryption, this.cipher, this.manifestPath());
+      this.keyStamp = stamp;
+    }
+    await this.journal.append(record);
+  }
+
+  async delete(): Promise<void> {
+    await this.journal?.truncate();
+    for (const shard of await this.shardNames()) {
+      await rm(this.shardPath(shard), { force: true });
+      for (let i = 1; i <= this.backups; i++) await rm(backupPath(this.shardPath(shard), i), { force: true });
+    }
+    await rm(this.manifestPath(), { force: true });
+    this.fingerprints.clear();
+    this.placement.clear();
+    this.manifestStamp = null;
+  }
+
+  lock<T>(fn: () => Promise<T>): Promise<T> {
+    return this.fileLock ? this.fileLock.run(fn) : fn();
+  }
+
+  async hasChanges(): Promise<boolean> {
+    if (!sameStamp(stampOf(this.manifestPath()), this.manifestStamp)) return true;
+    return this.journal ? this.journal.changed() : false;
+  }
+
+  async setEncryption(encryption: EncryptionConfig | null, brain: StoredBrain): Promise<void> {
+    const previous = { encryption: this.encryption, cipher: this.cipher, fingerprints: this.fingerprints };
+    const cipher = encryption ? await FileCipher.create(encryption) : null;
+    this.encryption = encryption;
+    this.cipher = cipher;
+    // Every shard must be rewritten under the new key
+    this.fingerprints = new Map();
+    try {
+      await this.save(brain);
+    } catch (e) {
+      this.encryption = previous.encryption;
+      this.cipher = previous.cipher;
+      // Shards already rewritten no longer match: rewrite them all next time
+      this.fingerprints = new Map();
+      throw e;
+    }
+  }
+
+  recoveryReport(): RecoveryReport | null {
+    return this.lastRecovery;
+  }
+
+  sizeBytes(): number {
+    let total = 0;
+    for (const shard of this.fingerprints.keys()) {
+      try {
+        total += statSync(this.shardPath(shard)).size;
+      } catch {}
+    }
+    return total;
+  }
+
+  private shardOf(m: Memory): string {
+    return this.shardBy === 'month' ? m.createdAt.slice(0, 7) : m.tier;
+  }
+
+  private async shardNames(): Promise<string[]> {
+    const entries = await readdir(this.dir);
+    return entries.filter(f => f.endsWith('.engram')).map(f => f.slice(0, -'.engram'.length));
+  }
+
+  private shardPath(shard: string): string {
+    return join(this.dir, `${shard}.engram`);
+  }
+
+  private manifestPath(): string {
+    return join(this.dir, 'manifest.json');
+  }
+
+  private async readManifest(): Promise<{ generation: number; meta: Partial<TraceMeta>; security?: SecurityDescriptor } | null> {
+    if (!existsSync(this.manifestPath())) return null;
+    const data = JSON.parse(await readFile(this.manifestPath(), 'utf8'));
+    if (data?.format !== MANIFEST_FORMAT) throw new Error(`${this.manifestPath()} is not a ${MANIFEST_FORMAT} manifest`);
+    return { generation: Number(data.generation) || 0, meta: data.trace ?? {}, security: data.security };
+  }
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+export function createStorage(config: TraceConfig, log?: (msg: string) => void): StorageAdapter {
+  const storage = config.storage;
+  if (storage && 'load' in storage) return storage;
+
+  const concurrency = config.concurrency ?? {};
+  const options: FileStorageOptions = {
+    backups: config.backups,
+    onCorrupt: config.onCorrupt,
+    journal: config.journal !== false,
+    encryption: config.encryption,
+    lock: concurrency.lock === false ? false : { timeoutMs: concurrency.lockTimeoutMs, staleMs: concurrency.staleLockMs },
+    log,
+  };
+
+  const type = storage?.type ?? 'file';
+  switch (type) {
+    case 'file': return new EngramFileStorage(config.file, options);
+    case 'memory': return new MemoryStorage();
+    case 'sharded': return new ShardedStorage(config.file, { ...options, shardBy: storage?.shardBy });
+    default: throw new Error(`Unknown storage type: ${type}`);
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+interface DiskStamp {
+  mtimeMs: number;
+  size: number;
+}
+
+function stampOf(path: string): DiskStamp | null {
+  try {
+    const { mtimeMs, size } = statSync(path);
+    return { mtimeMs, size };
+  } catch {
+    return null;
+  }
+}
+
+function sameStamp(a: DiskStamp | null, b: DiskStamp | null): boolean {
+  if (!a || !b) return a === b;
+  return a.mtimeMs === b.mtimeMs && a.size === b.size;
+}
+
+/**
+ * Cipher for a header security block: reuse the current one if the salt and
+ * key check match (avoids re-running argon2 on every merge), else open it.
+ * Plaintext headers keep the current cipher (encrypt-on-next-save).
+ */
+async function openCipher(
+  security: Partial<SecurityDescriptor> | undefined,
+  encryption: EncryptionConfig | null,
+  current: FileCipher | null,
+  path: string,
+): Promise<FileCipher | null> {
+  if (!security?.encrypted) return current;
+
+  if (!encryption) {
+    throw new EncryptionError(`${path} is encrypted but no \`encryption\` config was provided`);
+  }
+  if (current && current.descriptor.salt === security.salt && current.descriptor.keyCheck === security.keyCheck) {
+    return current;
+  }
+  return FileCipher.open(encryption, security as SecurityDescriptor);
+}
+
+/**
+ * The cipher to journal with under a header another process may have
+ * rewritten: ours if the key is unchanged, the header's if our config opens
+ * it (same passphrase, new salt). Throws EncryptionError if the key was
+ * rotated to one we don't have, or encryption was removed, rather than
+ * append records nobody can read alongside the rest.
+ */
+async function checkKey(
+  security: Partial<SecurityDescriptor> | undefined,
+  encryption: EncryptionConfig | null,
+  current: FileCipher | null,
+  path: string,
+): Promise<FileCipher | null> {
+  if (!security?.encrypted) {
+    if (current) throw new EncryptionError(`${path} was decrypted by another process; reopen it without \`encryption\``);
+    return null;
+  }
+  try {
+    return await openCipher(security, encryption, current, path);
+  } catch (e) {
+    if (!(e instanceof EncryptionError)) throw e;
+    throw new EncryptionError(`${path} was re-keyed by another process and the configured key does not open it: ${e.message}`);
+  }
+}
+
+/**
+ * Apply the journal on top of a loaded brain.
+ */
+async function replayInto(brain: StoredBrain, journal: Journal, log: (msg: string) => void): Promise<void> {
+  const { records, skipped } = await journal.read(brain.generation);
+  if (skipped > 0) log(`Skipped ${skipped} unreadable journal lines in ${journal.path}`);
+  if (records.length === 0) return;
+
+  brain.memories = replayJournal(brain.memories, records);
+  brain.journalRecords = records.length;
+  brain.journalStores = records.filter(r => r.op === 'store').length;
+  log(`Replayed ${records.length} journal records from ${journal.path}`);
+}
+
+/**
+ * Read a file; if it is corrupt, try backups newest-first. On success the
+ * corrupt file is moved aside (so it never rotates into the backups) and a
+ * report is returned; otherwise CorruptFileError carries the full report.
+ * Only a malformed file counts as corrupt. I/O errors (EACCES, EMFILE, ...)
+ * and encryption errors are rethrown as-is: a file that can't be read right
+ * now, or a wrong key, must never be quarantined or degrade into an empty
+ * brain.
+ */
+async function readWithRecovery(
+  path: string,
+  options: {
+    backups: number;
+    onCorrupt: 'restore' | 'throw';
+    resolveCipher: (security: Partial<SecurityDescriptor> | undefined) => Promise<FileCipher | null>;
+    log: (msg: string) => void;
+  },
+): Promise<{ file: BrainFile; report: RecoveryReport | null }> {
+  let cause: unknown;
+  try {
+    return { file: await readBrainFile(path, options.resolveCipher), report: null };
+  } catch (e) {
+    if (!(e instanceof MalformedFileError)) throw e;
+    cause = e;
+  }
+
+  const report: RecoveryReport = {
+    timestamp: new Date().toISOString(),
+    file: path,
+    error: String(cause instanceof Error ? cause.message : cause),
+    quarantinedTo: null,
+    attempts: [],
+    restoredFrom: null,
+    memoriesRecovered: 0,
+  };
+  options.log(`Failed to load ${path}: ${report.error}`);
+
+  let restored: BrainFile | null = null;
+  if (options.onCorrupt === 'restore') {
+    for (let i = 1; i <= options.backups; i++) {
+      const backup = backupPath(path, i);
+      if (!existsSync(backup)) continue;
+      try {
+        restored = await readBrainFile(backup, options.resolveCipher);
+        report.attempts.push({ file: backup });
+        report.restoredFrom = backup;
+        report.memoriesRecovered = restored.memories.length;
+        break;
+      } catch (e) {
+        report.attempts.push({ file: backup, error: String(e instanceof Error ? e.message : e) });
+      }
+    }
+  }
+
+  if (!restored) {
+    throw new CorruptFileError(
+      `${path} is unreadable and no backup could be restored (${report.attempts.length} tried)`,
+      report,
+      { cause },
+    );
+  }
+
+  // Keep the corrupt file for inspection
+  const quarantine = `${path}.corrupt-${Date.now()}`;
+  await rename(path, quarantine);
+  report.quarantinedTo = quarantine;
+  options.log(`Recovered ${report.memoriesRecovered} memories from ${report.restoredFrom}`);
+  return { file: restored, report };
+}
+
+/** Content hash of a shard, embeddings included. */
+function fingerprint(memories: Memory[]): string {
+  const hash = createHash('sha1');
+  for (const m of memories) {
+    hash.update(JSON.stringify({ ...m, embedding: encodeEmbedding(m.embedding) }));
+  }
+  return hash.digest('hex');
+}
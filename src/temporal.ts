@@ -0,0 +1,157 @@
+/**
+ * Engram Trace — Time
+ *
+ * Date filters, continuous recency decay, and relative-time phrases
+ * ("yesterday", "last month", "in the past 3 days") read out of a query.
+ * Calendar periods use the local time zone; weeks start on Monday.
+ */
+
+const DAY_MS = 86_400_000;
+
+export interface TimeRange {
+  /** Inclusive */
+  since?: Date;
+  /** Exclusive */
+  until?: Date;
+}
+
+export interface ParsedTimeQuery extends TimeRange {
+  /** The query with the time phrase removed */
+  query: string;
+  /** The phrase that was recognized */
+  phrase: string;
+}
+
+type Unit = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+const NUMBERS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  couple: 2, few: 3,
+};
+
+const COUNT = `(\\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten|a couple of|a few)`;
+const UNIT = `(hour|day|week|month|year)s?`;
+// Prepositions that belong to the phrase ("what changed *in the* last week")
+const LEAD = `(?:(?:in|during|over|within|from)\\s+)?(?:the\\s+)?`;
+
+const PATTERNS: Array<{ pattern: RegExp; range: (match: RegExpMatchArray, now: Date) => TimeRange }> = [
+  {
+    pattern: new RegExp(`\\b${LEAD}(?:last|past)\\s+${COUNT}\\s+${UNIT}\\b`, 'i'),
+    range: (m, now) => ({ since: shift(now, m[2].toLowerCase() as Unit, -count(m[1])) }),
+  },
+  {
+    pattern: new RegExp(`\\b${COUNT}\\s+${UNIT}\\s+ago\\b`, 'i'),
+    range: (m, now) => {
+      const unit = m[2].toLowerCase() as Unit;
+      const since = startOf(shift(now, unit, -count(m[1])), unit);
+      return { since, until: shift(since, unit, 1) };
+    },
+  },
+  {
+    pattern: new RegExp(`\\b${LEAD}past\\s+${UNIT}\\b`, 'i'),
+    range: (m, now) => ({ since: shift(now, m[1].toLowerCase() as Unit, -1) }),
+  },
+  {
+    pattern: new RegExp(`\\b${LEAD}(?:last|previous)\\s+(week|month|year)\\b`, 'i'),
+    range: (m, now) => {
+      const unit = m[1].toLowerCase() as Unit;
+      const until = startOf(now, unit);
+      return { since: shift(until, unit, -1), until };
+    },
+  },
+  {
+    pattern: new RegExp(`\\b${LEAD}this\\s+(week|month|year)\\b`, 'i'),
+    range: (m, now) => ({ since: startOf(now, m[1].toLowerCase() as Unit) }),
+  },
+  {
+    pattern: /\b(?:(?:earlier|later)\s+)?today\b/i,
+    range: (_, now) => ({ since: startOf(now, 'day') }),
+  },
+  {
+    pattern: /\byesterday\b/i,
+    range: (_, now) => {
+      const until = startOf(now, 'day');
+      return { since: shift(until, 'day', -1), until };
+    },
+  },
+];
+
+// =============================================================================
+// Relative-time Phrases
+// =============================================================================
+
+/**
+ * The first relative-time phrase in `query` as a time range, with the phrase
+ * cut out of the query; null when there is none.
+ */
+export function parseTimePhrase(query: string, now: Date = new Date()): ParsedTimeQuery | null {
+  for (const { pattern, range } of PATTERNS) {
+    const match = query.match(pattern);
+    if (!match) continue;
+
+    const rest = (query.slice(0, match.index) + ' ' + query.slice(match.index! + match[0].length))
+      .replace(/\s+([?.!,])/g, '$1')
+      .replace(/\s+/g, ' ')
+      .trim();
+    return { ...range(match, now), query: rest, phrase: match[0].trim() };
+  }
+  return null;
+}
+
+// =============================================================================
+// Filters and Decay
+// =============================================================================
+
+/** A since/until option as a Date */
+export function toDate(value: Date | string, name: string): Date {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid ${name} date: ${String(value)}`);
+  return date;
+}
+
+export function inRange(timestamp: string, range: TimeRange): boolean {
+  const t = Date.parse(timestamp);
+  return (!range.since || t >= range.since.getTime()) && (!range.until || t < range.until.getTime());
+}
+
+/**
+ * Score multiplier for something `ageMs` old: halves every `halfLifeDays`,
+ * from 1 when new down towards `floor`.
+ */
+export function recencyFactor(ageMs: number, halfLifeDays: number, floor = 0): number {
+  const decay = Math.pow(0.5, Math.max(0, ageMs) / (halfLifeDays * DAY_MS));
+  return floor + (1 - floor) * decay;
+}
+
+// =============================================================================
+// Internal
+// =============================================================================
+
+function count(word: string): number {
+  const w = word.toLowerCase().replace(/\s+of$/, '').replace(/^a\s+/, '');
+  return NUMBERS[w] ?? Number(w);
+}
+
+function startOf(date: Date, unit: Unit): Date {
+  const d = new Date(date);
+  switch (unit) {
+    case 'year': d.setMonth(0, 1); d.setHours(0, 0, 0, 0); break;
+    case 'month': d.setDate(1); d.setHours(0, 0, 0, 0); break;
+    case 'week': d.setDate(d.getDate() - (d.getDay() + 6) % 7); d.setHours(0, 0, 0, 0); break;
+    case 'day': d.setHours(0, 0, 0, 0); break;
+    case 'hour': d.setMinutes(0, 0, 0); break;
+  }
+  return d;
+}
+
+function shift(date: Date, unit: Unit, amount: number): Date {
+  const d = new Date(date);
+  switch (unit) {
+    case 'year': d.setFullYear(d.getFullYear() + amount); break;
+    case 'month': d.setMonth(d.getMonth() + amount); break;
+    case 'week': d.setDate(d.getDate() + 7 * amount); break;
+    case 'day': d.setDate(d.getDate() + amount); break;
+    case 'hour': d.setHours(d.getHours() + amount); break;
+  }
+  return d;
+}
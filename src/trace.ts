@@ -4,9 +4,10 @@
  * The primary API surface. Wraps an .engram file with autonomous
  * memory intelligence: auto-remember, auto-curate, semantic recall.
  */
-import { existsSync, statSync } from 'node:fs';
-import { dirname } from 'node:path';
-import { mkdir } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { createHash } from 'node:crypto';
 
 import type {
   TraceConfig,
@@ -18,23 +19,121 @@ import type {
   TraceStats,
   BootstrapContext,
   ConsolidationReport,
+  RecoveryReport,
+  ReembedOptions,
+  ReembedReport,
   Embedder,
   LLM,
   AutoRememberConfig,
   ConsolidateConfig,
+  EncryptionConfig,
+  StorageAdapter,
+  StoredBrain,
+  TraceMeta,
+  JournalRecord,
+  ExportFormat,
+  ImportOptions,
+  ImportReport,
+  MergeOptions,
+  MergeReport,
+  DiffOptions,
+  BrainDiff,
+  SnapshotConfig,
+  SnapshotInfo,
+  MountConfig,
+  MemoryScope,
+  ForgetOptions,
+  BootstrapOptions,
+  ProcessOptions,
+  IndexConfig,
+  RecallDefaults,
+  Ranker,
+  RankingSignals,
+  MemoryFilter,
+  FindOptions,
+  ExportOptions,
+  ContextSection,
+  BuildContextOptions,
+  BuiltContext,
+  TokenCounter,
+  BootstrapProfile,
+  BootstrapSectionResult,
+  ConversationTurn,
+  TurnRecallOptions,
+  Reranker,
+  RerankConfig,
+  ExpandOptions,
+  LinkType,
+  MemoryLink,
+  LinkEdge,
+  LinkQuery,
+  Entity,
+  EntityExtractor,
+  EntityMention,
+  EntityQuery,
 } from './types.js';
 import { MemoryTier as Tier } from './types.js';
 import { createEmbedder } from './embedder.js';
 import { createLLM } from './llm.js';
 import { Classifier, type ClassificationResult } from './classifier.js';
 import { Consolidator } from './consolidator.js';
+import { EngramTraceError, EmbedderMismatchError } from './errors.js';
+import { createStorage, EngramFileStorage } from './storage.js';
+import { writeAtomic } from './engram-file.js';
+import { serializeMemories, parseMemories, normalizeTier } from './interchange.js';
+import { mergeMemories } from './merge.js';
+import { diffMemories } from './diff.js';
+import { SnapshotStore, defaultSnapshotDir } from './snapshots.js';
+import { visibleTo, inScope, scopeKey, resolveScope } from './scope.js';
+import { HnswIndex, defaultIndexFile } from './hnsw.js';
+import { Bm25Index, fuseScores, keywords, tokenize, type FuseOptions } from './lexical.js';
+import { collapseNearDuplicates, selectMmr } from './diversity.js';
+import { parseTimePhrase, toDate, inRange, type TimeRange } from './temporal.js';
+import { compileFilter, matchesEverything } from './filter.js';
+import { createRanker } from './ranker.js';
+import { packContext, estimateTokens } from './context.js';
+import { createReranker } from './reranker.js';
+import { LinkGraph, LINK_TYPES, isLinkType, withLink } from './links.js';
+import { turnQueries, combinedTurnQuery, fuseWeightedResults, clip } from './conversation.js';
+import { EntityIndex, createEntityExtractor, extractEntities, isEntityType, withKnownNames } from './entities.js';
+import { cosineSimilarity } from './similarity.js';
+
+interface EmbedderIdentity {
+  model: string;
+  dims: number;
+}
+
+/** A read-only brain loaded from a MountConfig */
+interface Mount {
+  label: string;
+  file: string;
+  weight: number;
+  memories: Memory[];
+  index: HnswIndex | null;
+  byId: Map<string, Memory>;
+  /** Built on the first hybrid recall */
+  lexical: Bm25Index | null;
+}
+
+/** Nearest neighbours fetched from the index per recall, per `limit` */
+const RECALL_POOL_FACTOR = 10;
+
+const DAY_MS = 86_400_000;
+
+/** The bootstrap() queries, also buildContext()'s default sections */
+const BOOTSTRAP_SECTIONS: Array<ContextSection & { query: string }> = [
+  { name: 'identity', query: 'who am I, who is my user, my identity and role' },
+  { name: 'priorities', query: 'active projects, current priorities, what am I working on' },
+  { name: 'decisions', query: 'recent decisions, key choices, open blockers' },
+  { name: 'preferences', query: 'user preferences, communication style, important rules' },
+];
 
 // =============================================================================
 // Engram Trace
 // =============================================================================
 
 export class EngramTrace {
-  private file: string;
+  private storage: StorageAdapter;
   private embedder: Embedder;
   private llm: LLM | null;
   private classifier: Classifier;
@@ -45,8 +144,53 @@ export class EngramTrace {
   private dirty = false;
   private writesSinceConsolidation = 0;
   private lastConsolidation: string | null = null;
-  private consolidateTimer: ReturnType<typeof setInterval> | null = null;
+  private consolidateTimer: ReturnType<typeof setTimeout> | null = null;
   private debug: boolean;
+  private journaled: boolean;
+  /** Journal records since the last full save */
+  private journalPending = 0;
+  private compactEvery: number;
+  private onConflict: 'merge' | 'overwrite';
+  private generation = 0;
+  /** Ids stored at the last load/save, plus ids created since (for 3-way merge) */
+  /** Each memory's version (see versionOf) as of the last load/save */
+  private syncedVersions: Map<string, string> = new Map();
+  private createdIds: Set<string> = new Set();
+  private onEmbedderMismatch: 'throw' | 'warn' | 'reembed';
+  /** Model the stored embeddings came from (null: new file, use the embedder) */
+  private storedEmbedder: EmbedderIdentity | null = null;
+  private reembedState: { model: string; dims: number; completed: Set<string> } | null = null;
+  private snapshots: SnapshotStore | null;
+  private snapshotConfig: SnapshotConfig;
+  private mountConfigs: MountConfig[];
+  private mounts: Mount[] = [];
+  private defaultScope: MemoryScope;
+  private indexConfig: IndexConfig | null;
+  private indexFile: string | null;
+  private index: HnswIndex | null = null;
+  /** The memories array the index was last brought in step with */
+  private indexedMemories: Memory[] | null = null;
+  private memoryById: Map<string, Memory> = new Map();
+  private indexPersisted = -1;
+  private recallDefaults: RecallDefaults;
+  private ranker: Ranker;
+  private rerankConfig: RerankConfig | null;
+  /** Without a rerank config, created on the first `rerank: true` */
+  private reranker: Reranker | null;
+  /** Null with `entities: false` */
+  private entityExtractor: EntityExtractor | null;
+  private entityAliases: Record<string, string[]>;
+  private tokenCounter: TokenCounter;
+  private bootstrapProfiles: Record<string, BootstrapProfile>;
+  /** Recent process()ed turns by user/agent */
+  private conversations: Map<string, ConversationTurn[]> = new Map();
+  private conversationWindow: number;
+  private maxConversations: number;
+  private maxTurnChars: number;
+  private lexical: Bm25Index | null = null;
+  /** The memories array the lexical index was last brought in step with */
+  private lexicalMemories: Memory[] | null = null;
+  private lexicalById: Map<string, Memory> = new Map();
 
   // Config
   private autoRememberEnabled: boolean;
@@ -57,12 +201,51 @@ export class EngramTrace {
   private maxMemories: number;
 
   constructor(config: TraceConfig) {
-    this.file = config.file;
     this.debug = config.debug ?? false;
 
+    // Persistence backend (journal, lock, backups and encryption live there)
+    this.storage = createStorage(config, msg => this.log(msg));
+
+    // Write-ahead journal config
+    const journalConfig = typeof config.journal === 'object' ? config.journal : {};
+    this.journaled = config.journal !== false;
+    this.compactEvery = journalConfig.compactEvery ?? 500;
+
+    // Multi-process config
+    this.onConflict = config.concurrency?.onConflict ?? 'merge';
+
+    // Point-in-time snapshots
+    this.snapshotConfig = config.snapshots === false ? {} : config.snapshots ?? {};
+    this.snapshots = config.snapshots === false ? null : new SnapshotStore(
+      this.snapshotConfig.dir ?? defaultSnapshotDir(config),
+      { encryption: config.encryption, log: msg => this.log(msg) },
+    );
+    this.onEmbedderMismatch = config.onEmbedderMismatch ?? 'throw';
+
+    // Shared brains, searched alongside ours but never written
+    this.mountConfigs = config.mounts ?? [];
+    this.defaultScope = config.scope ?? {};
+
+    // Approximate nearest-neighbour index
+    this.indexConfig = config.index === false ? null : config.index ?? {};
+    this.indexFile = this.indexConfig ? this.indexConfig.file ?? defaultIndexFile(config) : null;
+
+    // Recall: option defaults (a call's own options win) and scoring
+    this.recallDefaults = config.recall ?? {};
+    this.ranker = createRanker(config.ranker);
+    this.rerankConfig = config.rerank ?? null;
+    this.tokenCounter = config.tokenCounter ?? estimateTokens;
+    this.bootstrapProfiles = config.bootstrapProfiles ?? {};
+    this.conversationWindow = config.conversation?.window ?? 6;
+    this.maxConversations = config.conversation?.maxConversations ?? 1000;
+    this.maxTurnChars = config.conversation?.maxTurnChars ?? 2000;
+
     // Providers
     this.embedder = createEmbedder(config.embedder);
     this.llm = createLLM(config.llm);
+    this.reranker = config.rerank ? createReranker(config.rerank, this.llm) : null;
+    this.entityExtractor = config.entities === false ? null : createEntityExtractor(config.entities ?? {}, this.llm);
+    this.entityAliases = config.entities ? config.entities.aliases ?? {} : {};
 
     // Auto-remember config
     if (typeof config.autoRemember === 'boolean') {
@@ -114,28 +297,139 @@ export class EngramTrace {
   async init(): Promise<void> {
     if (this.initialized) return;
 
-    // Ensure directory exists
-    const dir = dirname(this.file);
-    await mkdir(dir, { recursive: true });
+    const brain = await this.storage.load();
+    this.memories = brain.memories;
+    this.generation = brain.generation;
+    this.applyMeta(brain.meta);
+    if (brain.journalRecords) {
+      this.journalPending = brain.journalRecords;
+      this.writesSinceConsolidation += brain.journalStores ?? 0;
+      this.dirty = true;
+    }
+    this.markSynced();
+    this.log(`Loaded ${this.memories.length} memories from ${this.storage.location}`);
 
-    if (existsSync(this.file)) {
-      await this.load();
+    const mismatch = this.checkEmbedder();
+    await this.loadMounts();
+    if (brain.needsSave) {
+      // Restored from a backup, or encryption was just set up
+      this.dirty = true;
+      await this.save();
     }
 
     // Start auto-consolidation timer
     if (this.autoConsolidateEnabled && this.consolidateConfig.intervalMs !== 0) {
-      const interval = this.consolidateConfig.intervalMs ?? 6 * 60 * 60 * 1000;
-      this.consolidateTimer = setInterval(() => {
-        this.consolidate().catch(e => {
-          if (this.debug) console.error('[engram-trace] Auto-consolidation failed:', e);
-        });
-      }, interval);
+      this.scheduleConsolidation();
+    }
+
+    this.initialized = true;
+    this.log(`Initialized: ${this.memories.length} memories from ${this.storage.location}`);
+
+    if (mismatch && this.onEmbedderMismatch === 'reembed') {
+      await this.reembed();
+    }
+  }
+
+  /**
+   * Interval consolidation, resuming the schedule persisted in the file:
+   * the first run is due `intervalMs` after the last consolidation, not
+   * after this process started.
+   */
+  private scheduleConsolidation(): void {
+    const interval = this.consolidateConfig.intervalMs ?? 6 * 60 * 60 * 1000;
+    const since = this.lastConsolidation ? Date.now() - new Date(this.lastConsolidation).getTime() : 0;
+    const firstDelay = Math.max(0, interval - since);
+
+    const run = () => {
+      this.consolidate().catch(e => {
+        if (this.debug) console.error('[engram-trace] Auto-consolidation failed:', e);
+      });
+    };
+
+    this.consolidateTimer = setTimeout(() => {
+      run();
+      this.consolidateTimer = setInterval(run, interval);
       // Don't block process exit
       if (this.consolidateTimer.unref) this.consolidateTimer.unref();
+    }, firstDelay);
+    if (this.consolidateTimer.unref) this.consolidateTimer.unref();
+  }
+
+  /**
+   * Compare the file's embedding model with the configured embedder.
+   * Returns true on a mismatch the caller chose to tolerate or migrate.
+   */
+  private checkEmbedder(): boolean {
+    const current = this.currentEmbedder();
+    if (!this.storedEmbedder || this.storedEmbedder.model === current.model) return false;
+
+    // Nothing stored under the old model: just adopt the new one
+    if (this.memories.length === 0) {
+      this.storedEmbedder = null;
+      this.reembedState = null;
+      return false;
     }
 
-    this.initialized = true;
-    this.log(`Initialized: ${this.memories.length} memories from ${this.file}`);
+    // An interrupted migration to this very embedder: reembed() resumes it
+    if (this.reembedState?.model === current.model) {
+      this.log(`Re-embedding to ${current.model} is incomplete (${this.reembedState.completed.size}/${this.memories.length}); call reembed() to resume`);
+      return true;
+    }
+
+    if (this.onEmbedderMismatch === 'throw') {
+      throw new EmbedderMismatchError(this.storedEmbedder.model, current.model);
+    }
+    if (this.onEmbedderMismatch === 'warn') {
+      console.warn(`[engram-trace] ${new EmbedderMismatchError(this.storedEmbedder.model, current.model).message}`);
+    }
+    return true;
+  }
+
+  /**
+   * Read every mounted brain into memory. Mounts are opened without a lock
+   * and never saved, so nothing here can modify them.
+   */
+  private async loadMounts(): Promise<void> {
+    const current = this.currentEmbedder();
+    const labels = new Set<string>(['private']);
+
+    this.mounts = [];
+    for (const config of this.mountConfigs) {
+      const label = config.label ?? basename(config.file, extname(config.file));
+      if (labels.has(label)) throw new EngramTraceError(`Duplicate mount label "${label}" (${config.file})`);
+      labels.add(label);
+
+      const brain = await EngramTrace.readBrain(config.file, config.encryption);
+      const dims = brain.memories[0]?.embedding.length ?? current.dims;
+      if ((brain.embedder && brain.embedder.model !== current.model) || dims !== current.dims) {
+        throw new EngramTraceError(
+          `Mount "${label}" (${config.file}) was embedded with "${brain.embedder?.model ?? `${dims} dims`}" ` +
+          `but the embedder is "${current.model}"; mounted brains are read-only and can't be re-embedded`,
+        );
+      }
+
+      // Use the mount's persisted index if it has one; never write one for it
+      let index: HnswIndex | null = null;
+      if (this.indexConfig && brain.memories.length >= (this.indexConfig.minSize ?? 2000)) {
+        index = await this.openIndex(`${config.file}.hnsw`, brain.memories);
+        EngramTrace.syncIndex(index, brain.memories);
+      }
+
+      this.mounts.push({
+        label,
+        file: config.file,
+        weight: config.weight ?? 1,
+        memories: brain.memories,
+        index,
+        byId: new Map(brain.memories.map(m => [m.id, m])),
+        lexical: null,
+      });
+      this.log(`Mounted ${brain.memories.length} memories from ${config.file} as "${label}"`);
+    }
+  }
+
+  private currentEmbedder(): EmbedderIdentity {
+    return { model: this.embedder.model ?? 'unknown', dims: this.embedder.dims };
   }
 
   /**
@@ -143,12 +437,13 @@ export class EngramTrace {
    */
   async close(): Promise<void> {
     if (this.consolidateTimer) {
-      clearInterval(this.consolidateTimer);
+      clearTimeout(this.consolidateTimer);
       this.consolidateTimer = null;
     }
     if (this.dirty) {
       await this.save();
     }
+    await this.persistIndex();
   }
 
   // ===========================================================================
@@ -157,34 +452,111 @@ export class EngramTrace {
 
   /**
    * Bootstrap context for session start.
-   * Runs 4 broad recall queries and returns structured context.
+   * Fills the sections of a profile (by default 4 broad recall queries,
+   * mounts included) and returns structured context.
    */
-  async bootstrap(): Promise<BootstrapContext> {
+  async bootstrap(options?: BootstrapOptions): Promise<BootstrapContext> {
     this.ensureInit();
 
-    const queries = [
-      'who am I, who is my user, my identity and role',
-      'active projects, current priorities, what am I working on',
-      'recent decisions, key choices, open blockers',
-      'user preferences, communication style, important rules',
-    ];
-
-    const results = await Promise.all(
-      queries.map(q => this.recall(q, { limit: 4, minScore: 0.15 }))
-    );
+    const { profile: requested = 'default', ...recallOptions } = options ?? {};
+    const profile = typeof requested === 'string' ? this.bootstrapProfile(requested) : requested;
+
+    // Pinned memories are always in, and left out of the sections
+    const pinnedBy = profile.pinned;
+    const pinned = !pinnedBy ? []
+      : Array.isArray(pinnedBy)
+        ? this.find({ ids: pinnedBy }, { scope: options?.scope }).sort((a, b) => pinnedBy.indexOf(a.id) - pinnedBy.indexOf(b.id))
+        : this.find(pinnedBy, { scope: options?.scope, orderBy: 'importance' });
+    const unpinned: MemoryFilter | undefined = pinned.length > 0 ? { not: { ids: pinned.map(m => m.id) } } : undefined;
+
+    const results = await Promise.all(profile.sections.map(async (section): Promise<RecallResult[]> => {
+      const conditions = [
+        section.tags && { tags: section.tags },
+        section.tiers && { tier: section.tiers },
+        section.types && { tags: section.types },
+        section.filter,
+        unpinned,
+      ].filter((f): f is MemoryFilter => !!f);
+      const filter = conditions.length > 0 ? { and: conditions } : undefined;
+      const limit = section.limit ?? 4;
+
+      if (section.query !== undefined) {
+        return this.recall(section.query, { ...recallOptions, filter, limit, minScore: section.minScore ?? 0.15 });
+      }
+      return this.find(filter, { scope: options?.scope, orderBy: section.orderBy ?? 'importance', limit })
+        .map(memory => ({ memory, score: memory.importance, origin: 'private' }));
+    }));
 
     const format = (items: RecallResult[]) =>
       items.map(r => r.memory.content).join('\n');
 
+    const sections: Record<string, BootstrapSectionResult> = {};
+    profile.sections.forEach((section, i) => {
+      sections[section.name] = { text: format(results[i]), results: results[i] };
+    });
+
     return {
-      identity: format(results[0]),
-      priorities: format(results[1]),
-      decisions: format(results[2]),
-      preferences: format(results[3]),
+      identity: sections.identity?.text ?? '',
+      priorities: sections.priorities?.text ?? '',
+      decisions: sections.decisions?.text ?? '',
+      preferences: sections.preferences?.text ?? '',
       raw: results,
+      sections,
+      pinned,
     };
   }
 
+  /**
+   * Pack memories into a token budget for a system prompt: sections are
+   * filled by priority, what doesn't fit is dropped, trimmed or summarized,
+   * and every entry cites its memory ids.
+   */
+  async buildContext(options: BuildContextOptions): Promise<BuiltContext> {
+    this.ensureInit();
+    if (!(options.tokenBudget > 0)) throw new Error(`tokenBudget must be positive, got ${options.tokenBudget}`);
+
+    const sections: ContextSection[] = [
+      ...(options.query ? [{ name: 'relevant', query: options.query, priority: Number.MAX_SAFE_INTEGER }] : []),
+      ...(options.sections ?? BOOTSTRAP_SECTIONS),
+    ];
+
+    const candidates = await Promise.all(sections.map(async section => {
+      const limit = section.limit ?? 10;
+      if (section.query !== undefined) {
+        const shared = options.recall?.filter;
+        const filter = section.filter && shared ? { and: [section.filter, shared] } : section.filter ?? shared;
+        const results = await this.recall(section.query, { ...options.recall, filter, scope: options.scope, limit });
+        return { section, memories: results.map(r => r.memory) };
+      }
+      if (section.filter) {
+        return { section, memories: this.find(section.filter, { scope: options.scope, orderBy: 'importance', limit }) };
+      }
+      throw new Error(`Context section "${section.name}" needs a query or a filter`);
+    }));
+
+    const llm = this.llm;
+    const context = await packContext(candidates, {
+      tokenBudget: options.tokenBudget,
+      format: options.format ?? 'markdown',
+      countTokens: options.tokenCounter ?? this.tokenCounter,
+      overflow: options.overflow ?? 'trim',
+      summarize: llm ? async (memories, maxTokens) => {
+        try {
+          return await llm.generate(
+            `Summarize these memories in at most ${maxTokens} tokens. Keep names, numbers, decisions and other specifics.\n\nMemories:\n${memories.map(m => m.content).join('\n---\n')}`,
+            'You condense memories for an AI agent\'s context window. Output only the summary.',
+          );
+        } catch (e) {
+          this.log(`Context summary failed, trimming instead: ${(e as Error).message}`);
+          return null;
+        }
+      } : undefined,
+    });
+
+    this.log(`Built ${context.format} context: ${context.ids.length} memories, ${context.tokens}/${options.tokenBudget} tokens`);
+    return context;
+  }
+
   /**
    * Process a conversation turn. Classifies and auto-stores if worthy.
    * Returns the classification result (stored or not, and why).
@@ -192,9 +564,12 @@ export class EngramTrace {
   async process(
     userMessage: string,
     assistantResponse: string,
+    options?: ProcessOptions,
   ): Promise<ClassificationResult> {
     this.ensureInit();
 
+    this.recordTurn(userMessage, assistantResponse, options?.scope);
+
     if (!this.autoRememberEnabled) {
       return { shouldRemember: false, importance: 0, reason: 'auto-remember disabled', suggestedTags: [] };
     }
@@ -203,8 +578,9 @@ export class EngramTrace {
     const combined = this.extractMemoryContent(userMessage, assistantResponse);
     const embedding = await this.embedder.embed(combined);
 
-    // Get existing embeddings for dedup
-    const existingEmbeddings = this.memories.map(m => m.embedding);
+    // Get existing embeddings for dedup (same scope only)
+    const scope = resolveScope(this.defaultScope, options?.scope);
+    const existingEmbeddings = await this.dedupCandidates(embedding, scopeKey(scope));
 
     // Classify
     const result = await this.classifier.classify(
@@ -221,6 +597,7 @@ export class EngramTrace {
         tags,
         source: 'auto',
         metadata: { reason: result.reason },
+        scope,
       });
     }
 
@@ -243,81 +620,410 @@ export class EngramTrace {
   async recall(query: string, options?: RecallOptions): Promise<RecallResult[]> {
     this.ensureInit();
 
+    const results = await this.rank(query, options);
+    await this.markAccessed(results);
+    return results;
+  }
+
+  /**
+   * Recall for the latest user message in the light of the conversation:
+   * the query is built from `message` and the recent turns fed through
+   * process() for the same user/agent, recent ones weighing more. Without
+   * a message, the newest turn leads.
+   */
+  async recallForTurn(message?: string, options?: TurnRecallOptions): Promise<RecallResult[]> {
+    this.ensureInit();
+
+    const { turns: count, decay = 0.5, subQueries = false, maxQueryChars = 1000, ...recallOptions } = options ?? {};
+    const window = this.conversationFor(options?.scope);
+    const turns = count === undefined ? window : window.slice(Math.max(0, window.length - count));
+    const queryOptions = { decay, maxChars: maxQueryChars };
+
+    if (!subQueries) {
+      const query = combinedTurnQuery(message, turns, queryOptions);
+      return query ? this.recall(query, recallOptions) : [];
+    }
+
+    // Each sub-query ranked alone, then fused by weighted score
+    const queries = turnQueries(message, turns, queryOptions);
+    const lists = await Promise.all(queries.map(async q => ({ results: await this.rank(q.text, recallOptions), weight: q.weight })));
+    const minScore = options?.minScore ?? 0.15;
+    const results = fuseWeightedResults(lists)
+      .filter(r => r.score >= minScore)
+      .slice(0, options?.limit ?? 8);
+
+    await this.markAccessed(results);
+    return results;
+  }
+
+  /** The recent turns process() saw for this user/agent, oldest first */
+  conversation(scope?: MemoryScope): ConversationTurn[] {
+    return [...this.conversationFor(scope)];
+  }
+
+  /** Forget the recent turns of this user/agent (e.g. at the end of a session) */
+  clearConversation(scope?: MemoryScope): void {
+    this.conversations.delete(this.conversationKey(scope));
+  }
+
+  /**
+   * Score and select recall results without touching access stats.
+   */
+  private async rank(query: string, options?: RecallOptions): Promise<RecallResult[]> {
     const limit = options?.limit ?? 8;
     const minScore = options?.minScore ?? 0.15;
     const tiers = options?.tiers;
     const tags = options?.tags;
     const decayBoost = options?.decayBoost ?? true;
+    const recency = options?.recency ?? this.recallDefaults.recency;
+
+    // Time window: explicit since/until, else a phrase like "last week"
+    const timeField = options?.timeField ?? 'createdAt';
+    const range: TimeRange = {
+      since: options?.since !== undefined ? toDate(options.since, 'since') : undefined,
+      until: options?.until !== undefined ? toDate(options.until, 'until') : undefined,
+    };
+    if (options?.parseTime ?? this.recallDefaults.parseTime) {
+      const parsed = parseTimePhrase(query);
+      if (parsed) {
+        if (parsed.query) query = parsed.query;
+        range.since ??= parsed.since;
+        range.until ??= parsed.until;
+        this.log(`Recall window from "${parsed.phrase}": ${range.since?.toISOString() ?? '-'} to ${range.until?.toISOString() ?? '-'}`);
+      }
+    }
+    const timed = range.since !== undefined || range.until !== undefined;
 
     const queryEmbedding = await this.embedder.embed(query);
 
-    let candidates = this.memories;
+    // What the caller's scope may see, in the requested tiers, tags, time
+    // window and filter
+    const caller = resolveScope(this.defaultScope, options?.scope) ?? {};
+    const matches = options?.filter ? compileFilter(options.filter) : null;
+    const keep = (m: Memory) =>
+      visibleTo(m, caller) &&
+      (!tiers || tiers.length === 0 || tiers.includes(m.tier)) &&
+      (!tags || tags.length === 0 || tags.some(t => m.tags.includes(t))) &&
+      (!timed || inRange(m[timeField], range)) &&
+      (!matches || matches(m));
+
+    const fusion: FuseOptions = {
+      method: options?.fusion ?? this.recallDefaults.fusion ?? 'none',
+      lexicalWeight: options?.lexicalWeight ?? this.recallDefaults.lexicalWeight ?? 0.3,
+      rrfK: options?.rrfK ?? this.recallDefaults.rrfK ?? 60,
+    };
+    const hybrid = fusion.method !== 'none';
+    const lexicalScores = new Map<Memory, number>();
+
+    // Our memories plus every mount's, each tagged with where it came from
+    const index = await this.vectorIndex();
+    const ownNear = this.candidatesFrom(this.memories, index, this.memoryById, queryEmbedding, limit, keep);
+    const candidates = [
+      ...(hybrid ? this.withLexicalMatches(ownNear, this.lexicalIndex(), this.lexicalById, query, limit, keep, lexicalScores) : ownNear)
+        .map(memory => ({ memory, origin: 'private', weight: 1 })),
+      ...this.mounts.flatMap(mount => {
+        const near = this.candidatesFrom(mount.memories, mount.index, mount.byId, queryEmbedding, limit, keep);
+        return (hybrid ? this.withLexicalMatches(near, mount.lexical ??= EngramTrace.buildLexical(mount.memories), mount.byId, query, limit, keep, lexicalScores) : near)
+          .map(memory => ({ memory, origin: mount.label, weight: mount.weight }));
+      }),
+    ];
 
-    // Filter by tier
-    if (tiers && tiers.length > 0) {
-      candidates = candidates.filter(m => tiers.includes(m.tier));
+    // Relevance: cosine similarity, fused with BM25 for hybrid recall. Rank
+    // fusion scores only say where a candidate placed, so under 'rrf'
+    // minScore is applied to the similarity before fusing; memories sharing
+    // a query term that isn't a stopword stay in regardless
+    const rrf = fusion.method === 'rrf';
+    const terms = rrf ? keywords(query) : new Set<string>();
+    const pool = candidates
+      .map(c => ({ ...c, similarity: cosineSimilarity(queryEmbedding, c.memory.embedding), lexical: lexicalScores.get(c.memory) ?? 0 }))
+      .filter(c => !rrf || c.similarity >= minScore || (c.lexical > 0 && tokenize(c.memory.content).some(t => terms.has(t))));
+    const similarity = pool.map(c => c.similarity);
+    const lexical = pool.map(c => c.lexical);
+    const relevance = fuseScores(similarity, lexical, fusion);
+    const bestLexical = lexical.reduce((a, b) => Math.max(a, b), 0);
+
+    // Score all candidates with the ranker, then weight by mount
+    const rankOptions: RecallOptions = { ...options, decayBoost, recency };
+    const explain = options?.explain ?? false;
+    const nowMs = Date.now();
+    const scored: RecallResult[] = [];
+    for (const [i, { memory, origin, weight }] of pool.entries()) {
+      const signals: RankingSignals = {
+        similarity: similarity[i],
+        lexical: bestLexical > 0 ? lexical[i] / bestLexical : 0,
+        relevance: relevance[i],
+        ageDays: (nowMs - Date.parse(memory.createdAt)) / DAY_MS,
+        idleDays: (nowMs - Date.parse(memory.lastAccessed)) / DAY_MS,
+      };
+      const ranked = this.ranker.score(memory, signals, rankOptions);
+      const score = ranked.score * weight;
+
+      if (rrf || (ranked.relevance ?? ranked.score) * weight >= minScore) {
+        scored.push(explain
+          ? { memory, score, origin, explanation: { ranker: this.ranker.name, signals, factors: ranked.factors, mountWeight: weight } }
+          : { memory, score, origin });
+      }
     }
 
-    // Filter by tags
-    if (tags && tags.length > 0) {
-      candidates = candidates.filter(m => tags.some(t => m.tags.includes(t)));
+    // Sort by score; rerank the best by reading the query with each
+    scored.sort((a, b) => b.score - a.score);
+    const rerank = options?.rerank ?? (this.rerankConfig !== null && this.rerankConfig.enabled !== false);
+    let results = rerank ? await this.rerankResults(query, scored, limit) : scored;
+
+    // Take top limit (or the most diverse limit of the best)
+    const mmr = options?.mmr ?? this.recallDefaults.mmr ?? false;
+    const collapseThreshold = options?.collapseThreshold ?? this.recallDefaults.collapseThreshold;
+    if (mmr || collapseThreshold !== undefined) {
+      results = results.slice(0, limit * RECALL_POOL_FACTOR);
+      if (collapseThreshold !== undefined) results = collapseNearDuplicates(results, collapseThreshold);
+      if (mmr) results = selectMmr(results, limit, options?.mmrLambda ?? this.recallDefaults.mmrLambda ?? 0.7);
     }
+    results = results.slice(0, limit);
+    return options?.expand ? this.expandLinks(results, options.expand, keep) : results;
+  }
 
-    // Score all candidates
-    const scored: RecallResult[] = [];
-    for (const memory of candidates) {
-      let score = this.cosineSimilarity(queryEmbedding, memory.embedding);
-
-      // Tier boost: HOT memories get a slight relevance boost
-      if (decayBoost) {
-        if (memory.tier === Tier.HOT) score *= 1.1;
-        else if (memory.tier === Tier.WARM) score *= 1.0;
-        else if (memory.tier === Tier.COLD) score *= 0.95;
-        else if (memory.tier === Tier.ARCHIVE) score *= 0.85;
+  /**
+   * Append the memories linked to the hits (see RecallOptions.expand), best
+   * first, each scored its hit's score x decay per hop. Links are followed
+   * within the brain the hit came from, through memories `keep` accepts.
+   */
+  private expandLinks(results: RecallResult[], options: ExpandOptions, keep: (m: Memory) => boolean): RecallResult[] {
+    const hops = options.hops ?? 1;
+    const decay = options.decay ?? 0.5;
+    const query: LinkQuery = { types: options.types, direction: options.direction };
+
+    const brains = new Map<string, { graph: LinkGraph; byId: Map<string, Memory> }>();
+    const brainOf = (origin: string) => {
+      let brain = brains.get(origin);
+      if (!brain) {
+        const memories = origin === 'private' ? this.memories : this.mounts.find(m => m.label === origin)?.memories ?? [];
+        const kept = memories.filter(keep);
+        brain = { graph: new LinkGraph(kept), byId: new Map(kept.map(m => [m.id, m])) };
+        brains.set(origin, brain);
       }
+      return brain;
+    };
 
-      // Importance boost
-      score *= (1 + memory.importance * 0.2);
-
-      if (score >= minScore) {
-        scored.push({ memory, score });
+    const included = new Set(results.map(r => r.memory));
+    const linked = new Map<Memory, RecallResult>();
+    for (const hit of results.slice(0, options.from ?? results.length)) {
+      const { graph, byId } = brainOf(hit.origin);
+      for (const [id, via] of graph.traverse(hit.memory.id, hops, query, id => byId.has(id))) {
+        const memory = byId.get(id)!;
+        if (included.has(memory)) continue;
+        const score = hit.score * decay ** via.hops;
+        const current = linked.get(memory);
+        if (!current || score > current.score) {
+          linked.set(memory, { memory, score, origin: hit.origin, linkedFrom: { id: via.from, type: via.type, hops: via.hops } });
+        }
       }
     }
+    return [...results, ...[...linked.values()].sort((a, b) => b.score - a.score)];
+  }
 
-    // Sort by score, take top limit
-    scored.sort((a, b) => b.score - a.score);
-    const results = scored.slice(0, limit);
+  /**
+   * Rescore the top candidates with the reranker, best first. Candidates
+   * past `topN` are dropped; if the reranker fails, recall order stands.
+   */
+  private async rerankResults(query: string, results: RecallResult[], limit: number): Promise<RecallResult[]> {
+    const config = this.rerankConfig ?? {};
+    this.reranker ??= createReranker(config, this.llm);
+    const reranker = this.reranker;
+    const pool = results.slice(0, Math.max(config.topN ?? 20, limit));
+
+    let scores: number[];
+    try {
+      scores = await reranker.score(query, pool.map(r => r.memory.content));
+      if (scores.length !== pool.length) throw new Error(`${scores.length} scores for ${pool.length} candidates`);
+    } catch (e) {
+      this.log(`Rerank with ${reranker.name} failed, keeping recall order: ${(e as Error).message}`);
+      return results;
+    }
+
+    const weight = config.weight ?? 1;
+    return pool
+      .map((r, i): RecallResult => {
+        const score = weight * scores[i] + (1 - weight) * r.score;
+        return r.explanation
+          ? { ...r, score, explanation: { ...r.explanation, rerank: { reranker: reranker.name, score: scores[i], recallScore: r.score } } }
+          : { ...r, score };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
 
-    // Update access counts
+  /**
+   * Update access counts (our own memories only; mounts are read-only).
+   */
+  private async markAccessed(results: RecallResult[]): Promise<void> {
     const now = new Date().toISOString();
-    for (const r of results) {
-      r.memory.accessCount++;
-      r.memory.lastAccessed = now;
+    const accessed = results.filter(r => r.origin === 'private').map(r => r.memory);
+    for (const m of accessed) {
+      m.accessCount++;
+      m.lastAccessed = now;
     }
-    if (results.length > 0) this.dirty = true;
+    if (accessed.length > 0) {
+      this.dirty = true;
+      await this.journalWrite({
+        op: 'access',
+        entries: accessed.map(m => ({ id: m.id, accessCount: m.accessCount, lastAccessed: now })),
+      });
+    }
+  }
+
+  /**
+   * List memories matching a filter (all memories without one): no query,
+   * no scoring, and access stats are left alone. Mounts are not included.
+   */
+  find(filter?: MemoryFilter, options?: FindOptions): Memory[] {
+    this.ensureInit();
+
+    const caller = resolveScope(this.defaultScope, options?.scope) ?? {};
+    const matches = filter ? compileFilter(filter) : () => true;
+    const orderBy = options?.orderBy ?? 'createdAt';
+    const direction = options?.order === 'asc' ? 1 : -1;
+    const key = (m: Memory) =>
+      orderBy === 'createdAt' || orderBy === 'lastAccessed' ? Date.parse(m[orderBy]) : m[orderBy];
+
+    const offset = options?.offset ?? 0;
+    return this.memories
+      .filter(m => visibleTo(m, caller) && matches(m))
+      .sort((a, b) => direction * (key(a) - key(b)))
+      .slice(offset, options?.limit !== undefined ? offset + options.limit : undefined);
+  }
+
+  /**
+   * Link two of this brain's memories: `from` holds a `type` link to `to`.
+   * Linking the same pair with the same type again is a no-op. Returns the
+   * link.
+   */
+  async link(from: string, to: string, type: LinkType): Promise<MemoryLink> {
+    this.ensureInit();
+    if (!isLinkType(type)) throw new Error(`Unknown link type "${type}" (expected one of: ${LINK_TYPES.join(', ')})`);
+    if (from === to) throw new Error(`Memory ${from} cannot link to itself`);
+
+    const source = this.memoryWithId(from);
+    this.memoryWithId(to);
+    const existing = source.links?.find(l => l.type === type && l.target === to);
+    if (existing) return existing;
+
+    const link: MemoryLink = { type, target: to, createdAt: new Date().toISOString(), createdBy: 'user' };
+    source.links = withLink(source.links, link);
+    await this.rewrite(source);
+    return link;
+  }
+
+  /**
+   * Remove `from`'s links to `to` (only those of `type`, if given). Returns
+   * the number removed.
+   */
+  async unlink(from: string, to: string, type?: LinkType): Promise<number> {
+    this.ensureInit();
+
+    const source = this.memoryWithId(from);
+    const links = source.links ?? [];
+    const kept = links.filter(l => l.target !== to || (type !== undefined && l.type !== type));
+    if (kept.length === links.length) return 0;
+
+    source.links = kept.length > 0 ? kept : undefined;
+    await this.rewrite(source);
+    return links.length - kept.length;
+  }
 
+  /**
+   * Links held by a memory, pointing at it, or both (`direction`). Targets
+   * consolidated away since are still listed.
+   */
+  links(id: string, query?: LinkQuery): LinkEdge[] {
+    this.ensureInit();
+    return new LinkGraph(this.memories).edges(id, query);
+  }
+
+  /**
+   * Entities the memories mention (people, projects, repos, URLs, versions,
+   * dates, code identifiers), most mentioned first. Only memories the
+   * caller can see are counted; mounts are not included.
+   */
+  async entities(query?: EntityQuery): Promise<Entity[]> {
+    this.ensureInit();
+    await this.extractMissingEntities();
+
+    const caller = resolveScope(this.defaultScope, query?.scope) ?? {};
+    const types = query?.types;
+    const minMentions = query?.minMentions ?? 1;
+    return new EntityIndex(this.memories.filter(m => visibleTo(m, caller)), this.entityAliases)
+      .all()
+      .filter(e => e.mentions >= minMentions && (!types || types.length === 0 || types.includes(e.type)))
+      .slice(0, query?.limit);
+  }
+
+  /**
+   * Everything known about an entity, by name or alias ("the billing
+   * service", "BillingService"): the memories mentioning it, ranked by
+   * recall against its name. Recall options apply, except that `limit`
+   * defaults to every mention and `minScore` to 0. Empty if no memory the
+   * caller can see mentions it (recall() searches by meaning instead).
+   */
+  async recallAbout(entity: string, options?: RecallOptions): Promise<RecallResult[]> {
+    this.ensureInit();
+    await this.extractMissingEntities();
+
+    // Resolve among what the caller can see, so names and aliases from
+    // others' private memories don't leak through
+    const caller = resolveScope(this.defaultScope, options?.scope) ?? {};
+    const found = new EntityIndex(this.memories.filter(m => visibleTo(m, caller)), this.entityAliases).get(entity);
+    if (!found) return [];
+
+    const mentioning: MemoryFilter = { ids: found.memoryIds };
+    const results = (await this.rank(found.name, {
+      ...options,
+      filter: options?.filter ? { and: [options.filter, mentioning] } : mentioning,
+      limit: options?.limit ?? found.memoryIds.length,
+      minScore: options?.minScore ?? 0,
+    })).filter(r => r.origin === 'private');
+
+    await this.markAccessed(results);
     return results;
   }
 
   /**
-   * Forget memories matching a query (for corrections, GDPR, etc.).
+   * Forget memories matching a query (for corrections, GDPR, etc.), or
+   * every memory matching a filter.
    * Returns number of memories removed.
    */
-  async forget(query: string, threshold = 0.8): Promise<number> {
+  async forget(query: string, threshold?: number, options?: ForgetOptions): Promise<number>;
+  async forget(filter: MemoryFilter, options?: ForgetOptions): Promise<number>;
+  async forget(
+    target: string | MemoryFilter,
+    thresholdOrOptions?: number | ForgetOptions,
+    queryOptions?: ForgetOptions,
+  ): Promise<number> {
     this.ensureInit();
 
-    const queryEmbedding = await this.embedder.embed(query);
-    const before = this.memories.length;
+    const byQuery = typeof target === 'string';
+    const options = byQuery ? queryOptions : thresholdOrOptions as ForgetOptions | undefined;
+    const threshold = typeof thresholdOrOptions === 'number' ? thresholdOrOptions : 0.8;
+    const filter = byQuery ? options?.filter : target;
+    if (!byQuery && target && typeof target === 'object' && matchesEverything(target) && options?.all !== true) {
+      throw new Error('forget() filter sets no condition and would remove every memory; pass { all: true } to do that');
+    }
+
+    const queryEmbedding = byQuery ? await this.embedder.embed(target) : null;
+    const scope = resolveScope(this.defaultScope, options?.scope) ?? {};
+    const matches = filter ? compileFilter(filter) : () => true;
+    const forgotten: string[] = [];
 
     this.memories = this.memories.filter(m => {
-      const sim = this.cosineSimilarity(queryEmbedding, m.embedding);
-      return sim < threshold;
+      if (!inScope(m, scope) || !matches(m)) return true;
+      if (queryEmbedding && cosineSimilarity(queryEmbedding, m.embedding) < threshold) return true;
+      forgotten.push(m.id);
+      return false;
     });
 
-    const removed = before - this.memories.length;
+    const removed = forgotten.length;
     if (removed > 0) {
       this.dirty = true;
-      this.log(`Forgot ${removed} memories matching "${query.slice(0, 50)}"`);
+      await this.journalWrite({ op: 'forget', ids: forgotten });
+      this.log(`Forgot ${removed} memories matching ${byQuery ? `"${target.slice(0, 50)}"` : 'filter'}`);
     }
     return removed;
   }
@@ -328,8 +1034,12 @@ export class EngramTrace {
   async consolidate(): Promise<ConsolidationReport> {
     this.ensureInit();
 
+    if (this.snapshots && this.snapshotConfig.beforeConsolidate !== false && this.memories.length > 0) {
+      await this.takeSnapshot('consolidate', null);
+    }
+
     this.log(`Consolidating ${this.memories.length} memories...`);
-    const { memories, report } = await this.consolidator.consolidate(this.memories);
+    const { memories, report } = await this.consolidator.consolidate(this.memories, await this.vectorIndex() ?? undefined);
     this.memories = memories;
     this.dirty = true;
     this.writesSinceConsolidation = 0;
@@ -341,49 +1051,480 @@ export class EngramTrace {
   }
 
   /**
-   * Get stats about the current state.
+   * Delete every memory in a scope (e.g. `{ userId }` on account deletion),
+   * then save and purge them from snapshots so no copy is left behind other
+   * than rotated backups. Returns the number of memories removed.
+   */
+  async deleteScope(scope: MemoryScope): Promise<number> {
+    this.ensureInit();
+    if (!resolveScope({}, scope)) throw new Error('deleteScope() needs a userId, agentId or visibility');
+
+    const removed = new Set(this.memories.filter(m => inScope(m, scope)).map(m => m.id));
+    if (removed.size === 0) return 0;
+
+    this.memories = this.memories.filter(m => !removed.has(m.id));
+    this.dirty = true;
+    await this.journalWrite({ op: 'forget', ids: [...removed] });
+    await this.save();
+
+    if (this.snapshots) {
+      const snapshots = this.snapshots;
+      await this.storage.lock(() => snapshots.purge(removed));
+    }
+
+    this.log(`Deleted ${removed.size} memories in scope ${scopeKey(scope)}`);
+    return removed.size;
+  }
+
+  /**
+   * Get stats about the current state; pass a scope to count only its memories.
    */
-  stats(): TraceStats {
+  stats(scope?: MemoryScope): TraceStats {
     const byTier = { hot: 0, warm: 0, cold: 0, archive: 0 } as Record<MemoryTier, number>;
     let oldest: string | null = null;
     let newest: string | null = null;
+    const memories = scope ? this.memories.filter(m => inScope(m, scope)) : this.memories;
 
-    for (const m of this.memories) {
+    for (const m of memories) {
       byTier[m.tier] = (byTier[m.tier] || 0) + 1;
       if (!oldest || m.createdAt < oldest) oldest = m.createdAt;
       if (!newest || m.createdAt > newest) newest = m.createdAt;
     }
 
-    let fileSizeMB = 0;
-    try {
-      fileSizeMB = existsSync(this.file) ? statSync(this.file).size / 1048576 : 0;
-    } catch {}
+    const fileSizeMB = (this.storage.sizeBytes?.() ?? 0) / 1048576;
 
     return {
-      file: this.file,
+      file: this.storage.location,
       fileSizeMB: parseFloat(fileSizeMB.toFixed(2)),
-      totalMemories: this.memories.length,
+      fileFormat: this.storage.format?.() ?? null,
+      totalMemories: memories.length,
       byTier,
       oldestMemory: oldest,
       newestMemory: newest,
       lastConsolidation: this.lastConsolidation,
       writesSinceConsolidation: this.writesSinceConsolidation,
-      embeddingModel: (this.embedder as any).model || 'unknown',
+      journalRecords: this.journalPending,
+      embeddingModel: this.embedder.model || 'unknown',
       embeddingDims: this.embedder.dims,
+      reembedPending: this.reembedPending(),
+      mounts: this.mounts.map(m => ({ label: m.label, file: m.file, weight: m.weight, memories: m.memories.length })),
     };
   }
 
   /**
-   * Export all memories as JSON (for debugging/migration).
+   * Export all memories (or those matching `filter`) as JSON (for
+   * debugging/migration). With a scope (passed or configured), only the
+   * memories visible to it.
    */
-  export(): Array<Omit<Memory, 'embedding'> & { embeddingDims: number }> {
-    return this.memories.map(m => ({
+  export(filter?: MemoryFilter, scope?: MemoryScope): Array<Omit<Memory, 'embedding'> & { embeddingDims: number }> {
+    const memories = this.exportable(filter, scope);
+    return memories.map(m => ({
       ...m,
       embedding: undefined as any,
       embeddingDims: m.embedding.length,
     }));
   }
 
+  /**
+   * Export memories as JSONL (lossless, embeddings included), Markdown or
+   * CSV. Returns the text; pass `{ file }` to also write it to disk and
+   * `{ filter }` to export only the matching memories. With a scope (passed
+   * or configured), only the memories visible to it are exported.
+   */
+  async exportTo(format: ExportFormat, options?: ExportOptions): Promise<string> {
+    this.ensureInit();
+
+    const memories = this.exportable(options?.filter, options?.scope);
+    const text = serializeMemories(memories, format, this.storedEmbedder ?? this.currentEmbedder());
+    if (options?.file) await writeFile(options.file, text, 'utf8');
+
+    this.log(`Exported ${memories.length} memories as ${format}${options?.file ? ` to ${options.file}` : ''}`);
+    return text;
+  }
+
+  /**
+   * Memories matching `filter` that the caller can see. An instance with no
+   * scope configured or passed exports the whole brain.
+   */
+  private exportable(filter?: MemoryFilter, scope?: MemoryScope): Memory[] {
+    const caller = resolveScope(this.defaultScope, scope);
+    const matches = filter ? compileFilter(filter) : null;
+    return this.memories.filter(m => (!caller || visibleTo(m, caller)) && (!matches || matches(m)));
+  }
+
+  /**
+   * Import memories from text (or `{ file }`) in any exportTo() format.
+   * Stored embeddings are reused when they come from the configured model;
+   * everything else is embedded. Saves once at the end.
+   */
+  async importFrom(
+    format: ExportFormat,
+    source: string | { file: string },
+    options?: ImportOptions,
+  ): Promise<ImportReport> {
+    this.ensureInit();
+
+    const start = Date.now();
+    const text = typeof source === 'string' ? source : await readFile(source.file, 'utf8');
+    const parsed = parseMemories(text, format);
+
+    const current = this.currentEmbedder();
+    const sameModel = !parsed.embedder || parsed.embedder.model === current.model;
+    const skipDuplicates = options?.skipDuplicates ?? true;
+    const preserveIds = options?.preserveIds ?? true;
+    const preserveTimestamps = options?.preserveTimestamps ?? true;
+    const extraTags = options?.tags ?? [];
+    const ids = new Set(this.memories.map(m => m.id));
+    const now = new Date().toISOString();
+    /** Exported id -> id here, for links between imported memories */
+    const renamed = new Map<string, string>();
+    const imported: Memory[] = [];
+
+    const report: ImportReport = {
+      format,
+      total: parsed.memories.length,
+      imported: 0,
+      duplicates: 0,
+      existing: 0,
+      embedded: 0,
+      durationMs: 0,
+    };
+
+    for (const item of parsed.memories) {
+      if (preserveIds && item.id && ids.has(item.id)) {
+        report.existing++;
+        continue;
+      }
+
+      let embedding = item.embedding;
+      const embed = options?.reembed || !sameModel || !embedding || embedding.length !== current.dims;
+      if (embed) embedding = await this.embedder.embed(item.content);
+
+      const vector = embedding!;
+      const scope = resolveScope(this.defaultScope, options?.scope ?? item.scope);
+      const existing = skipDuplicates ? await this.dedupCandidates(vector, scopeKey(scope)) : [];
+      if (existing.some(e => cosineSimilarity(vector, e) >= this.deduplicateThreshold)) {
+        report.duplicates++;
+        continue;
+      }
+
+      const createdAt = preserveTimestamps && item.createdAt ? item.createdAt : now;
+      const memory: Memory = {
+        id: preserveIds && item.id ? item.id : crypto.randomUUID(),
+        content: item.content,
+        embedding: vector,
+        tags: [...new Set([...(item.tags ?? []), ...extraTags])],
+        importance: Number.isFinite(item.importance) ? item.importance! : 0.5,
+        tier: normalizeTier(item.tier),
+        createdAt,
+        lastAccessed: preserveTimestamps && item.lastAccessed ? item.lastAccessed : createdAt,
+        accessCount: preserveTimestamps ? item.accessCount ?? 0 : 0,
+        // An exported memory (it has an id) keeps having no source
+        source: item.id ? item.source : item.source ?? 'import',
+        metadata: item.metadata,
+        scope,
+        links: item.links?.filter(l => isLinkType(l.type)).map(l => ({ ...l })),
+        entities: item.entities?.filter(e => isEntityType(e.type)),
+      };
+      if (!memory.links?.length) delete memory.links;
+      if (!memory.entities) delete memory.entities;
+      if (item.id && item.id !== memory.id) renamed.set(item.id, memory.id);
+      this.insert(memory);
+      imported.push(memory);
+      ids.add(memory.id);
+      report.imported++;
+      if (embed) report.embedded++;
+    }
+
+    for (const memory of imported) {
+      for (const link of memory.links ?? []) link.target = renamed.get(link.target) ?? link.target;
+    }
+
+    if (report.imported > 0) {
+      await this.save();
+      if (this.memories.length > this.maxMemories) {
+        this.log(`Memory limit reached (${this.memories.length}/${this.maxMemories}), forcing consolidation`);
+        await this.consolidate();
+      }
+    }
+
+    report.durationMs = Date.now() - start;
+    this.log(`Imported ${report.imported}/${report.total} memories from ${format} (${report.duplicates} duplicates, ${report.existing} existing)`);
+    return report;
+  }
+
+  /**
+   * Fold another brain (an .engram file path or an open EngramTrace) into
+   * this one: reconcile by id, fold near-duplicates, resolve diverged
+   * memories per `policy`. The other brain is never modified.
+   */
+  async merge(other: string | EngramTrace, options?: MergeOptions): Promise<MergeReport> {
+    this.ensureInit();
+    if (other === this) throw new Error('Cannot merge a brain into itself');
+
+    const start = Date.now();
+    const policy = options?.policy ?? 'importance-max';
+    const { memories: incoming, embedder, source } = await EngramTrace.readBrain(other, options?.encryption);
+
+    // Embeddings from another model are not comparable with ours
+    const current = this.currentEmbedder();
+    let reembedded = 0;
+    const theirs: Memory[] = [];
+    for (const m of incoming) {
+      if ((embedder && embedder.model !== current.model) || m.embedding.length !== current.dims) {
+        theirs.push({ ...m, embedding: await this.embedder.embed(m.content) });
+        reembedded++;
+      } else {
+        theirs.push(m);
+      }
+    }
+
+    const result = mergeMemories(this.memories, theirs, {
+      policy,
+      deduplicateThreshold: options?.deduplicate === false ? null : options?.deduplicateThreshold ?? this.deduplicateThreshold,
+      tags: options?.tags,
+    });
+    const dryRun = options?.dryRun ?? false;
+
+    if (!dryRun) {
+      const added = new Set(result.added.map(m => m.id));
+      this.memories = result.memories.filter(m => !added.has(m.id));
+      for (const m of result.added) this.insert(m);
+      this.dirty = true;
+      await this.save();
+    }
+
+    const report: MergeReport = {
+      timestamp: new Date().toISOString(),
+      durationMs: Date.now() - start,
+      source,
+      policy,
+      ...result.report,
+      reembedded,
+      dryRun,
+    };
+    this.log(`Merged ${source}: ${report.added} added, ${report.matchedById} matched, ${report.conflicts} conflicts, ${report.duplicates} duplicates${dryRun ? ' (dry run)' : ''}`);
+    return report;
+  }
+
+  /**
+   * Compare an earlier state of the brain (a file path or trace, e.g. a copy
+   * taken before consolidation) with this one. Print with formatDiff().
+   */
+  async diff(before: string | EngramTrace | { snapshot: string }, options?: DiffOptions): Promise<BrainDiff> {
+    this.ensureInit();
+    if (typeof before === 'string' || before instanceof EngramTrace) {
+      return EngramTrace.diff(before, this, options);
+    }
+
+    const memories = await this.requireSnapshots().read(before.snapshot);
+    return EngramTrace.diffBrains(
+      { memories, embedder: null, source: `snapshot ${before.snapshot}` },
+      await EngramTrace.readBrain(this),
+      options,
+    );
+  }
+
+  /**
+   * Compare two brains (file paths or traces) without opening either for
+   * writing.
+   */
+  static async diff(before: string | EngramTrace, after: string | EngramTrace, options?: DiffOptions): Promise<BrainDiff> {
+    const b = await EngramTrace.readBrain(before, options?.encryption);
+    const a = await EngramTrace.readBrain(after, options?.encryption);
+    return EngramTrace.diffBrains(b, a, options);
+  }
+
+  private static diffBrains(
+    b: { memories: Memory[]; embedder: EmbedderIdentity | null; source: string },
+    a: { memories: Memory[]; embedder: EmbedderIdentity | null; source: string },
+    options?: DiffOptions,
+  ): BrainDiff {
+    // Embeddings from different models can't be compared
+    const comparable = !b.embedder || !a.embedder || b.embedder.model === a.embedder.model;
+    return diffMemories(b.memories, a.memories, {
+      semanticThreshold: options?.semantic === false || !comparable ? null : options?.semanticThreshold ?? 0.85,
+      beforeSource: b.source,
+      afterSource: a.source,
+    });
+  }
+
+  /**
+   * Save a point-in-time copy of the brain to roll back to with restore().
+   * Unchanged memories are shared between snapshots, not copied.
+   */
+  async snapshot(label?: string): Promise<SnapshotInfo> {
+    this.ensureInit();
+    return this.takeSnapshot('manual', label ?? null);
+  }
+
+  /**
+   * All snapshots, oldest first.
+   */
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    this.ensureInit();
+    return this.requireSnapshots().list();
+  }
+
+  /**
+   * Roll the brain back to a snapshot and save. The state being replaced is
+   * snapshotted first; restoring the returned snapshot undoes the restore.
+   */
+  async restore(snapshotId: string): Promise<SnapshotInfo> {
+    this.ensureInit();
+
+    const memories = await this.requireSnapshots().read(snapshotId);
+    const undo = await this.takeSnapshot('restore', `before restoring ${snapshotId}`);
+
+    this.memories = memories;
+    this.dirty = true;
+    await this.save();
+
+    this.log(`Restored snapshot ${snapshotId}: ${memories.length} memories`);
+    return undo;
+  }
+
+  async deleteSnapshot(snapshotId: string): Promise<void> {
+    this.ensureInit();
+    const snapshots = this.requireSnapshots();
+    await this.storage.lock(() => snapshots.remove(snapshotId));
+  }
+
+  /**
+   * Re-encrypt the file under a new passphrase/key (fresh salt), or pass
+   * null to write it back as plaintext. Saves immediately, merging what
+   * other processes wrote under the old key first. They must be restarted
+   * with the new key: until then their writes fail with EncryptionError.
+   */
+  async rotateKey(encryption: EncryptionConfig | null): Promise<void> {
+    this.ensureInit();
+    if (!this.storage.setEncryption) {
+      throw new Error(`Storage at ${this.storage.location} does not support encryption`);
+    }
+
+    const setEncryption = this.storage.setEncryption.bind(this.storage);
+    await this.storage.lock(async () => {
+      // Merge other writers' changes and compact the journal under the
+      // current key first: a crash from here on leaves a brain that opens
+      // with one key or the other, never a mix
+      if (this.onConflict === 'merge' && await this.storage.hasChanges()) await this.mergeFromStorage();
+      await this.storage.save(this.toStored());
+      this.afterWrite();
+
+      await setEncryption(encryption, this.toStored());
+      this.afterWrite();
+    });
+    await this.persistIndex();
+    if (this.snapshots) {
+      const snapshots = this.snapshots;
+      await this.storage.lock(() => snapshots.rekey(encryption));
+    }
+
+    const where = this.storage.location;
+    this.log(encryption ? `Rotated encryption key for ${where}` : `Removed encryption from ${where}`);
+  }
+
+  /**
+   * What init() had to do to recover from a corrupt file, or null if the
+   * file loaded cleanly.
+   */
+  recoveryReport(): RecoveryReport | null {
+    return this.storage.recoveryReport?.() ?? null;
+  }
+
+  /**
+   * Rewrite a JSON-fallback file as a real .engram file. Unlike save(),
+   * this never falls back: it throws if @terronex/engram still fails.
+   */
+  async upgrade(): Promise<void> {
+    this.ensureInit();
+    const storage = this.storage;
+    if (!storage.upgrade) {
+      throw new Error(`Storage at ${storage.location} has no file format to upgrade`);
+    }
+
+    const from = storage.format?.() ?? null;
+    await storage.lock(async () => {
+      if (this.onConflict === 'merge' && await storage.hasChanges()) await this.mergeFromStorage();
+      await storage.upgrade!(this.toStored());
+      this.afterWrite();
+    });
+    this.log(`Upgraded ${storage.location} from ${from ?? 'new'} to .engram format`);
+  }
+
+  /**
+   * True if another writer changed the stored brain since this instance last
+   * loaded or saved it. save() merges those changes in automatically.
+   */
+  async changedOnDisk(): Promise<boolean> {
+    return this.storage.hasChanges();
+  }
+
+  /**
+   * Re-embed every memory with the configured embedder (migration after
+   * switching models). Progress is checkpointed to the file header, so an
+   * interrupted run — crash or `signal` — resumes where it stopped.
+   */
+  async reembed(options?: ReembedOptions): Promise<ReembedReport> {
+    this.ensureInit();
+
+    const start = Date.now();
+    const checkpointEvery = options?.checkpointEvery ?? 100;
+    const model = this.currentEmbedder().model;
+
+    if (this.reembedState?.model !== model) {
+      this.reembedState = { model, dims: this.embedder.dims, completed: new Set() };
+    }
+    const state = this.reembedState;
+    const total = this.memories.length;
+    const resumed = this.memories.filter(m => state.completed.has(m.id)).length;
+    let reembedded = 0;
+    let sinceCheckpoint = 0;
+
+    for (const memory of [...this.memories]) {
+      if (state.completed.has(memory.id)) continue;
+      if (options?.signal?.aborted) break;
+
+      memory.embedding = await this.embedder.embed(memory.content);
+      this.indexedMemories = null;
+      state.completed.add(memory.id);
+      reembedded++;
+      this.dirty = true;
+      options?.onProgress?.({ done: resumed + reembedded, total, memoryId: memory.id });
+
+      if (++sinceCheckpoint >= checkpointEvery) {
+        sinceCheckpoint = 0;
+        await this.save();
+      }
+    }
+
+    const complete = this.memories.every(m => state.completed.has(m.id));
+    if (complete) {
+      this.storedEmbedder = { model, dims: this.embedder.dims };
+      this.reembedState = null;
+    }
+    this.dirty = true;
+    await this.save();
+
+    this.log(`Re-embedded ${reembedded} memories with ${model}${complete ? '' : ' (interrupted, call reembed() to resume)'}`);
+    return {
+      model,
+      dims: this.embedder.dims,
+      total,
+      reembedded,
+      resumed,
+      complete,
+      durationMs: Date.now() - start,
+    };
+  }
+
+  private reembedPending(): number {
+    const state = this.reembedState;
+    if (state) return this.memories.filter(m => !state.completed.has(m.id)).length;
+    if (this.storedEmbedder && this.storedEmbedder.model !== this.currentEmbedder().model) return this.memories.length;
+    return 0;
+  }
+
   // ===========================================================================
   // Internal — Storage
   // ===========================================================================
@@ -394,6 +1535,7 @@ export class EngramTrace {
     options?: RememberOptions,
   ): Promise<Memory> {
     const now = new Date().toISOString();
+    const entities = this.entityExtractor ? await this.mentionsIn(content) : undefined;
 
     const memory: Memory = {
       id: crypto.randomUUID(),
@@ -407,11 +1549,12 @@ export class EngramTrace {
       accessCount: 0,
       source: options?.source,
       metadata: options?.metadata,
+      scope: resolveScope(this.defaultScope, options?.scope),
+      entities,
     };
 
-    this.memories.push(memory);
-    this.dirty = true;
-    this.writesSinceConsolidation++;
+    this.insert(memory);
+    await this.journalWrite({ op: 'store', memory });
 
     // Auto-consolidate if threshold reached
     if (
@@ -434,6 +1577,161 @@ export class EngramTrace {
     return memory;
   }
 
+  /**
+   * Snapshot another brain for merge()/diff(): copies, so nothing we do
+   * later (access counts, consolidation) leaks into it.
+   */
+  private static async readBrain(
+    other: string | EngramTrace,
+    encryption?: EncryptionConfig,
+  ): Promise<{ memories: Memory[]; embedder: EmbedderIdentity | null; source: string }> {
+    if (other instanceof EngramTrace) {
+      other.ensureInit();
+      return {
+        memories: structuredClone(other.memories),
+        embedder: other.storedEmbedder ?? other.currentEmbedder(),
+        source: other.storage.location,
+      };
+    }
+
+    if (!existsSync(other)) throw new Error(`${other} does not exist`);
+    // Read-only: no lock, and a corrupt file is reported, never quarantined
+    const storage = new EngramFileStorage(other, { lock: false, onCorrupt: 'throw', encryption });
+    const brain = await storage.load();
+    return { memories: brain.memories, embedder: brain.meta.embedder ?? null, source: other };
+  }
+
+  /**
+   * Snapshot the current memories and apply retention, under the storage
+   * lock so another process's pruning can't collect objects mid-write.
+   */
+  private async takeSnapshot(reason: SnapshotInfo['reason'], label: string | null): Promise<SnapshotInfo> {
+    const snapshots = this.requireSnapshots();
+    const memories = [...this.memories];
+
+    return this.storage.lock(async () => {
+      const info = await snapshots.create(memories, { label, reason });
+      await snapshots.prune({ keep: this.snapshotConfig.keep ?? 10, maxAgeDays: this.snapshotConfig.maxAgeDays });
+      return info;
+    });
+  }
+
+  private requireSnapshots(): SnapshotStore {
+    if (!this.snapshots) throw new Error('Snapshots are disabled (`snapshots: false`)');
+    return this.snapshots;
+  }
+
+  private conversationKey(scope?: MemoryScope): string {
+    const resolved = resolveScope(this.defaultScope, scope);
+    return scopeKey({ userId: resolved?.userId, agentId: resolved?.agentId });
+  }
+
+  private conversationFor(scope?: MemoryScope): ConversationTurn[] {
+    return this.conversations.get(this.conversationKey(scope)) ?? [];
+  }
+
+  private recordTurn(userMessage: string, assistantResponse: string, scope?: MemoryScope): void {
+    if (this.conversationWindow <= 0) return;
+    const key = this.conversationKey(scope);
+    const turns = this.conversations.get(key) ?? [];
+    turns.push({
+      user: clip(userMessage, this.maxTurnChars),
+      assistant: clip(assistantResponse, this.maxTurnChars),
+      at: new Date().toISOString(),
+    });
+    // Re-inserted so the map runs from least to most recently active
+    this.conversations.delete(key);
+    this.conversations.set(key, turns.slice(-this.conversationWindow));
+    if (this.conversations.size > this.maxConversations) {
+      this.conversations.delete(this.conversations.keys().next().value!);
+    }
+  }
+
+  private memoryWithId(id: string): Memory {
+    const memory = this.memories.find(m => m.id === id);
+    if (!memory) throw new Error(`Unknown memory: ${id}`);
+    return memory;
+  }
+
+  /** Make an in-place change to a memory durable */
+  private async rewrite(memory: Memory): Promise<void> {
+    this.dirty = true;
+    await this.journalWrite({ op: 'store', memory });
+  }
+
+  /**
+   * Entities in `text`: the configured extractor's (the local one's if it
+   * fails), plus configured names and aliases it missed
+   */
+  private async mentionsIn(text: string): Promise<EntityMention[]> {
+    const extractor = this.entityExtractor!;
+    let mentions: EntityMention[];
+    try {
+      mentions = await extractor.extract(text);
+    } catch (e) {
+      this.log(`Entity extraction with ${extractor.name} failed, using local: ${(e as Error).message}`);
+      mentions = extractEntities(text);
+    }
+    return withKnownNames(mentions, text, this.entityAliases);
+  }
+
+  /**
+   * Extract entities from memories that have none yet (imported, merged,
+   * or stored with extraction off). Not journaled: lost mentions are just
+   * extracted again.
+   */
+  private async extractMissingEntities(): Promise<void> {
+    if (!this.entityExtractor) return;
+    const missing = this.memories.filter(m => !m.entities);
+    for (const m of missing) m.entities = await this.mentionsIn(m.content);
+    if (missing.length > 0) {
+      this.dirty = true;
+      this.log(`Extracted entities from ${missing.length} memories`);
+    }
+  }
+
+  private bootstrapProfile(name: string): BootstrapProfile {
+    const profile = this.bootstrapProfiles[name];
+    if (profile) return profile;
+    if (name === 'default') return { sections: BOOTSTRAP_SECTIONS };
+    throw new Error(`Unknown bootstrap profile "${name}" (configured: ${Object.keys(this.bootstrapProfiles).join(', ') || 'none'})`);
+  }
+
+  /**
+   * Add a new memory (not yet durable: journal it or save).
+   */
+  private insert(memory: Memory): void {
+    this.memories.push(memory);
+    if (this.index && this.indexedMemories === this.memories && memory.embedding.length === this.index.dims) {
+      this.index.add(memory.id, memory.embedding);
+      this.memoryById.set(memory.id, memory);
+    }
+    if (this.lexical && this.lexicalMemories === this.memories) {
+      this.lexical.add(memory.id, memory.content);
+      this.lexicalById.set(memory.id, memory);
+    }
+    this.createdIds.add(memory.id);
+    // Already embedded with the migration's target model
+    const migration = this.reembedState;
+    if (migration && migration.model === this.currentEmbedder().model) migration.completed.add(memory.id);
+    this.dirty = true;
+    this.writesSinceConsolidation++;
+  }
+
+  /**
+   * Make a write durable via the journal; compact into the main file once
+   * the journal grows past `compactEvery` records.
+   */
+  private async journalWrite(record: JournalRecord): Promise<void> {
+    if (!this.journaled) return;
+
+    await this.storage.lock(() => this.storage.append(record));
+    if (++this.journalPending >= this.compactEvery) {
+      this.log(`Journal reached ${this.journalPending} records, compacting`);
+      await this.save();
+    }
+  }
+
   /**
    * Extract the memory-worthy content from a conversation turn.
    * Combines user + assistant but trims boilerplate.
@@ -453,128 +1751,299 @@ export class EngramTrace {
   }
 
   // ===========================================================================
-  // Internal — Persistence (using @terronex/engram)
+  // Internal — Persistence (via the StorageAdapter)
   // ===========================================================================
 
-  private async load(): Promise<void> {
-    try {
-      // Dynamic import of engram
-      const engram = await import('@terronex/engram');
-      const data = await engram.readEngramFile(this.file);
+  async save(): Promise<void> {
+    if (!this.dirty && this.generation > 0) return;
+
+    await this.storage.lock(async () => {
+      if (this.onConflict === 'merge' && await this.storage.hasChanges()) await this.mergeFromStorage();
+      await this.storage.save(this.toStored());
+      this.afterWrite();
+    });
+    await this.persistIndex();
+  }
+
+  private toStored(): StoredBrain {
+    return { memories: this.memories, generation: this.generation + 1, meta: this.traceMeta() };
+  }
+
+  private traceMeta(): TraceMeta {
+    return {
+      lastConsolidation: this.lastConsolidation,
+      writesSinceConsolidation: this.writesSinceConsolidation,
+      embedder: this.storedEmbedder ?? this.currentEmbedder(),
+      reembed: this.reembedState
+        ? { model: this.reembedState.model, dims: this.reembedState.dims, completed: [...this.reembedState.completed] }
+        : null,
+    };
+  }
+
+  private applyMeta(meta: Partial<TraceMeta>): void {
+    this.lastConsolidation = meta.lastConsolidation ?? this.lastConsolidation;
+    this.writesSinceConsolidation = meta.writesSinceConsolidation ?? this.writesSinceConsolidation;
+    this.storedEmbedder = meta.embedder ?? null;
+    this.reembedState = meta.reembed
+      ? { model: meta.reembed.model, dims: meta.reembed.dims, completed: new Set(meta.reembed.completed) }
+      : null;
+  }
+
+  /**
+   * Bookkeeping once a full write landed: the adapter compacted its journal
+   * (we hold the lock and merged every record), and this state becomes the
+   * new base.
+   */
+  private afterWrite(): void {
+    this.generation++;
+    this.journalPending = 0;
+    this.dirty = false;
+    this.markSynced();
+  }
+
+  private markSynced(): void {
+    this.syncedVersions = new Map(this.memories.map(m => [m.id, EngramTrace.versionOf(m)]));
+    this.createdIds.clear();
+  }
+
+  /**
+   * Fold in what other writers stored since our last load/save (called
+   * under the lock, right before writing): a 3-way merge of ours vs. the
+   * stored state (journal included), using what we last synced to tell
+   * their deletions from our additions, and their edits from ours.
+   *
+   * A memory present on both sides keeps our version unless only they
+   * changed it, and the max access stats either way. A deletion beats an
+   * edit.
+   */
+  private async mergeFromStorage(): Promise<void> {
+    const stored = await this.storage.load();
+    const ours = new Map(this.memories.map(m => [m.id, m]));
+    const known = (id: string) => this.syncedVersions.has(id) || this.createdIds.has(id);
+    const before = this.memories.length;
+    const merged: Memory[] = [];
+
+    for (const t of stored.memories) {
+      const o = ours.get(t.id);
+      if (o) {
+        const base = this.syncedVersions.get(t.id);
+        const onlyTheirs = base !== undefined && EngramTrace.versionOf(o) === base && EngramTrace.versionOf(t) !== base;
+        merged.push(onlyTheirs ? this.mergeAccess(t, o) : this.mergeAccess(o, t));
+        ours.delete(t.id);
+      } else if (!known(t.id)) {
+        merged.push(t);  // Added elsewhere
+      }
+      // else: we removed it since the last sync
+    }
+    for (const o of ours.values()) {
+      // Gone from storage: deleted elsewhere if it was there when we last synced
+      if (!this.syncedVersions.has(o.id)) merged.push(o);
+    }
+
+    this.memories = merged;
+    this.generation = Math.max(this.generation, stored.generation);
+
+    // Another process consolidated after us: adopt its schedule
+    const theirsConsolidated = stored.meta.lastConsolidation;
+    if (theirsConsolidated && (!this.lastConsolidation || theirsConsolidated > this.lastConsolidation)) {
+      this.lastConsolidation = theirsConsolidated;
+      this.writesSinceConsolidation = (stored.meta.writesSinceConsolidation ?? 0) + this.createdIds.size;
+    }
+
+    this.log(`Merged concurrent changes from ${this.storage.location}: ${before} -> ${this.memories.length} memories`);
+  }
+
+  /** A memory's content, embedding and everything else but its access stats */
+  private static versionOf(m: Memory): string {
+    const { embedding, accessCount: _count, lastAccessed: _last, ...rest } = m;
+    return createHash('sha1')
+      .update(JSON.stringify(rest))
+      .update(new Uint8Array(embedding.buffer, embedding.byteOffset, embedding.byteLength))
+      .digest('base64');
+  }
 
-      if (!data || !data.nodes || data.nodes.length === 0) {
-        this.log('Empty or invalid .engram file, starting fresh');
-        return;
+  private mergeAccess(ours: Memory, theirs: Pick<Memory, 'accessCount' | 'lastAccessed'>): Memory {
+    if (theirs.accessCount <= ours.accessCount && theirs.lastAccessed <= ours.lastAccessed) return ours;
+    return {
+      ...ours,
+      accessCount: Math.max(ours.accessCount, theirs.accessCount),
+      lastAccessed: theirs.lastAccessed > ours.lastAccessed ? theirs.lastAccessed : ours.lastAccessed,
+    };
+  }
+
+  // ===========================================================================
+  // Internal — Vector Index
+  // ===========================================================================
+
+  /**
+   * The ANN index over this.memories, or null when disabled, below
+   * `index.minSize`, or mid-migration (mixed embedding models). Loaded from
+   * disk or built on first use; inserts keep it current, and any other
+   * change to the memories is reconciled here by id.
+   */
+  private async vectorIndex(): Promise<HnswIndex | null> {
+    const config = this.indexConfig;
+    if (!config || this.reembedState || this.memories.length < (config.minSize ?? 2000)) return null;
+
+    const dims = this.memories[0].embedding.length;
+    if (!this.index || this.index.dims !== dims) {
+      this.index = await this.openIndex(this.indexFile, this.memories);
+      this.indexPersisted = this.index.version;
+      this.indexedMemories = null;
+    }
+
+    if (this.indexedMemories !== this.memories) {
+      const start = Date.now();
+      this.memoryById = EngramTrace.syncIndex(this.index, this.memories);
+      this.indexedMemories = this.memories;
+      this.log(`Index in step with ${this.index.size} memories (${Date.now() - start}ms)`);
+    }
+    return this.index;
+  }
+
+  /**
+   * The persisted index at `file` if it is usable with these memories and
+   * the current embedder, else an empty one to build.
+   */
+  private async openIndex(file: string | null, memories: Memory[]): Promise<HnswIndex> {
+    const dims = memories[0].embedding.length;
+    const options = { m: this.indexConfig?.m, efConstruction: this.indexConfig?.efConstruction, efSearch: this.indexConfig?.efSearch };
+
+    if (file && existsSync(file)) {
+      try {
+        const embeddings = new Map(memories.map(m => [m.id, m.embedding]));
+        const { index, meta } = HnswIndex.deserialize(await readFile(file), id => embeddings.get(id), options);
+        if (index.dims === dims && meta.model === this.currentEmbedder().model) {
+          this.log(`Loaded index of ${index.size} memories from ${file}`);
+          return index;
+        }
+        this.log(`Index ${file} was built for another embedder, rebuilding`);
+      } catch (e) {
+        this.log(`Index ${file} is unreadable, rebuilding: ${(e as Error).message}`);
       }
+    }
+    return new HnswIndex(dims, options);
+  }
+
+  /**
+   * Add what the index is missing (or holds an older embedding for) and
+   * remove what is gone. Returns the memories by id.
+   */
+  private static syncIndex(index: HnswIndex, memories: Memory[]): Map<string, Memory> {
+    const byId = new Map(memories.map(m => [m.id, m]));
+    for (const id of [...index.keys()]) {
+      if (!byId.has(id)) index.remove(id);
+    }
+    for (const m of memories) {
+      if (m.embedding.length === index.dims && index.vectorOf(m.id) !== m.embedding) index.add(m.id, m.embedding);
+    }
+    return byId;
+  }
 
-      // Convert engram MemoryNodes to Trace Memory objects
-      for (const node of data.nodes) {
-        if (!node.content) continue;
-
-        // Extract text content
-        const content = typeof node.content.data === 'string'
-          ? node.content.data
-          : '';
-        if (!content) continue;
-
-        const embedding = node.embedding
-          ? (node.embedding instanceof Float32Array ? node.embedding : new Float32Array(node.embedding))
-          : new Float32Array(0);
-
-        const meta = node.metadata || {} as Record<string, unknown>;
-        const custom = (meta as any).custom || {};
-
-        this.memories.push({
-          id: node.id || crypto.randomUUID(),
-          content,
-          embedding,
-          tags: (custom.tags as string[]) || (meta as any).tags || [],
-          importance: (custom.importance as number) ?? (node.quality?.score ?? 0.5),
-          tier: (custom.tier as MemoryTier) || (node.temporal?.decayTier as MemoryTier) || Tier.HOT,
-          createdAt: node.temporal?.created ? new Date(node.temporal.created).toISOString() : new Date().toISOString(),
-          lastAccessed: node.temporal?.accessed ? new Date(node.temporal.accessed).toISOString() : new Date().toISOString(),
-          accessCount: (custom.accessCount as number) || 0,
-          source: custom.source as string | undefined,
-          metadata: custom,
-        });
+  private async persistIndex(): Promise<void> {
+    const index = this.index;
+    if (!index || !this.indexFile || index.version === this.indexPersisted) return;
+
+    const data = index.serialize({ model: this.currentEmbedder().model });
+    await writeAtomic(this.indexFile, 0, tmp => writeFile(tmp, data));
+    this.indexPersisted = index.version;
+    this.log(`Saved index of ${index.size} memories to ${this.indexFile}`);
+  }
+
+  /**
+   * The memories of one source worth scoring for a query. Without an index
+   * that is every memory passing `keep`; with one, the nearest few per
+   * `limit`, falling back to a full scan when `keep` filters out so many of
+   * them that fewer than `limit` are left.
+   */
+  private candidatesFrom(
+    memories: Memory[],
+    index: HnswIndex | null,
+    byId: Map<string, Memory>,
+    query: Float32Array,
+    limit: number,
+    keep: (m: Memory) => boolean,
+  ): Memory[] {
+    const pool = limit * RECALL_POOL_FACTOR;
+    if (index && memories.length > pool) {
+      const near: Memory[] = [];
+      for (const r of index.search(query, pool, Math.max(pool, index.efSearch))) {
+        const m = byId.get(r.id);
+        if (m && keep(m)) near.push(m);
       }
+      if (near.length >= limit) return near;
+    }
+    return memories.filter(keep);
+  }
 
-      this.log(`Loaded ${this.memories.length} memories from ${this.file}`);
-    } catch (e) {
-      this.log(`Failed to load ${this.file}: ${e}. Starting fresh.`);
+  /**
+   * Embeddings a new memory in scope `key` could duplicate: with the index,
+   * just the nearest same-scope ones (enough for a max-similarity check).
+   */
+  private async dedupCandidates(embedding: Float32Array, key: string): Promise<Float32Array[]> {
+    const sameScope = (m: Memory) => scopeKey(m.scope) === key;
+    const index = await this.vectorIndex();
+    if (index) {
+      const near = index.search(embedding, 16);
+      const same = near.map(r => this.memoryById.get(r.id)).filter((m): m is Memory => !!m && sameScope(m));
+      // All 16 from other scopes: the nearest of ours may be further out
+      if (same.length > 0 || near.length < 16) return same.map(m => m.embedding);
     }
+    return this.memories.filter(sameScope).map(m => m.embedding);
   }
 
-  async save(): Promise<void> {
-    if (!this.dirty && existsSync(this.file)) return;
+  // ===========================================================================
+  // Internal — Lexical Index
+  // ===========================================================================
 
-    try {
-      const engram = await import('@terronex/engram');
-
-      const nodes = this.memories.map(m => {
-        const node = engram.createNode(m.content);
-        // Store embedding as number[] to avoid msgpackr Float32Array corruption
-        node.embedding = Array.from(m.embedding) as any;
-        node.id = m.id;
-        node.temporal = {
-          created: new Date(m.createdAt).getTime(),
-          modified: Date.now(),
-          accessed: new Date(m.lastAccessed).getTime(),
-          decayTier: m.tier,
-        };
-        node.quality = {
-          score: m.importance,
-          confidence: 1,
-          source: (m.source || 'trace') as any,
-        };
-        node.metadata = {
-          ...(node.metadata || {}),
-          custom: {
-            tags: m.tags,
-            importance: m.importance,
-            tier: m.tier,
-            createdAt: m.createdAt,
-            lastAccessed: m.lastAccessed,
-            accessCount: m.accessCount,
-            source: m.source,
-            ...(m.metadata || {}),
-          },
-        } as any;
-        return node;
-      });
+  /**
+   * The BM25 index over this.memories, built on the first hybrid recall.
+   * Inserts keep it current; any other change is reconciled here by id and
+   * content, as for the vector index.
+   */
+  private lexicalIndex(): Bm25Index {
+    if (!this.lexical) this.lexical = new Bm25Index();
+    if (this.lexicalMemories !== this.memories) {
+      const byId = new Map(this.memories.map(m => [m.id, m]));
+      for (const id of [...this.lexical.keys()]) {
+        if (!byId.has(id)) this.lexical.remove(id);
+      }
+      for (const m of this.memories) {
+        if (this.lexical.textOf(m.id) !== m.content) this.lexical.add(m.id, m.content);
+      }
+      this.lexicalById = byId;
+      this.lexicalMemories = this.memories;
+    }
+    return this.lexical;
+  }
 
-      const file: any = {
-        header: {
-          version: [1, 0],
-          created: Date.now(),
-          modified: Date.now(),
-          security: { encrypted: false, algorithm: 'none', kdf: 'none', integrity: new Uint8Array(0) },
-          metadata: {
-            source: 'engram-trace',
-            description: `Trace memory: ${this.memories.length} memories`,
-          },
-          schema: { version: 1, contentTypes: ['text'] },
-          stats: { nodeCount: nodes.length, totalBytes: 0, maxDepth: 0 },
-        },
-        nodes,
-        entities: [],
-        links: [],
-      };
+  private static buildLexical(memories: Memory[]): Bm25Index {
+    const lexical = new Bm25Index();
+    for (const m of memories) lexical.add(m.id, m.content);
+    return lexical;
+  }
 
-      await engram.writeEngramFile(this.file, file);
-      this.dirty = false;
-      this.log(`Saved ${this.memories.length} memories to ${this.file}`);
-    } catch (e) {
-      // Fallback: save as JSON if engram format fails
-      const { writeFile } = await import('node:fs/promises');
-      const data = this.memories.map(m => ({
-        ...m,
-        embedding: Array.from(m.embedding),
-      }));
-      await writeFile(this.file, JSON.stringify({ version: 1, format: 'engram-trace', memories: data }, null, 2));
-      this.dirty = false;
-      this.log(`Saved ${this.memories.length} memories as JSON fallback to ${this.file}`);
+  /**
+   * `near` plus the best keyword matches for `query` passing `keep`, which
+   * the embeddings may have missed. Records every match's BM25 score.
+   */
+  private withLexicalMatches(
+    near: Memory[],
+    lexical: Bm25Index,
+    byId: Map<string, Memory>,
+    query: string,
+    limit: number,
+    keep: (m: Memory) => boolean,
+    scores: Map<Memory, number>,
+  ): Memory[] {
+    const found = new Set(near);
+    for (const hit of lexical.search(query, limit * RECALL_POOL_FACTOR)) {
+      const m = byId.get(hit.id);
+      if (!m || !keep(m)) continue;
+      scores.set(m, hit.score);
+      found.add(m);
     }
+    return [...found];
   }
 
   // ===========================================================================
@@ -587,18 +2056,6 @@ export class EngramTrace {
     }
   }
 
-  private cosineSimilarity(a: Float32Array, b: Float32Array): number {
-    if (a.length !== b.length || a.length === 0) return 0;
-    let dot = 0, normA = 0, normB = 0;
-    for (let i = 0; i < a.length; i++) {
-      dot += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
-    const denom = Math.sqrt(normA) * Math.sqrt(normB);
-    return denom === 0 ? 0 : dot / denom;
-  }
-
   private log(msg: string): void {
     if (this.debug) console.log(`[engram-trace] ${msg}`);
   }
@@ -7,11 +7,72 @@
 // =============================================================================
 
 export interface TraceConfig {
-  /** Path to the .engram file (created if missing) */
+  /** Path to the .engram file (created if missing); a directory for sharded storage */
   file: string;
 
-  /** Embedding provider configuration */
-  embedder?: EmbedderConfig;
+  /**
+   * Persistence backend. Default: the single .engram `file`.
+   * Pass a config for a built-in adapter or any StorageAdapter instance.
+   */
+  storage?: StorageConfig | StorageAdapter;
+
+  /** Point-in-time snapshots (see snapshot()/restore()), or false to disable */
+  snapshots?: SnapshotConfig | false;
+
+  /**
+   * Shared brains mounted read-only: searched by recall() and bootstrap()
+   * alongside this brain, never written to.
+   */
+  mounts?: MountConfig[];
+
+  /**
+   * Default scope for every call (e.g. this process's agentId). A call's
+   * own `scope` option is merged over it.
+   */
+  scope?: MemoryScope;
+
+  /**
+   * Approximate nearest-neighbour index for recall, dedup and clustering,
+   * or false to always scan every memory.
+   */
+  index?: IndexConfig | false;
+
+  /** Defaults for every recall() (and bootstrap()) call */
+  recall?: RecallDefaults;
+
+  /**
+   * How recall() turns similarity and a memory's stats into a score: a
+   * Ranker, or weights for the built-in WeightedRanker. Default: cosine x
+   * tier boost x (1 + importance x 0.2)
+   */
+  ranker?: Ranker | RankerWeights;
+
+  /**
+   * Rerank recall()'s top candidates with a cross-encoder (or the LLM, or
+   * your own Reranker). Off unless set; a call's `rerank` option overrides.
+   */
+  rerank?: RerankConfig;
+
+  /** Token counter for buildContext(). Default: ~4 characters per token */
+  tokenCounter?: TokenCounter;
+
+  /**
+   * Named bootstrap() profiles. 'default' replaces the built-in identity /
+   * priorities / decisions / preferences profile.
+   */
+  bootstrapProfiles?: Record<string, BootstrapProfile>;
+
+  /** Rolling window of process()ed turns that recallForTurn() reads */
+  conversation?: ConversationConfig;
+
+  /**
+   * Entity extraction from every stored memory (see entities() and
+   * recallAbout()), or false to disable. Default: the local extractor
+   */
+  entities?: EntityConfig | false;
+
+  /** Embedding provider configuration, or an Embedder */
+  embedder?: EmbedderConfig | Embedder;
 
   /** LLM provider for consolidation summaries (optional) */
   llm?: LLMConfig;
@@ -28,10 +89,142 @@ export interface TraceConfig {
   /** Maximum memories before forced consolidation. Default: 10000 */
   maxMemories?: number;
 
+  /**
+   * Write-ahead journal (`<file>.journal`): every store, forget and recall
+   * access is appended immediately and compacted into the main file on
+   * consolidation, close(), or after `compactEvery` records. Default: true
+   */
+  journal?: boolean | JournalConfig;
+
+  /** Multi-process safety for a file shared by several workers */
+  concurrency?: ConcurrencyConfig;
+
+  /** Rotated backups kept next to the file (`<file>.bak.1` is newest). Default: 2 */
+  backups?: number;
+
+  /**
+   * What init() does when the file is corrupt or truncated.
+   * 'restore' tries the backups newest-first; 'throw' fails immediately.
+   * Either way a CorruptFileError is thrown if nothing readable is found.
+   * Default: 'restore'
+   */
+  onCorrupt?: 'restore' | 'throw';
+
+  /** Encrypt memories at rest (AES-256-GCM). Default: plaintext */
+  encryption?: EncryptionConfig;
+
+  /**
+   * What init() does when the file was embedded with a different model than
+   * the configured embedder. 'throw' (EmbedderMismatchError), 'warn' (load
+   * anyway; recall quality suffers), or 'reembed' (migrate on init).
+   * Default: 'throw'
+   */
+  onEmbedderMismatch?: 'throw' | 'warn' | 'reembed';
+
   /** Enable debug logging. Default: false */
   debug?: boolean;
 }
 
+export interface StorageConfig {
+  /**
+   * 'file' (default): one .engram file.
+   * 'memory': nothing persisted (tests, ephemeral agents).
+   * 'sharded': a directory of .engram files, one per shard.
+   */
+  type: 'file' | 'memory' | 'sharded';
+
+  /** Sharded only: split by memory tier or by creation month. Default: 'tier' */
+  shardBy?: 'tier' | 'month';
+}
+
+export interface SnapshotConfig {
+  /**
+   * Snapshot directory. Default: `<file>.snapshots`, `<dir>/snapshots` for
+   * sharded storage, in memory for other adapters.
+   */
+  dir?: string;
+
+  /** Snapshot automatically before every consolidate(). Default: true */
+  beforeConsolidate?: boolean;
+
+  /** Keep at most this many snapshots, oldest pruned first. Default: 10 */
+  keep?: number;
+
+  /** Also prune snapshots older than this many days. Default: never */
+  maxAgeDays?: number;
+}
+
+export interface IndexConfig {
+  /** Scan every memory (exact) below this many memories. Default: 2000 */
+  minSize?: number;
+
+  /** HNSW links per node. Default: 16 */
+  m?: number;
+
+  /** HNSW candidate list size while inserting. Default: 100 */
+  efConstruction?: number;
+
+  /** HNSW candidate list size while searching. Default: 64 */
+  efSearch?: number;
+
+  /**
+   * Where to persist the index. Default: `<file>.hnsw` (`<dir>/index.hnsw`
+   * for sharded storage); other adapters keep it in memory.
+   */
+  file?: string;
+}
+
+export interface MountConfig {
+  /** Path to the .engram file to mount */
+  file: string;
+
+  /** Multiplier on this mount's recall scores. Default: 1 */
+  weight?: number;
+
+  /** Name reported as RecallResult.origin. Default: the file name */
+  label?: string;
+
+  /** Encryption config, if the mounted brain is encrypted */
+  encryption?: EncryptionConfig;
+}
+
+export interface JournalConfig {
+  /** Compact the journal into the main file after this many records. Default: 500 */
+  compactEvery?: number;
+}
+
+export interface ConcurrencyConfig {
+  /** Advisory `<file>.lock` around journal appends and saves. Default: true */
+  lock?: boolean;
+
+  /** Give up waiting for the lock after this long (LockTimeoutError). Default: 10000 */
+  lockTimeoutMs?: number;
+
+  /** Break a lock held longer than this by a process that can't be checked. Default: 60000 */
+  staleLockMs?: number;
+
+  /**
+   * On save, 'merge' folds in memories other processes stored, forgot or
+   * accessed since this instance loaded; 'overwrite' is last-writer-wins.
+   * Default: 'merge'
+   */
+  onConflict?: 'merge' | 'overwrite';
+}
+
+export interface EncryptionConfig {
+  /** Passphrase; the file key is derived from it with argon2id */
+  passphrase?: string;
+
+  /**
+   * Key provider (keychain, KMS, env...). Return a passphrase string or a
+   * raw 32-byte key. Takes precedence over `passphrase`.
+   */
+  keyProvider?: () => string | Uint8Array | Promise<string | Uint8Array>;
+
+  /** argon2id cost parameters for new keys. Default: t=3, m=64MiB, p=4 */
+  kdfParams?: { timeCost?: number; memoryCost?: number; parallelism?: number };
+}
+
 export interface EmbedderConfig {
   /** Provider: 'local' (default), 'ollama', 'openai' */
   provider: 'local' | 'ollama' | 'openai';
@@ -74,6 +267,55 @@ export interface AutoRememberConfig {
   defaultTags?: string[];
 }
 
+export interface RerankConfig {
+  /**
+   * 'cross-encoder' (local @xenova/transformers model), 'llm' (the
+   * configured `llm`) or a Reranker. Default: 'cross-encoder'
+   */
+  reranker?: 'cross-encoder' | 'llm' | Reranker;
+
+  /** Cross-encoder model. Default: 'Xenova/ms-marco-MiniLM-L-6-v2' */
+  model?: string;
+
+  /** Candidates to rerank (at least the recall `limit`). Default: 20 */
+  topN?: number;
+
+  /**
+   * Share of the final score that comes from the reranker (0-1); the rest
+   * is the recall score. Default: 1 (reranker order)
+   */
+  weight?: number;
+
+  /** Rerank every recall() unless it passes `rerank: false`. Default: true */
+  enabled?: boolean;
+}
+
+export interface ConversationConfig {
+  /** Turns kept per user/agent (older ones drop off). Default: 6 */
+  window?: number;
+
+  /** Users/agents whose windows are kept; the least recently active drops off. Default: 1000 */
+  maxConversations?: number;
+
+  /** Characters kept of each message and response. Default: 2000 */
+  maxTurnChars?: number;
+}
+
+export interface EntityConfig {
+  /**
+   * 'local' (regex heuristics, no model), 'llm' (the configured `llm`) or
+   * an EntityExtractor. Default: 'local'
+   */
+  extractor?: 'local' | 'llm' | EntityExtractor;
+
+  /**
+   * Other names for an entity, by its name, e.g.
+   * `{ 'billing service': ['invoicer', 'billing-svc'] }`. Mentions of an
+   * alias count toward the entity, and recallAbout() accepts either.
+   */
+  aliases?: Record<string, string[]>;
+}
+
 export interface ConsolidateConfig {
   /** Trigger consolidation every N writes. Default: 100 */
   everyNWrites?: number;
@@ -120,18 +362,92 @@ export interface Memory {
   accessCount: number;
   source?: string;
   metadata?: Record<string, unknown>;
+  /** Whose memory this is. Unscoped memories are visible to every caller */
+  scope?: MemoryScope;
+  /** Typed links from this memory to others (the file's links table) */
+  links?: MemoryLink[];
+  /**
+   * Entities the content mentions (the file's entity table). Unset until
+   * extracted: memories stored with extraction off, imported or merged
+   * are extracted when entities() or recallAbout() first needs them.
+   */
+  entities?: EntityMention[];
+}
+
+/**
+ * How one memory relates to another:
+ *   - 'supersedes'   — replaces the target (e.g. a duplicate removed by consolidation)
+ *   - 'derived-from' — was made from the target (e.g. a consolidation summary)
+ *   - 'related-to'   — is about the same thing
+ *   - 'contradicts'  — disagrees with the target
+ *   - 'part-of'      — belongs to the target (a step of a plan, a detail of a project)
+ */
+export type LinkType = 'supersedes' | 'derived-from' | 'related-to' | 'contradicts' | 'part-of';
+
+export interface MemoryLink {
+  type: LinkType;
+  /** Id of the linked memory; it may have been consolidated away since (see snapshots) */
+  target: string;
+  /** ISO timestamp */
+  createdAt: string;
+  /** Who made the link: link() or consolidation */
+  createdBy: 'user' | 'consolidation';
+}
+
+/**
+ * Owner of a memory, or the caller of an operation. Private memories are
+ * only recalled by a caller with the same userId and agentId.
+ */
+export interface MemoryScope {
+  /** End user the memory belongs to */
+  userId?: string;
+
+  /** Agent that stored the memory */
+  agentId?: string;
+
+  /**
+   * 'private': only visible within this scope; 'shareable': recalled for
+   * every user and agent. Default: 'private'
+   */
+  visibility?: 'private' | 'shareable';
 }
 
 export interface RecallResult {
   memory: Memory;
   score: number;
+  /** 'private' for this brain's own memories, else the mount's label */
+  origin: string;
+  /** How the score came about (`explain: true` only) */
+  explanation?: ScoreExplanation;
+  /** Set when the memory was reached along a link from a hit (`expand`) */
+  linkedFrom?: { id: string; type: LinkType; hops: number };
+}
+
+export interface ScoreExplanation {
+  /** Name of the ranker that produced the score */
+  ranker: string;
+  /** What the ranker was given */
+  signals: RankingSignals;
+  /**
+   * The ranker's factors by name; the default ranker multiplies them, the
+   * weighted ranker adds them
+   */
+  factors: Record<string, number>;
+  /** Multiplier of the mount the memory came from (1 for this brain's own) */
+  mountWeight: number;
+  /** The reranker's name, score (0-1) and the recall score it was blended with */
+  rerank?: { reranker: string; score: number; recallScore: number };
 }
 
-export interface RecallOptions {
+export interface RecallOptions extends FusionOptions, DiversityOptions {
   /** Max results. Default: 8 */
   limit?: number;
 
-  /** Minimum similarity score. Default: 0.15 */
+  /**
+   * Minimum similarity score. Default: 0.15. With `fusion: 'rrf'` it applies
+   * to the cosine similarity before fusion, and memories sharing a query
+   * word that isn't a stopword are kept.
+   */
   minScore?: number;
 
   /** Filter by tiers. Default: all tiers */
@@ -142,6 +458,179 @@ export interface RecallOptions {
 
   /** Apply temporal decay boost. Default: true */
   decayBoost?: boolean;
+
+  /** Who is asking: only memories visible to this scope are returned */
+  scope?: MemoryScope;
+
+  /** Only memories matching this filter */
+  filter?: MemoryFilter;
+
+  /** Only memories whose `timeField` is at or after this (Date or ISO string) */
+  since?: Date | string;
+
+  /** Only memories whose `timeField` is before this (Date or ISO string) */
+  until?: Date | string;
+
+  /** Which timestamp `since`/`until` filter on. Default: 'createdAt' */
+  timeField?: 'createdAt' | 'lastAccessed';
+
+  /**
+   * Weight by actual age instead of the tier boost. Ignored when
+   * `decayBoost` is false. Default: tier boost
+   */
+  recency?: RecencyOptions;
+
+  /** Attach a per-factor score breakdown to each result. Default: false */
+  explain?: boolean;
+
+  /**
+   * Rerank the top candidates (see `rerank` config). Default: on when a
+   * rerank config is set (and enabled), else off
+   */
+  rerank?: boolean;
+
+  /**
+   * Also return memories linked to the hits, up to `hops` links away. They
+   * come on top of `limit` and must pass the same scope and filters.
+   * Default: no expansion
+   */
+  expand?: ExpandOptions;
+
+  /**
+   * Read a relative-time phrase in the query ("yesterday", "last month",
+   * "in the past 3 days") as `since`/`until` and drop it from the query
+   * text. Explicit `since`/`until` take precedence. Default: false
+   */
+  parseTime?: boolean;
+}
+
+export interface ExpandOptions {
+  /** Links to follow from each hit. Default: 1 */
+  hops?: number;
+
+  /** Link types to follow. Default: all */
+  types?: LinkType[];
+
+  /**
+   * Follow links from the hit ('out'), to it ('in') or both. Default: 'both'
+   */
+  direction?: 'out' | 'in' | 'both';
+
+  /** A linked memory scores its hit's score times this per hop. Default: 0.5 */
+  decay?: number;
+
+  /** Hits to expand, best first. Default: all of them */
+  from?: number;
+}
+
+/** A link as seen from either end */
+export interface LinkEdge extends MemoryLink {
+  /** Id of the memory holding the link */
+  source: string;
+}
+
+export interface LinkQuery {
+  /** Default: all */
+  types?: LinkType[];
+  /** Links held by the memory ('out'), pointing at it ('in') or both. Default: 'both' */
+  direction?: 'out' | 'in' | 'both';
+}
+
+export interface RecencyOptions {
+  /** Days for the score multiplier to halve */
+  halfLifeDays: number;
+
+  /** The multiplier never drops below this (0-1). Default: 0 */
+  floor?: number;
+
+  /** Age is measured from this timestamp. Default: 'createdAt' */
+  field?: 'createdAt' | 'lastAccessed';
+}
+
+/** RecallOptions that can be configured for every call (`TraceConfig.recall`) */
+export type RecallDefaults = FusionOptions & DiversityOptions & Pick<RecallOptions, 'recency' | 'parseTime'>;
+
+/**
+ * How recall() blends embedding similarity with lexical (BM25) matching:
+ *   - 'none'     — embeddings only
+ *   - 'weighted' — cosine + lexicalWeight x BM25 (normalized to the best match)
+ *   - 'rrf'      — reciprocal rank fusion of the two rankings, scaled to 0-1
+ */
+export type FusionMethod = 'none' | 'weighted' | 'rrf';
+
+export interface FusionOptions {
+  /** Default: 'none' */
+  fusion?: FusionMethod;
+
+  /** Weight of the lexical score in 'weighted' fusion. Default: 0.3 */
+  lexicalWeight?: number;
+
+  /** Rank constant for 'rrf' fusion. Default: 60 */
+  rrfK?: number;
+}
+
+/** Keeping near-paraphrases of one memory from filling every result slot */
+export interface DiversityOptions {
+  /**
+   * Pick results by maximal marginal relevance: each next result trades
+   * its score against its similarity to the results already picked.
+   * Default: false
+   */
+  mmr?: boolean;
+
+  /** MMR trade-off: 1 = score only, 0 = novelty only. Default: 0.7 */
+  mmrLambda?: number;
+
+  /**
+   * Drop results whose embedding is at least this cosine-similar to a
+   * higher-ranked result (e.g. 0.9). Default: keep them
+   */
+  collapseThreshold?: number;
+}
+
+export interface ForgetOptions {
+  /** Only forget memories that belong to this scope */
+  scope?: MemoryScope;
+
+  /** Only forget memories matching this filter (query-based forget) */
+  filter?: MemoryFilter;
+
+  /**
+   * Allow a filter that sets no condition, i.e. forget every memory (in
+   * `scope`). Without it such a filter is rejected, so a filter built from
+   * unset variables can't wipe the brain.
+   */
+  all?: boolean;
+}
+
+export interface FindOptions {
+  /** Who is asking: only memories visible to this scope are listed */
+  scope?: MemoryScope;
+
+  /** Sort key. Default: 'createdAt' */
+  orderBy?: 'createdAt' | 'lastAccessed' | 'importance' | 'accessCount';
+
+  /** Default: 'desc' (newest / highest first) */
+  order?: 'asc' | 'desc';
+
+  /** Skip this many matches. Default: 0 */
+  offset?: number;
+
+  /** Max results. Default: all */
+  limit?: number;
+}
+
+export interface BootstrapOptions extends DiversityOptions {
+  /** Who is asking (see RecallOptions.scope) */
+  scope?: MemoryScope;
+
+  /** A profile from `bootstrapProfiles`, or one given inline. Default: 'default' */
+  profile?: string | BootstrapProfile;
+}
+
+export interface ProcessOptions {
+  /** Scope an auto-remembered memory is stored under */
+  scope?: MemoryScope;
 }
 
 export interface RememberOptions {
@@ -149,6 +638,93 @@ export interface RememberOptions {
   tags?: string[];
   source?: string;
   metadata?: Record<string, unknown>;
+  /** Whose memory this is (merged over the configured `scope`) */
+  scope?: MemoryScope;
+}
+
+// =============================================================================
+// Filters
+// =============================================================================
+
+/**
+ * A condition on memories for recall(), find(), forget() and exportTo().
+ * Every field that is set must match; `and`, `or` and `not` combine
+ * filters.
+ *
+ * @example
+ * // Auto-sourced memories with importance below 0.4, older than 90 days
+ * { source: 'auto', importance: { lt: 0.4 }, createdAt: { olderThanDays: 90 } }
+ */
+export interface MemoryFilter {
+  and?: MemoryFilter[];
+  or?: MemoryFilter[];
+  not?: MemoryFilter;
+
+  /** Memory id is one of these */
+  ids?: string[];
+
+  /** Has this tag, any of these tags, or a TagCondition */
+  tags?: string | string[] | TagCondition;
+
+  /** Source is this, or one of these */
+  source?: string | string[];
+
+  tier?: MemoryTier | MemoryTier[];
+
+  importance?: NumberRange;
+
+  accessCount?: NumberRange;
+
+  createdAt?: DateRange;
+
+  lastAccessed?: DateRange;
+
+  /**
+   * Conditions on metadata keys (a dotted key reaches into nested
+   * objects). A plain value matches by equality, an array any of its
+   * values.
+   */
+  metadata?: Record<string, ValueCondition | string | number | boolean | null | Array<string | number | boolean>>;
+}
+
+export interface TagCondition {
+  any?: string[];
+  all?: string[];
+  none?: string[];
+}
+
+export interface NumberRange {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+export interface DateRange {
+  /** At or after this (Date or ISO string) */
+  since?: Date | string;
+  /** Before this (Date or ISO string) */
+  until?: Date | string;
+  /** More than this many days ago */
+  olderThanDays?: number;
+  /** Within the last this many days */
+  newerThanDays?: number;
+}
+
+/**
+ * Comparisons apply to values of the same type: numbers numerically,
+ * strings lexically (ISO dates sort correctly).
+ */
+export interface ValueCondition {
+  eq?: unknown;
+  ne?: unknown;
+  in?: unknown[];
+  gt?: number | string;
+  gte?: number | string;
+  lt?: number | string;
+  lte?: number | string;
+  /** The key is present (true) or absent (false) */
+  exists?: boolean;
 }
 
 // =============================================================================
@@ -158,14 +734,254 @@ export interface RememberOptions {
 export interface TraceStats {
   file: string;
   fileSizeMB: number;
+  /** On-disk format: 'json' means the engram library failed and upgrade() is pending */
+  fileFormat: 'engram' | 'json' | null;
   totalMemories: number;
   byTier: Record<MemoryTier, number>;
   oldestMemory: string | null;
   newestMemory: string | null;
   lastConsolidation: string | null;
   writesSinceConsolidation: number;
+  /** Journal records not yet compacted into the main file */
+  journalRecords: number;
   embeddingModel: string;
   embeddingDims: number;
+  /** Memories still embedded with the file's previous model (see reembed()) */
+  reembedPending: number;
+  /** Read-only mounted brains */
+  mounts: Array<{ label: string; file: string; weight: number; memories: number }>;
+}
+
+// =============================================================================
+// Re-embedding
+// =============================================================================
+
+export interface ReembedOptions {
+  /** Called after each memory is re-embedded */
+  onProgress?: (progress: ReembedProgress) => void;
+
+  /** Save a resumable checkpoint every N memories. Default: 100 */
+  checkpointEvery?: number;
+
+  /** Stop early (after a checkpoint); call reembed() again to resume */
+  signal?: AbortSignal;
+}
+
+export interface ReembedProgress {
+  done: number;
+  total: number;
+  memoryId: string;
+}
+
+export interface ReembedReport {
+  model: string;
+  dims: number;
+  total: number;
+  reembedded: number;
+  /** Already done by an earlier, interrupted run */
+  resumed: number;
+  complete: boolean;
+  durationMs: number;
+}
+
+// =============================================================================
+// Import / Export
+// =============================================================================
+
+/**
+ * 'jsonl': lossless, one memory per line with its embedding.
+ * 'markdown': `##` headings as tags, bullets as memories.
+ * 'csv': one row per memory, header row required.
+ */
+export type ExportFormat = 'jsonl' | 'markdown' | 'csv';
+
+export interface ExportOptions {
+  /** Also write the export to this file */
+  file?: string;
+
+  /** Only export memories matching this filter */
+  filter?: MemoryFilter;
+
+  /** Who is asking: only memories visible to this scope are exported. Default: the configured scope */
+  scope?: MemoryScope;
+}
+
+export interface ImportOptions {
+  /**
+   * Embed every memory with the configured embedder, ignoring stored
+   * embeddings. Memories without an embedding, or from a different model,
+   * are always re-embedded. Default: false
+   */
+  reembed?: boolean;
+
+  /** Skip memories similar to an existing one (`deduplicateThreshold`). Default: true */
+  skipDuplicates?: boolean;
+
+  /** Keep the ids in the input; ids already in the brain are skipped. Default: true */
+  preserveIds?: boolean;
+
+  /** Keep createdAt / lastAccessed / accessCount from the input. Default: true */
+  preserveTimestamps?: boolean;
+
+  /** Tags added to every imported memory */
+  tags?: string[];
+
+  /** Scope for imported memories, over any scope recorded in the input and the configured scope */
+  scope?: MemoryScope;
+}
+
+export interface ImportReport {
+  format: ExportFormat;
+  /** Memories found in the input */
+  total: number;
+  imported: number;
+  /** Skipped as near-duplicates of existing (or earlier imported) memories */
+  duplicates: number;
+  /** Skipped because a memory with the same id already exists */
+  existing: number;
+  /** Imported memories that had to be (re-)embedded */
+  embedded: number;
+  durationMs: number;
+}
+
+// =============================================================================
+// Brain Merge
+// =============================================================================
+
+/**
+ * How a memory that exists on both sides (same id, or near-duplicate
+ * content) is resolved:
+ * 'importance-max': keep the more important version.
+ * 'newest-wins': keep the most recently created/accessed version.
+ * 'keep-both': like 'importance-max', but same-id memories whose content
+ * diverged are both kept (theirs under a new id).
+ * Tags are always unioned and access stats take the max.
+ */
+export type MergePolicy = 'importance-max' | 'newest-wins' | 'keep-both';
+
+export interface MergeOptions {
+  /** Conflict policy. Default: 'importance-max' */
+  policy?: MergePolicy;
+
+  /** Fold near-duplicates (by embedding) into existing memories. Default: true */
+  deduplicate?: boolean;
+
+  /** Similarity for a near-duplicate. Default: the trace's deduplicateThreshold */
+  deduplicateThreshold?: number;
+
+  /** Tags added to every memory coming from the other brain */
+  tags?: string[];
+
+  /** Key for the other file, if it is encrypted */
+  encryption?: EncryptionConfig;
+
+  /** Compute the report without changing anything. Default: false */
+  dryRun?: boolean;
+}
+
+export interface MergeReport {
+  timestamp: string;
+  durationMs: number;
+  /** The other brain's file (or storage location) */
+  source: string;
+  policy: MergePolicy;
+  /** Memories in the other brain */
+  incoming: number;
+  /** New memories added as-is */
+  added: number;
+  /** Same id and same content: stats reconciled */
+  matchedById: number;
+  /** Same id, different content: resolved by the policy */
+  conflicts: number;
+  /** Conflicts kept as a second memory ('keep-both') */
+  keptBoth: number;
+  /** Different id, near-identical embedding: folded into the existing memory */
+  duplicates: number;
+  /** Incoming memories re-embedded because they came from another model */
+  reembedded: number;
+  dryRun: boolean;
+  before: { total: number; byTier: Record<MemoryTier, number> };
+  after: { total: number; byTier: Record<MemoryTier, number> };
+}
+
+// =============================================================================
+// Brain Diff
+// =============================================================================
+
+export interface DiffOptions {
+  /**
+   * Pair up removed/added memories whose ids changed (e.g. a cluster
+   * replaced by its consolidation summary) by embedding similarity.
+   * Default: true
+   */
+  semantic?: boolean;
+
+  /** Minimum similarity for a semantic match. Default: 0.85 */
+  semanticThreshold?: number;
+
+  /** Key for encrypted files */
+  encryption?: EncryptionConfig;
+}
+
+export interface BrainDiff {
+  before: { source: string; total: number };
+  after: { source: string; total: number };
+  /** Only in `after` */
+  added: Memory[];
+  /** Only in `before` */
+  removed: Memory[];
+  /** In both (same id, or a semantic match) with content, tier, importance or tags changed */
+  changed: MemoryChange[];
+  /** In both, nothing but access stats changed */
+  unchanged: number;
+}
+
+export interface MemoryChange {
+  before: Memory;
+  after: Memory;
+  /** How the two were paired */
+  match: 'id' | 'semantic';
+  /** Embedding similarity between the two versions */
+  similarity: number;
+  contentChanged: boolean;
+  tier?: { from: MemoryTier; to: MemoryTier };
+  importance?: { from: number; to: number };
+  tagsAdded: string[];
+  tagsRemoved: string[];
+}
+
+// =============================================================================
+// Snapshots
+// =============================================================================
+
+export interface SnapshotInfo {
+  /** Unique id, e.g. '20260301T120000000Z-3f2a'; use list() order, not the id, to tell which is newer */
+  id: string;
+  label: string | null;
+  /** What took it: snapshot(), consolidate(), or restore() (the pre-restore state) */
+  reason: 'manual' | 'consolidate' | 'restore';
+  createdAt: string;
+  /** Memories in the snapshot */
+  memories: number;
+}
+
+// =============================================================================
+// Recovery Report
+// =============================================================================
+
+export interface RecoveryReport {
+  timestamp: string;
+  /** The file that failed to load */
+  file: string;
+  /** Why it failed */
+  error: string;
+  /** Where the corrupt file was moved for inspection (null if left in place) */
+  quarantinedTo: string | null;
+  /** Every backup tried, in order, with the error if it failed too */
+  attempts: Array<{ file: string; error?: string }>;
+  /** The backup that was restored, or null if none was readable */
+  restoredFrom: string | null;
+  memoriesRecovered: number;
 }
 
 // =============================================================================
@@ -184,6 +1000,19 @@ export interface ConsolidationReport {
   after: { total: number; byTier: Record<MemoryTier, number> };
 }
 
+// =============================================================================
+// Vector Index
+// =============================================================================
+
+/** Nearest-neighbour search over embeddings, keyed by memory id */
+export interface VectorIndex {
+  readonly size: number;
+  add(id: string, vector: Float32Array): void;
+  remove(id: string): boolean;
+  /** The k most similar (cosine) entries, best first */
+  search(vector: Float32Array, k: number, ef?: number): Array<{ id: string; score: number }>;
+}
+
 // =============================================================================
 // Provider Interfaces
 // =============================================================================
@@ -191,20 +1020,380 @@ export interface ConsolidationReport {
 export interface Embedder {
   embed(text: string): Promise<Float32Array>;
   dims: number;
+  /** Model identifier, recorded in the file header to detect mismatches */
+  model?: string;
 }
 
 export interface LLM {
   generate(prompt: string, system?: string): Promise<string>;
 }
 
+/** Finds the entities a memory's content mentions */
+export interface EntityExtractor {
+  readonly name: string;
+  extract(text: string): Promise<EntityMention[]>;
+}
+
+/** Scores one recall candidate; higher ranks first */
+export interface Ranker {
+  /** Reported in score explanations */
+  readonly name: string;
+  score(memory: Memory, signals: RankingSignals, options: RecallOptions): RankedScore;
+}
+
+/** Scores candidates against a query by reading both together */
+export interface Reranker {
+  /** Reported in score explanations */
+  readonly name: string;
+  /** One relevance score (0-1, higher is better) per document, in order */
+  score(query: string, documents: string[]): Promise<number[]>;
+}
+
+export interface RankingSignals {
+  /** Cosine similarity of the query and memory embeddings */
+  similarity: number;
+  /** Keyword match relative to the best match (0-1); 0 without `fusion` */
+  lexical: number;
+  /** Similarity fused with the keyword match per `fusion` (the similarity for 'none') */
+  relevance: number;
+  /** Days since the memory was created */
+  ageDays: number;
+  /** Days since the memory was last recalled */
+  idleDays: number;
+}
+
+export interface RankedScore {
+  score: number;
+  /** Named parts of the score, for explanations */
+  factors: Record<string, number>;
+  /** What `minScore` is checked against, if not `score` */
+  relevance?: number;
+}
+
+/** WeightedRanker: score = sum of weight x signal, each signal 0-1 */
+export interface RankerWeights {
+  /** Weight of relevance (similarity, fused with keywords if enabled). Default: 1 */
+  similarity?: number;
+  /** Weight of importance. Default: 0.2 */
+  importance?: number;
+  /** Weight of recency, halving every `halfLifeDays`. Default: 0.2 */
+  recency?: number;
+  /** Weight of how often the memory was recalled (saturating). Default: 0.1 */
+  accessFrequency?: number;
+  /** Half-life of the recency signal. Default: 30 */
+  halfLifeDays?: number;
+}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+/** Trace bookkeeping persisted alongside the memories (file header) */
+export interface TraceMeta {
+  lastConsolidation: string | null;
+  writesSinceConsolidation: number;
+  /** The model the stored embeddings came from */
+  embedder: { model: string; dims: number } | null;
+  /** In-progress reembed() migration, for resume after interruption */
+  reembed: { model: string; dims: number; completed: string[] } | null;
+}
+
+/** Incremental change appended between full saves */
+export type JournalRecord =
+  | { op: 'store'; memory: Memory }
+  | { op: 'forget'; ids: string[] }
+  | { op: 'access'; entries: Array<{ id: string; accessCount: number; lastAccessed: string }> };
+
+export interface StoredBrain {
+  memories: Memory[];
+  meta: Partial<TraceMeta>;
+  /** Bumped on every full save */
+  generation: number;
+  /** Journal records replayed on top of the last full save (load only) */
+  journalRecords?: number;
+  /** How many of those were stores, i.e. writes since that save (load only) */
+  journalStores?: number;
+  /** The stored copy is stale or incomplete and should be rewritten now (load only) */
+  needsSave?: boolean;
+}
+
+export interface StorageAdapter {
+  /** Where the brain lives, for logs and stats */
+  readonly location: string;
+
+  /** Read the full state, with any journal replayed. Empty if nothing is stored yet. */
+  load(): Promise<StoredBrain>;
+
+  /** Replace the stored state (and compact any journal). */
+  save(brain: StoredBrain): Promise<void>;
+
+  /** Durably record one incremental change. */
+  append(record: JournalRecord): Promise<void>;
+
+  /** Remove everything this adapter stored. */
+  delete(): Promise<void>;
+
+  /** Run `fn` holding the exclusive write lock (not reentrant). */
+  lock<T>(fn: () => Promise<T>): Promise<T>;
+
+  /** True if another writer changed the stored state since our last load/save. */
+  hasChanges(): Promise<boolean>;
+
+  // --- Optional capabilities ---
+
+  /**
+   * Key rotation: write `brain` under `encryption` and use it from then on.
+   * Called under the lock, right after a save under the current key; if
+   * the write fails, the current key stays in effect.
+   */
+  setEncryption?(encryption: EncryptionConfig | null, brain: StoredBrain): Promise<void>;
+
+  /** Rewrite in the native format, never falling back (see EngramTrace.upgrade). */
+  upgrade?(brain: StoredBrain): Promise<void>;
+
+  /** What load() had to do to recover from corruption, if anything. */
+  recoveryReport?(): RecoveryReport | null;
+
+  /** Size on disk in bytes. */
+  sizeBytes?(): number;
+
+  /** On-disk format of the last load/save. */
+  format?(): 'engram' | 'json' | null;
+}
+
 // =============================================================================
 // Bootstrap Context
 // =============================================================================
 
 export interface BootstrapContext {
+  /** Sections of the built-in default profile ('' when the profile has no such section) */
   identity: string;
   priorities: string;
   decisions: string;
   preferences: string;
+  /** Results of every section, in profile order */
   raw: RecallResult[][];
+  /** Every section by name, in profile order */
+  sections: Record<string, BootstrapSectionResult>;
+  /** The profile's pinned memories */
+  pinned: Memory[];
+}
+
+export interface BootstrapSectionResult {
+  /** The memories' content, one per line */
+  text: string;
+  /**
+   * Best first. Sections without a query score each memory by its
+   * importance.
+   */
+  results: RecallResult[];
+}
+
+export interface BootstrapProfile {
+  /** In output order */
+  sections: BootstrapSection[];
+
+  /**
+   * Always included, whatever the sections find: memory ids, or a filter
+   * (e.g. `{ tags: 'pinned' }`). Pinned memories are left out of sections.
+   */
+  pinned?: string[] | MemoryFilter;
+}
+
+/**
+ * One bootstrap section: recalled for `query`, or without one, the
+ * matching memories by `orderBy`. The conditions narrow either.
+ */
+export interface BootstrapSection {
+  name: string;
+
+  query?: string;
+
+  /** Only memories with any of these tags */
+  tags?: string[];
+
+  /** Only memories in these tiers */
+  tiers?: MemoryTier[];
+
+  /** Only memories the classifier typed as any of these (stored as tags) */
+  types?: MemoryType[];
+
+  /** Any other condition */
+  filter?: MemoryFilter;
+
+  /** Max memories. Default: 4 */
+  limit?: number;
+
+  /** Query sections: minimum score. Default: 0.15 */
+  minScore?: number;
+
+  /** Sections without a query: sort key. Default: 'importance' */
+  orderBy?: FindOptions['orderBy'];
+}
+
+/** What the auto-remember classifier tags a memory as */
+export type MemoryType = 'explicit' | 'decision' | 'lesson' | 'preference' | 'identity' | 'factual' | 'technical' | 'code';
+
+// =============================================================================
+// Context Packing
+// =============================================================================
+
+/** Tokens in a piece of text, for your model's tokenizer */
+export type TokenCounter = (text: string) => number;
+
+export type ContextFormat = 'markdown' | 'xml' | 'json';
+
+export interface ContextSection {
+  /** Heading (markdown), `name` attribute (xml) or key (json) */
+  name: string;
+
+  /** Fill by recalling this query... */
+  query?: string;
+
+  /** ...or by listing memories matching this filter (most important first) */
+  filter?: MemoryFilter;
+
+  /** Filled before sections with a lower priority. Default: 0; ties in order given */
+  priority?: number;
+
+  /** Max memories considered. Default: 10 */
+  limit?: number;
+
+  /** Token cap for this section. Default: the remaining budget */
+  maxTokens?: number;
+}
+
+export interface BuildContextOptions {
+  /** Total token budget for the rendered context */
+  tokenBudget: number;
+
+  /**
+   * Put memories relevant to this query first (a 'relevant' section with
+   * the highest priority)
+   */
+  query?: string;
+
+  /** Default: the bootstrap sections (identity, priorities, decisions, preferences) */
+  sections?: ContextSection[];
+
+  /** Default: 'markdown' */
+  format?: ContextFormat;
+
+  /**
+   * What happens to memories that don't fit: 'drop' them, 'trim' the first
+   * one to the space left, or 'summarize' each section's overflow with the
+   * LLM (trims without one). Default: 'trim'
+   */
+  overflow?: 'drop' | 'trim' | 'summarize';
+
+  /** Token counter for this call. Default: `tokenCounter` config, else ~4 chars per token */
+  tokenCounter?: TokenCounter;
+
+  /** Who is asking (see RecallOptions.scope) */
+  scope?: MemoryScope;
+
+  /** Options for every section's recall (fusion, mmr, filter...) */
+  recall?: Omit<RecallOptions, 'scope' | 'limit'>;
+}
+
+/** One entry of a packed context */
+export interface ContextItem {
+  /** Memories this entry cites: one, or several for a summary */
+  ids: string[];
+  content: string;
+  /** Content was cut to fit the budget */
+  trimmed?: boolean;
+  /** Content is an LLM summary of memories that didn't fit */
+  summary?: boolean;
+}
+
+export interface BuiltContext {
+  /** Rendered context, ready for a system prompt */
+  text: string;
+  /** Tokens used, as counted by the token counter */
+  tokens: number;
+  format: ContextFormat;
+  /** In the order given (not priority order) */
+  sections: Array<{ name: string; items: ContextItem[]; tokens: number; omitted: number }>;
+  /** Every memory id cited */
+  ids: string[];
+}
+
+// =============================================================================
+// Conversation
+// =============================================================================
+
+/** A turn fed through process() */
+export interface ConversationTurn {
+  user: string;
+  assistant: string;
+  /** ISO timestamp */
+  at: string;
+}
+
+export interface TurnRecallOptions extends RecallOptions {
+  /** Most recent turns of the window to use. Default: the whole window */
+  turns?: number;
+
+  /** Weight of a turn relative to the next newer one (0-1). Default: 0.5 */
+  decay?: number;
+
+  /**
+   * Recall the message and each turn separately and fuse the results (a
+   * memory scores its best weighted match) instead of recalling one
+   * combined query. Default: false
+   */
+  subQueries?: boolean;
+
+  /** Max characters of the combined query. Default: 1000 */
+  maxQueryChars?: number;
+}
+
+// =============================================================================
+// Entities
+// =============================================================================
+
+export type EntityType = 'person' | 'project' | 'repo' | 'url' | 'version' | 'date' | 'identifier';
+
+/** An entity as one memory mentions it */
+export interface EntityMention {
+  /** As written in the memory */
+  name: string;
+  type: EntityType;
+}
+
+/**
+ * An entity across memories. Mentions that differ only in case,
+ * separators or camelCase ("billing service", "billing-service",
+ * "BillingService") are one entity.
+ */
+export interface Entity {
+  /** Normalized name */
+  id: string;
+  /** The configured name, else the most frequent spelling */
+  name: string;
+  /** The type it is mentioned as most */
+  type: EntityType;
+  /** Other spellings seen, and configured aliases */
+  aliases: string[];
+  /** Memories mentioning it */
+  mentions: number;
+  memoryIds: string[];
+  /** ISO timestamps: the oldest and newest memory mentioning it */
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface EntityQuery {
+  /** Default: all */
+  types?: EntityType[];
+
+  /** Default: 1 */
+  minMentions?: number;
+
+  /** Only count memories this caller can see (see RecallOptions.scope) */
+  scope?: MemoryScope;
+
+  /** Default: all */
+  limit?: number;
 }
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { packContext, renderContext, estimateTokens, type PackOptions } from '../src/context.js';
+import { memory } from './helpers.js';
+
+// One token per word keeps budgets easy to reason about
+const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const long = memory('long', { content: 'The deploy pipeline builds on every push to main, runs the full test suite, then promotes to staging and waits for a manual approval before production' });
+const candidates = [
+  { section: { name: 'Decisions' }, memories: [memory('d1', { content: 'Use MIT license everywhere' }), long, memory('d2', { content: 'Ship on Tuesdays' })] },
+  { section: { name: 'Identity', priority: 1 }, memories: [memory('i1', { content: 'I am the release bot' })] },
+];
+
+function pack(options: Partial<PackOptions>) {
+  return packContext(candidates, { tokenBudget: 40, format: 'markdown', countTokens: words, overflow: 'drop', ...options });
+}
+
+describe('packContext', () => {
+  it('fills by priority within budget and renders in the order given', async () => {
+    const context = await pack({ overflow: 'drop' });
+    expect(context.text).toBe([
+      '## Decisions',
+      '- [d1] Use MIT license everywhere',
+      '- [d2] Ship on Tuesdays',
+      '',
+      '## Identity',
+      '- [i1] I am the release bot',
+    ].join('\n'));
+    expect(context.tokens).toBeLessThanOrEqual(40);
+    expect(context.ids).toEqual(['i1', 'd1', 'd2']);
+    expect(context.sections[0].omitted).toBe(1);
+  });
+
+  it('trims the first memory that does not fit', async () => {
+    const context = await pack({ overflow: 'trim' });
+    const trimmed = context.sections[0].items[1];
+    expect(trimmed).toMatchObject({ ids: ['long'], trimmed: true });
+    expect(trimmed.content.endsWith('…')).toBe(true);
+    expect(long.content.startsWith(trimmed.content.slice(0, -1))).toBe(true);
+    expect(context.tokens).toBeLessThanOrEqual(40);
+    expect(context.ids).not.toContain('d2');
+  });
+
+  it('summarizes overflow, citing every summarized id', async () => {
+    const context = await pack({
+      overflow: 'summarize',
+      summarize: async (memories, maxTokens) => {
+        expect(maxTokens).toBeGreaterThan(0);
+        return `Pipeline and release cadence (${memories.length})`;
+      },
+    });
+    const summary = context.sections[0].items.at(-1)!;
+    expect(summary).toMatchObject({ ids: ['long', 'd2'], summary: true });
+    expect(context.text).toContain('- [long, d2] (summary) Pipeline and release cadence (2)');
+  });
+
+  it('respects per-section caps', async () => {
+    const capped = [{ section: { name: 'Decisions', maxTokens: 8 }, memories: candidates[0].memories }];
+    const context = await packContext(capped, { tokenBudget: 1000, format: 'markdown', countTokens: words, overflow: 'drop' });
+    expect(context.sections[0].items.map(i => i.ids[0])).toEqual(['d1']);
+  });
+});
+
+describe('renderContext', () => {
+  const sections = [{ name: 'rules', items: [{ ids: ['m1'], content: 'Never <force> push' }] }, { name: 'empty', items: [] }];
+
+  it('renders XML with escaped content and JSON with ids', () => {
+    expect(renderContext(sections, 'xml')).toBe(
+      '<memory-context>\n<section name="rules">\n<memory id="m1">Never &lt;force&gt; push</memory>\n</section>\n</memory-context>',
+    );
+    expect(JSON.parse(renderContext(sections, 'json'))).toEqual({
+      sections: [{ name: 'rules', memories: [{ id: 'm1', content: 'Never <force> push' }] }],
+    });
+  });
+
+  it('estimates about four characters per token', () => {
+    expect(estimateTokens('12345678')).toBe(2);
+  });
+});
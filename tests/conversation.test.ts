@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { turnQueries, combinedTurnQuery, fuseWeightedResults } from '../src/conversation.js';
+import type { ConversationTurn } from '../src/types.js';
+import { memory } from './helpers.js';
+
+const turns: ConversationTurn[] = [
+  { user: 'Which database do we use?', assistant: 'Postgres 16 on RDS.', at: '2026-10-01T10:00:00.000Z' },
+  { user: 'How do we deploy the prod server?', assistant: 'Through the release pipeline.', at: '2026-10-01T10:01:00.000Z' },
+];
+
+describe('turnQueries', () => {
+  it('puts the message first and weighs older turns less', () => {
+    const queries = turnQueries('and what about the staging one?', turns, { decay: 0.5, maxChars: 1000 });
+    expect(queries).toEqual([
+      { text: 'and what about the staging one?', weight: 1 },
+      { text: 'How do we deploy the prod server? Through the release pipeline.', weight: 0.5 },
+      { text: 'Which database do we use? Postgres 16 on RDS.', weight: 0.25 },
+    ]);
+  });
+
+  it('leads with the newest turn without a message', () => {
+    expect(turnQueries(undefined, turns, { decay: 0.5, maxChars: 1000 })[0].weight).toBe(1);
+    expect(turnQueries('  ', [], { decay: 0.5, maxChars: 1000 })).toEqual([]);
+  });
+});
+
+describe('combinedTurnQuery', () => {
+  it('gives older turns a smaller share of the budget, cut at word boundaries', () => {
+    const query = combinedTurnQuery('and what about the staging one?', turns, { decay: 0.5, maxChars: 60 });
+    expect(query).toBe('and what about the staging one?\nHow do we deploy the prod');
+    expect(query.length).toBeLessThanOrEqual(60);
+  });
+});
+
+describe('fuseWeightedResults', () => {
+  it('keeps each memory at its best weighted score', () => {
+    const [a, b] = [memory('a'), memory('b')];
+    const fused = fuseWeightedResults([
+      { results: [{ memory: a, score: 0.5, origin: 'private' }], weight: 1 },
+      { results: [{ memory: b, score: 0.9, origin: 'private' }, { memory: a, score: 0.9, origin: 'private' }], weight: 0.5 },
+    ]);
+    expect(fused.map(r => [r.memory.id, r.score])).toEqual([['a', 0.5], ['b', 0.45]]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { randomBytes } from 'node:crypto';
+import { FileCipher, encodeEmbedding, decodeEmbedding } from '../src/crypto.js';
+import { EncryptionError } from '../src/errors.js';
+
+const kdfParams = { timeCost: 1, memoryCost: 1024, parallelism: 1 };
+
+describe('FileCipher', () => {
+  it('round-trips sealed values', async () => {
+    const cipher = await FileCipher.create({ passphrase: 'correct horse', kdfParams });
+    const sealed = cipher.seal('my api key is sk-123', 'mem-1');
+    expect(sealed).not.toContain('sk-123');
+    expect(cipher.open(sealed, 'mem-1').toString('utf8')).toBe('my api key is sk-123');
+  });
+
+  it('fills in the security descriptor', async () => {
+    const cipher = await FileCipher.create({ passphrase: 'correct horse', kdfParams });
+    expect(cipher.descriptor).toMatchObject({
+      encrypted: true,
+      algorithm: 'aes-256-gcm',
+      kdf: 'argon2id',
+      kdfParams,
+    });
+    expect(cipher.descriptor.salt).toBeTruthy();
+    expect(cipher.descriptor.keyCheck).toBeTruthy();
+  });
+
+  it('re-opens a descriptor with the right passphrase', async () => {
+    const a = await FileCipher.create({ passphrase: 'correct horse', kdfParams });
+    const sealed = a.seal('hello');
+    const b = await FileCipher.open({ passphrase: 'correct horse' }, a.descriptor);
+    expect(b.open(sealed).toString('utf8')).toBe('hello');
+  });
+
+  it('fails loudly on a wrong passphrase', async () => {
+    const a = await FileCipher.create({ passphrase: 'correct horse', kdfParams });
+    await expect(FileCipher.open({ passphrase: 'battery staple' }, a.descriptor))
+      .rejects.toBeInstanceOf(EncryptionError);
+  });
+
+  it('rejects records moved to another id', async () => {
+    const cipher = await FileCipher.create({ passphrase: 'correct horse', kdfParams });
+    const sealed = cipher.seal('secret', 'mem-1');
+    expect(() => cipher.open(sealed, 'mem-2')).toThrow(EncryptionError);
+  });
+
+  it('accepts a raw 32-byte key from a provider', async () => {
+    const key = randomBytes(32);
+    const a = await FileCipher.create({ keyProvider: async () => key });
+    expect(a.descriptor.kdf).toBe('none');
+    const b = await FileCipher.open({ keyProvider: () => key }, a.descriptor);
+    expect(b.open(a.seal('x')).toString('utf8')).toBe('x');
+    await expect(FileCipher.create({ keyProvider: () => randomBytes(16) }))
+      .rejects.toBeInstanceOf(EncryptionError);
+  });
+});
+
+describe('embedding encoding', () => {
+  it('round-trips Float32Array', () => {
+    const v = new Float32Array([0.1, -0.5, 3.25]);
+    expect(Array.from(decodeEmbedding(encodeEmbedding(v)))).toEqual(Array.from(v));
+  });
+});
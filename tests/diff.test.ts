@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { diffMemories, formatDiff } from '../src/diff.js';
+import { MemoryTier } from '../src/types.js';
+import { memory } from './helpers.js';
+
+describe('diffMemories', () => {
+  it('reports added, removed and field changes by id', () => {
+    const before = [
+      memory('same'),
+      memory('gone', { embedding: new Float32Array([0, 1, 0]) }),
+      memory('moved', { embedding: new Float32Array([0, 0, 1]) }),
+    ];
+    const after = [
+      memory('same', { accessCount: 9, lastAccessed: '2026-05-01T00:00:00.000Z' }),
+      memory('moved', { embedding: new Float32Array([0, 0, 1]), tier: MemoryTier.WARM, importance: 0.8, tags: ['x'] }),
+      memory('new', { embedding: new Float32Array([1, 1, 0]) }),
+    ];
+
+    const diff = diffMemories(before, after, { semanticThreshold: null });
+    expect(diff.added.map(m => m.id)).toEqual(['new']);
+    expect(diff.removed.map(m => m.id)).toEqual(['gone']);
+    expect(diff.unchanged).toBe(1);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0]).toMatchObject({
+      match: 'id',
+      contentChanged: false,
+      tier: { from: 'hot', to: 'warm' },
+      importance: { from: 0.5, to: 0.8 },
+      tagsAdded: ['x'],
+    });
+  });
+
+  it('pairs memories whose ids changed by embedding similarity', () => {
+    const before = [memory('old', { content: 'Decided on Postgres' })];
+    const after = [memory('summary', { content: 'Summary: database decisions', embedding: new Float32Array([0.95, 0.1, 0]) })];
+
+    const diff = diffMemories(before, after, { semanticThreshold: 0.85 });
+    expect(diff.added).toHaveLength(0);
+    expect(diff.removed).toHaveLength(0);
+    expect(diff.changed[0]).toMatchObject({ match: 'semantic', contentChanged: true });
+
+    expect(formatDiff(diff)).toContain('~ [old -> summary] semantic match (0.99)');
+  });
+});
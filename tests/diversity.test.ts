@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { collapseNearDuplicates, selectMmr } from '../src/diversity.js';
+import type { RecallResult } from '../src/types.js';
+import { memory } from './helpers.js';
+
+function result(id: string, embedding: number[], score: number): RecallResult {
+  return {
+    memory: memory(id, { embedding: new Float32Array(embedding) }),
+    score,
+    origin: 'private',
+  };
+}
+
+// Three paraphrases of one decision, then two distinct memories
+const ranked = [
+  result('a', [1, 0, 0], 0.9),
+  result('a2', [0.99, 0.05, 0], 0.88),
+  result('a3', [0.98, 0, 0.05], 0.87),
+  result('b', [0, 1, 0], 0.6),
+  result('c', [0, 0, 1], 0.5),
+];
+
+describe('collapseNearDuplicates', () => {
+  it('keeps the best of each group of near-duplicates, in order', () => {
+    expect(collapseNearDuplicates(ranked, 0.95).map(r => r.memory.id)).toEqual(['a', 'b', 'c']);
+    expect(collapseNearDuplicates(ranked, 1.01)).toHaveLength(5);
+  });
+});
+
+describe('selectMmr', () => {
+  it('prefers novel results over paraphrases of one already picked', () => {
+    expect(selectMmr(ranked, 3, 0.5).map(r => r.memory.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('is plain ranking at lambda 1', () => {
+    expect(selectMmr(ranked, 3, 1).map(r => r.memory.id)).toEqual(['a', 'a2', 'a3']);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { extractEntities, entityKey, parseEntities, withKnownNames, EntityIndex } from '../src/entities.js';
+import { memory } from './helpers.js';
+
+describe('extractEntities', () => {
+  it('finds people, projects, repos, URLs, versions and dates', () => {
+    expect(extractEntities('Asked Dana about the billing service: it moves to https://github.com/acme/billing.git with v2.4.0 on 2026-11-02.')).toEqual([
+      { name: 'Dana', type: 'person' },
+      { name: 'billing service', type: 'project' },
+      { name: 'https://github.com/acme/billing.git', type: 'url' },
+      { name: 'acme/billing', type: 'repo' },
+      { name: 'v2.4.0', type: 'version' },
+      { name: '2026-11-02', type: 'date' },
+    ]);
+  });
+
+  it('finds code identifiers', () => {
+    expect(extractEntities('BillingService calls `chargeCustomer()` from retry_policy.ts with max_retries.').map(e => e.name))
+      .toEqual(['BillingService', 'chargeCustomer()', 'retry_policy.ts', 'max_retries']);
+  });
+
+  it('leaves out what only looks like an entity', () => {
+    expect(extractEntities('The user wants the app to be fast. Yesterday the score was 0.5 on host 10.0.0.1.')).toEqual([]);
+    expect(extractEntities('My manager Sam Lee wants Postgres 16.2 by March 3, 2026; cc @jordan.')).toEqual([
+      { name: 'Sam Lee', type: 'person' },
+      { name: 'Postgres 16.2', type: 'version' },
+      { name: 'March 3, 2026', type: 'date' },
+      { name: '@jordan', type: 'person' },
+    ]);
+  });
+});
+
+describe('entityKey', () => {
+  it('gives spellings of one entity the same key', () => {
+    expect(new Set(['the billing service', 'billing-service', 'BillingService', 'billing_service'].map(entityKey))).toEqual(new Set(['billing service']));
+    expect(entityKey('v2.4.0')).toBe(entityKey('2.4.0'));
+    expect(entityKey('@dana')).toBe(entityKey('Dana'));
+  });
+});
+
+describe('withKnownNames', () => {
+  it('adds configured names and aliases the extractor missed', () => {
+    const aliases = { 'billing service': ['invoicer'], 'Atlas': [] };
+    expect(withKnownNames([], 'The Invoicer emails PDFs.', aliases)).toEqual([{ name: 'Invoicer', type: 'project' }]);
+    expect(withKnownNames([{ name: 'billing service', type: 'project' }], 'the billing service, aka invoicer', aliases)).toHaveLength(1);
+  });
+});
+
+describe('parseEntities', () => {
+  it('reads the JSON array, skipping unknown types and repeats', () => {
+    expect(parseEntities('Here: [{"name": "Dana", "type": "person"}, {"name": "dana", "type": "person"}, {"name": "x", "type": "thing"}]'))
+      .toEqual([{ name: 'Dana', type: 'person' }]);
+    expect(() => parseEntities('No entities here.')).toThrow(/JSON array/);
+  });
+});
+
+describe('EntityIndex', () => {
+  const index = new EntityIndex([
+    memory('a', { entities: [{ name: 'billing service', type: 'project' }, { name: 'Dana', type: 'person' }], createdAt: '2026-10-01T00:00:00.000Z' }),
+    memory('b', { entities: [{ name: 'BillingService', type: 'identifier' }], createdAt: '2026-10-03T00:00:00.000Z' }),
+    memory('c', { entities: [{ name: 'the billing service', type: 'project' }, { name: 'invoicer', type: 'project' }], createdAt: '2026-10-02T00:00:00.000Z' }),
+  ], { 'billing service': ['invoicer'] });
+
+  it('gathers mentions across memories and spellings', () => {
+    expect(index.all().map(e => [e.name, e.type, e.mentions])).toEqual([['billing service', 'project', 3], ['Dana', 'person', 1]]);
+    const billing = index.get('billing service')!;
+    expect(billing.aliases).toEqual(['BillingService', 'the billing service', 'invoicer']);
+    expect(billing.memoryIds).toEqual(['a', 'b', 'c']);
+    expect([billing.firstSeen, billing.lastSeen]).toEqual(['2026-10-01T00:00:00.000Z', '2026-10-03T00:00:00.000Z']);
+  });
+
+  it('looks entities up by any name or alias', () => {
+    expect(index.get('Invoicer')?.id).toBe('billing service');
+    expect(index.get('billing-service')?.id).toBe('billing service');
+    expect(index.get('payments')).toBeUndefined();
+  });
+});
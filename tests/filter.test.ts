@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { compileFilter, matchesEverything } from '../src/filter.js';
+import { MemoryTier, type MemoryFilter } from '../src/types.js';
+import { memory } from './helpers.js';
+
+const now = Date.parse('2026-10-01T00:00:00.000Z');
+const daysAgo = (days: number) => new Date(now - days * 86_400_000).toISOString();
+
+// Recent unless a test says otherwise
+const recent = { createdAt: daysAgo(1), lastAccessed: daysAgo(1) };
+
+const memories = [
+  memory('stale', { ...recent, source: 'auto', importance: 0.2, createdAt: daysAgo(120), tags: ['chat'] }),
+  memory('fresh', { ...recent, source: 'auto', importance: 0.2, tags: ['chat', 'infra'] }),
+  memory('manual', { ...recent, source: 'cli', importance: 0.9, createdAt: daysAgo(200), tier: MemoryTier.COLD, tags: ['decision'] }),
+  memory('ticket', { ...recent, metadata: { ticket: { id: 'ENG-42', priority: 2 }, team: 'infra' } }),
+];
+
+function ids(filter: MemoryFilter): string[] {
+  return memories.filter(compileFilter(filter, now)).map(m => m.id);
+}
+
+describe('compileFilter', () => {
+  it('combines source, importance and age', () => {
+    expect(ids({ source: 'auto', importance: { lt: 0.4 }, createdAt: { olderThanDays: 90 } })).toEqual(['stale']);
+    expect(ids({ createdAt: { since: daysAgo(150), until: daysAgo(100) } })).toEqual(['stale']);
+  });
+
+  it('supports and/or/not', () => {
+    expect(ids({ or: [{ source: 'cli' }, { tags: 'infra' }] })).toEqual(['fresh', 'manual']);
+    expect(ids({ not: { source: ['auto', 'cli'] } })).toEqual(['ticket']);
+    expect(ids({ and: [{ tier: [MemoryTier.COLD, MemoryTier.WARM] }, { importance: { gte: 0.9 } }] })).toEqual(['manual']);
+  });
+
+  it('matches by id', () => {
+    expect(ids({ ids: ['ticket', 'stale', 'missing'] })).toEqual(['stale', 'ticket']);
+    expect(ids({ not: { ids: ['stale', 'fresh'] } })).toEqual(['manual', 'ticket']);
+  });
+
+  it('matches tag conditions', () => {
+    expect(ids({ tags: { all: ['chat', 'infra'] } })).toEqual(['fresh']);
+    expect(ids({ tags: { any: ['chat'], none: ['infra'] } })).toEqual(['stale']);
+  });
+
+  it('matches metadata by value, nested key and comparison', () => {
+    expect(ids({ metadata: { team: 'infra' } })).toEqual(['ticket']);
+    expect(ids({ metadata: { 'ticket.id': { in: ['ENG-41', 'ENG-42'] } } })).toEqual(['ticket']);
+    expect(ids({ metadata: { 'ticket.priority': { lte: 2 } } })).toEqual(['ticket']);
+    expect(ids({ metadata: { 'ticket.priority': { lt: '3' } } })).toEqual([]);
+    expect(ids({ metadata: { team: { exists: false } } })).toEqual(['stale', 'fresh', 'manual']);
+  });
+
+  it('rejects unknown fields', () => {
+    expect(() => compileFilter({ sorce: 'auto' } as MemoryFilter)).toThrow(/Unknown filter field "sorce"/);
+    expect(() => compileFilter({ importance: { below: 0.4 } } as MemoryFilter)).toThrow(/importance condition "below"/);
+  });
+
+  it('tells filters that set no condition', () => {
+    expect(matchesEverything({})).toBe(true);
+    expect(matchesEverything({ source: undefined, and: [{}], metadata: {} })).toBe(true);
+    expect(matchesEverything({ or: [{ source: 'auto' }, {}] })).toBe(true);
+    expect(matchesEverything({ source: 'auto' })).toBe(false);
+    expect(matchesEverything({ ids: [] })).toBe(false);
+    expect(matchesEverything({ or: [] })).toBe(false);
+  });
+
+  it('counts an empty condition as no condition', () => {
+    const empty: MemoryFilter[] = [
+      { importance: {} },
+      { accessCount: { gte: undefined } },
+      { createdAt: { olderThanDays: undefined } },
+      { lastAccessed: { since: undefined, until: undefined } },
+      { tags: {} },
+      { tags: { all: [], none: [] } },
+      { metadata: { project: {} } },
+      { metadata: { project: { gt: undefined } } },
+      { and: [{ importance: {} }], or: [{ tags: { any: undefined } }] },
+    ];
+    for (const filter of empty) {
+      expect(matchesEverything(filter)).toBe(true);
+      expect(ids(filter)).toHaveLength(memories.length);
+    }
+
+    expect(matchesEverything({ importance: { gte: 0.5 } })).toBe(false);
+    expect(matchesEverything({ tags: { any: [] } })).toBe(false);
+    expect(matchesEverything({ metadata: { project: { eq: undefined } } })).toBe(false);
+    expect(matchesEverything({ metadata: { project: undefined as never } })).toBe(false);
+  });
+});
@@ -0,0 +1,18 @@
+import { MemoryTier, type Memory } from '../src/types.js';
+
+/** A memory with plain defaults; `lastAccessed` follows `createdAt` unless given */
+export function memory(id: string, fields: Partial<Memory> = {}): Memory {
+  const createdAt = fields.createdAt ?? '2026-01-01T00:00:00.000Z';
+  return {
+    id,
+    content: `memory ${id}`,
+    embedding: new Float32Array([1, 0, 0]),
+    tags: [],
+    importance: 0.5,
+    tier: MemoryTier.HOT,
+    createdAt,
+    lastAccessed: createdAt,
+    accessCount: 0,
+    ...fields,
+  };
+}
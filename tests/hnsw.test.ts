@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { HnswIndex } from '../src/hnsw.js';
+
+function randomVectors(count: number, dims: number, seed = 1): Float32Array[] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  return Array.from({ length: count }, () => Float32Array.from({ length: dims }, next));
+}
+
+function exactTop(vectors: Float32Array[], query: Float32Array, k: number): string[] {
+  const cosine = (a: Float32Array, b: Float32Array) => {
+    let dot = 0, na = 0, nb = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      na += a[i] * a[i];
+      nb += b[i] * b[i];
+    }
+    return dot / Math.sqrt(na * nb);
+  };
+  return vectors
+    .map((v, i) => ({ id: `m${i}`, score: cosine(v, query) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(r => r.id);
+}
+
+function recallAt(index: HnswIndex, vectors: Float32Array[], queries: Float32Array[], k: number): number {
+  let hits = 0;
+  for (const q of queries) {
+    const truth = new Set(exactTop(vectors, q, k));
+    hits += index.search(q, k).filter(r => truth.has(r.id)).length;
+  }
+  return hits / (queries.length * k);
+}
+
+describe('HnswIndex', () => {
+  const vectors = randomVectors(1500, 32);
+  const queries = randomVectors(30, 32, 99);
+
+  it('finds nearly all true nearest neighbours', () => {
+    const index = new HnswIndex(32);
+    vectors.forEach((v, i) => index.add(`m${i}`, v));
+
+    expect(index.size).toBe(1500);
+    expect(recallAt(index, vectors, queries, 10)).toBeGreaterThan(0.9);
+
+    const [best] = index.search(vectors[7], 1);
+    expect(best.id).toBe('m7');
+    expect(best.score).toBeCloseTo(1, 5);
+  });
+
+  it('never returns removed entries and stays accurate after compaction', () => {
+    const index = new HnswIndex(32);
+    vectors.forEach((v, i) => index.add(`m${i}`, v));
+    for (let i = 0; i < 1000; i++) index.remove(`m${i}`);
+
+    const live = vectors.slice(1000);
+    const results = index.search(queries[0], 20);
+    expect(results.every(r => Number(r.id.slice(1)) >= 1000)).toBe(true);
+
+    let hits = 0;
+    for (const q of queries) {
+      const truth = new Set(exactTop(live, q, 10).map(id => `m${Number(id.slice(1)) + 1000}`));
+      hits += index.search(q, 10).filter(r => truth.has(r.id)).length;
+    }
+    expect(hits / (queries.length * 10)).toBeGreaterThan(0.9);
+  });
+
+  it('round-trips the graph without storing vectors', () => {
+    const index = new HnswIndex(32, { m: 8 });
+    vectors.slice(0, 500).forEach((v, i) => index.add(`m${i}`, v));
+
+    const data = index.serialize({ generation: 3 });
+    expect(data.length).toBeLessThan(500 * 32 * 4);
+
+    // m3 was forgotten after the index was written
+    const { index: loaded, meta } = HnswIndex.deserialize(data, id => (id === 'm3' ? undefined : vectors[Number(id.slice(1))]));
+    expect(meta).toEqual({ generation: 3 });
+    expect(loaded.size).toBe(499);
+    expect(loaded.search(vectors[42], 1)[0].id).toBe('m42');
+    expect(loaded.search(vectors[3], 5).map(r => r.id)).not.toContain('m3');
+  });
+});
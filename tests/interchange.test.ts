@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { serializeMemories, parseMemories } from '../src/interchange.js';
+import { MemoryTier, type Memory } from '../src/types.js';
+import { memory } from './helpers.js';
+
+/** Every optional field set, so round trips cover them */
+const full: Partial<Memory> = {
+  embedding: new Float32Array([0.1, 0.2, 0.3]),
+  tags: ['project'],
+  importance: 0.7,
+  tier: MemoryTier.WARM,
+  createdAt: '2026-01-02T03:04:05.000Z',
+  lastAccessed: '2026-02-02T03:04:05.000Z',
+  accessCount: 4,
+  source: 'manual',
+  metadata: { reason: 'test' },
+};
+
+const links: Memory['links'] = [{ type: 'supersedes', target: 'b', createdAt: '2026-01-03T00:00:00.000Z', createdBy: 'user' }];
+
+describe('JSONL', () => {
+  it('round-trips every field, embeddings bit-exact', () => {
+    const original = [memory('a', { ...full, links }), memory('b', { ...full, content: 'line one\nline "two"', tags: [] })];
+    const text = serializeMemories(original, 'jsonl', { model: 'm', dims: 3 });
+    const { memories, embedder } = parseMemories(text, 'jsonl');
+
+    expect(embedder).toEqual({ model: 'm', dims: 3 });
+    expect(memories).toEqual(original);
+  });
+});
+
+describe('CSV', () => {
+  it('round-trips quoted content, tags, metadata, links and entities', () => {
+    const entities: Memory['entities'] = [{ name: 'pro tier', type: 'project' }];
+    const original = [memory('a', { ...full, content: 'Pricing: $10, "pro" tier\nrenews yearly', tags: ['pricing', 'plans'], links, entities })];
+    const { memories, embedder } = parseMemories(serializeMemories(original, 'csv', { model: 'm', dims: 3 }), 'csv');
+    expect(memories).toEqual(original);
+    expect(embedder).toEqual({ model: 'm', dims: 3 });
+  });
+
+  it('accepts a sheet with only a content column', () => {
+    const { memories } = parseMemories('content\nfirst note\n"second, note"\n', 'csv');
+    expect(memories.map(m => m.content)).toEqual(['first note', 'second, note']);
+    expect(memories[0].embedding).toBeUndefined();
+  });
+});
+
+describe('Markdown', () => {
+  it('turns headings into tags and bullets into memories', () => {
+    const text = [
+      '# MEMORY.md',
+      '',
+      '## User Preferences',
+      '- Prefers dark mode',
+      '- Writes in British English',
+      '  (colour, not color)',
+      '',
+      '## Projects',
+      '### Pricing',
+      '* Launch price is $29 #decision',
+      'A stray paragraph that is not a memory.',
+    ].join('\n');
+
+    const { memories } = parseMemories(text, 'markdown');
+    expect(memories).toEqual([
+      { content: 'Prefers dark mode', tags: ['user-preferences'] },
+      { content: 'Writes in British English\n(colour, not color)', tags: ['user-preferences'] },
+      { content: 'Launch price is $29', tags: ['projects', 'pricing', 'decision'] },
+    ]);
+  });
+
+  it('keeps content and tags across an export/import cycle', () => {
+    const original = [memory('a', { ...full, tags: ['prefs', 'ui'] }), memory('b', { ...full, tags: [] })];
+    const { memories } = parseMemories(serializeMemories(original, 'markdown'), 'markdown');
+
+    expect(memories.map(m => [m.content, m.tags])).toEqual([
+      ['memory b', []],
+      ['memory a', ['prefs', 'ui']],
+    ]);
+  });
+});
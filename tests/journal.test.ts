@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mkdtemp, appendFile, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Journal, replayJournal } from '../src/journal.js';
+import { FileCipher } from '../src/crypto.js';
+import { memory } from './helpers.js';
+
+describe('Journal', () => {
+  let path: string;
+
+  beforeEach(async () => {
+    path = join(await mkdtemp(join(tmpdir(), 'trace-journal-')), 'brain.engram.journal');
+  });
+
+  it('round-trips records including embeddings', async () => {
+    const journal = new Journal(path, () => null);
+    await journal.append({ op: 'store', memory: memory('a', { embedding: new Float32Array([0.25, 0.5, 0.75]) }) });
+    await journal.append({ op: 'forget', ids: ['b'] });
+
+    const { records } = await new Journal(path, () => null).read();
+    expect(records).toHaveLength(2);
+    expect(records[0].op).toBe('store');
+    if (records[0].op === 'store') {
+      expect(Array.from(records[0].memory.embedding)).toEqual([0.25, 0.5, 0.75]);
+    }
+  });
+
+  it('drops a torn final line', async () => {
+    const journal = new Journal(path, () => null);
+    await journal.append({ op: 'store', memory: memory('a') });
+    await appendFile(path, '{"op":"store","mem');
+
+    const { records, skipped } = await new Journal(path, () => null).read();
+    expect(records).toHaveLength(1);
+    expect(skipped).toBe(1);
+  });
+
+  it('keeps a record appended after a torn line', async () => {
+    await appendFile(path, '{"op":"store","mem');
+    const journal = new Journal(path, () => null);
+    await journal.append({ op: 'store', memory: memory('a') });
+
+    const { records, skipped } = await new Journal(path, () => null).read();
+    expect(records.map(r => r.op === 'store' && r.memory.id)).toEqual(['a']);
+    expect(skipped).toBe(1);
+  });
+
+  it('skips records above a checkpoint the main file reached', async () => {
+    const journal = new Journal(path, () => null);
+    await journal.append({ op: 'store', memory: memory('a') });
+    await journal.checkpoint(4);
+    await journal.append({ op: 'store', memory: memory('b') });
+
+    // Crashed before the save of generation 4 landed: replay everything
+    expect((await new Journal(path, () => null).read(3)).records).toHaveLength(2);
+    // Crashed after it, before the truncate: `a` is in the main file already
+    const { records } = await new Journal(path, () => null).read(4);
+    expect(records.map(r => r.op === 'store' && r.memory.id)).toEqual(['b']);
+  });
+
+  it('keeps records appended after the truncation mark', async () => {
+    const journal = new Journal(path, () => null);
+    await journal.append({ op: 'store', memory: memory('a') });
+    const mark = journal.size;
+    await journal.append({ op: 'store', memory: memory('b') });
+    await journal.truncate(mark);
+
+    const { records } = await new Journal(path, () => null).read();
+    expect(records).toHaveLength(1);
+    expect(journal.size).toBe(1);
+  });
+
+  it('seals records when a cipher is available', async () => {
+    const cipher = await FileCipher.create({ passphrase: 'pw', kdfParams: { timeCost: 1, memoryCost: 1024, parallelism: 1 } });
+    const journal = new Journal(path, () => cipher);
+    await journal.append({ op: 'store', memory: memory('a', { content: 'the secret plan' }) });
+
+    expect(await readFile(path, 'utf8')).not.toContain('secret plan');
+    const { records } = await journal.read();
+    expect(records[0].op === 'store' && records[0].memory.content).toBe('the secret plan');
+  });
+});
+
+describe('replayJournal', () => {
+  it('applies stores, forgets and accesses idempotently', () => {
+    const base = [memory('a'), memory('b')];
+    const later = new Date(Date.now() + 1000).toISOString();
+    const records = [
+      { op: 'store' as const, memory: memory('c') },
+      { op: 'forget' as const, ids: ['b'] },
+      { op: 'access' as const, entries: [{ id: 'a', accessCount: 3, lastAccessed: later }] },
+    ];
+
+    const once = replayJournal(base, records);
+    const twice = replayJournal(once, records);
+
+    expect(twice.map(m => m.id).sort()).toEqual(['a', 'c']);
+    expect(twice.find(m => m.id === 'a')!.accessCount).toBe(3);
+    expect(twice.find(m => m.id === 'a')!.lastAccessed).toBe(later);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { Bm25Index, tokenize, keywords, fuseScores } from '../src/lexical.js';
+
+describe('tokenize', () => {
+  it('keeps identifiers whole and also indexes their parts', () => {
+    expect(tokenize('Upgraded to v2.1 on port 8080')).toEqual(['upgraded', 'to', 'v2.1', 'v2', '1', 'on', 'port', '8080']);
+    expect(tokenize('Got ERR_CONN_RESET from api.example.com')).toContain('err_conn_reset');
+    expect(tokenize('Got ERR_CONN_RESET from api.example.com')).toContain('example');
+  });
+
+  it('drops stopwords from keywords', () => {
+    expect(keywords('What is the port for the staging server?')).toEqual(new Set(['port', 'staging', 'server']));
+  });
+});
+
+describe('Bm25Index', () => {
+  const index = new Bm25Index();
+  index.add('a', 'The staging server listens on port 8080');
+  index.add('b', 'The production server listens on port 443');
+  index.add('c', 'Deploys failed with ERR_CONN_RESET after the v2.1 upgrade');
+  index.add('d', 'User prefers dark mode in every editor');
+
+  it('ranks exact identifiers first', () => {
+    expect(index.search('which port, 8080?', 5)[0].id).toBe('a');
+    expect(index.search('v2.1', 5).map(r => r.id)).toEqual(['c']);
+    expect(index.search('ERR_CONN_RESET', 5)[0].id).toBe('c');
+    expect(index.search('kubernetes', 5)).toEqual([]);
+  });
+
+  it('replaces and removes documents', () => {
+    const local = new Bm25Index();
+    local.add('a', 'port 8080');
+    local.add('a', 'port 9090');
+    expect(local.size).toBe(1);
+    expect(local.search('8080', 5)).toEqual([]);
+    expect(local.remove('a')).toBe(true);
+    expect(local.search('9090', 5)).toEqual([]);
+  });
+});
+
+describe('fuseScores', () => {
+  const semantic = [0.9, 0.5, 0.1];
+  const lexical = [0, 2, 8];
+
+  it('weighted: adds the normalized lexical score', () => {
+    const fused = fuseScores(semantic, lexical, { method: 'weighted', lexicalWeight: 0.5, rrfK: 60 });
+    expect(fused[0]).toBeCloseTo(0.9);
+    expect(fused[1]).toBeCloseTo(0.625);
+    expect(fused[2]).toBeCloseTo(0.6);
+  });
+
+  it('rrf: 1 for a candidate ranked first by both', () => {
+    expect(fuseScores([0.9, 0.1], [5, 1], { method: 'rrf', lexicalWeight: 0.3, rrfK: 60 })[0]).toBeCloseTo(1);
+    const fused = fuseScores(semantic, lexical, { method: 'rrf', lexicalWeight: 0.3, rrfK: 60 });
+    // Second in both lists beats first in only one
+    expect(fused[1]).toBeGreaterThan(fused[0]);
+  });
+
+  it('none: semantic scores unchanged', () => {
+    expect(fuseScores(semantic, lexical, { method: 'none', lexicalWeight: 0.3, rrfK: 60 })).toBe(semantic);
+  });
+});
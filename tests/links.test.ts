@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { LinkGraph, foldLinks } from '../src/links.js';
+import { Consolidator } from '../src/consolidator.js';
+import type { LinkType, MemoryLink } from '../src/types.js';
+import { memory } from './helpers.js';
+
+function link(type: LinkType, target: string): MemoryLink {
+  return { type, target, createdAt: '2026-10-01T00:00:00.000Z', createdBy: 'user' };
+}
+
+describe('LinkGraph', () => {
+  // plan <-part-of- step1 -related-to-> step2 -contradicts-> old
+  const graph = new LinkGraph([
+    memory('plan'),
+    memory('step1', { links: [link('part-of', 'plan'), link('related-to', 'step2')] }),
+    memory('step2', { links: [link('contradicts', 'old')] }),
+    memory('old'),
+  ]);
+
+  it('looks links up from either end', () => {
+    expect(graph.edges('plan').map(e => e.source)).toEqual(['step1']);
+    expect(graph.edges('step1', { direction: 'out' }).map(e => e.target)).toEqual(['plan', 'step2']);
+    expect(graph.edges('step2', { types: ['contradicts'] }).map(e => e.target)).toEqual(['old']);
+  });
+
+  it('traverses breadth-first within the hop limit', () => {
+    expect([...graph.traverse('plan', 1)]).toEqual([['step1', { from: 'plan', type: 'part-of', hops: 1 }]]);
+    expect([...graph.traverse('plan', 3).keys()]).toEqual(['step1', 'step2', 'old']);
+    expect([...graph.traverse('step1', 2, { direction: 'out', types: ['related-to'] }).keys()]).toEqual(['step2']);
+    expect([...graph.traverse('plan', 3, {}, id => id !== 'step2').keys()]).toEqual(['step1']);
+  });
+});
+
+describe('foldLinks', () => {
+  it('moves links of absorbed memories to their survivor', () => {
+    const absorbed = memory('dup', { links: [link('part-of', 'plan')] });
+    const folded = foldLinks(
+      [memory('keep'), memory('plan'), memory('note', { links: [link('related-to', 'dup')] })],
+      [{ memory: absorbed, into: 'keep' }],
+      [{ source: 'keep', link: { ...link('supersedes', 'dup'), createdBy: 'consolidation' } }],
+    );
+    const byId = new Map(folded.map(m => [m.id, m]));
+    expect(byId.get('keep')!.links!.map(l => `${l.type}:${l.target}`)).toEqual(['part-of:plan', 'supersedes:dup']);
+    expect(byId.get('note')!.links!.map(l => l.target)).toEqual(['keep']);
+    expect(byId.get('plan')!.links).toBeUndefined();
+  });
+});
+
+describe('Consolidator links', () => {
+  it('links the kept duplicate to the one it superseded', async () => {
+    const consolidator = new Consolidator({}, null, 0.9);
+    const { memories } = await consolidator.consolidate([
+      memory('weak', { importance: 0.2, links: [link('part-of', 'plan')] }),
+      memory('strong', { importance: 0.8 }),
+      memory('plan', { embedding: new Float32Array([0, 1, 0]) }),
+    ]);
+    const strong = memories.find(m => m.id === 'strong')!;
+    expect(memories.map(m => m.id)).toEqual(['strong', 'plan']);
+    expect(strong.links!.map(l => `${l.type}:${l.target}:${l.createdBy}`)).toEqual(['part-of:plan:user', 'supersedes:weak:consolidation']);
+  });
+});
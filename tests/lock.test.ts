@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { hostname, tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileLock } from '../src/lock.js';
+import { LockTimeoutError } from '../src/errors.js';
+
+describe('FileLock', () => {
+  let path: string;
+
+  beforeEach(async () => {
+    path = join(await mkdtemp(join(tmpdir(), 'trace-lock-')), 'brain.engram.lock');
+  });
+
+  it('serializes callers and releases afterwards', async () => {
+    const lock = new FileLock(path);
+    const order: string[] = [];
+
+    await Promise.all([
+      lock.run(async () => {
+        order.push('a:start');
+        await new Promise(r => setTimeout(r, 20));
+        order.push('a:end');
+      }),
+      lock.run(async () => {
+        order.push('b:start');
+        order.push('b:end');
+      }),
+    ]);
+
+    expect(order).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it('releases the lock when the callback throws', async () => {
+    const lock = new FileLock(path);
+    await expect(lock.run(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(existsSync(path)).toBe(false);
+    await expect(lock.run(async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('times out while another live process holds the lock', async () => {
+    await writeFile(path, JSON.stringify({ pid: process.pid, host: hostname() }));
+    const lock = new FileLock(path, { timeoutMs: 50 });
+    await expect(lock.run(async () => 'never')).rejects.toBeInstanceOf(LockTimeoutError);
+  });
+
+  it('breaks a lock left behind by a dead process', async () => {
+    await writeFile(path, JSON.stringify({ pid: 2 ** 22 + 12345, host: hostname() }));
+    const lock = new FileLock(path, { timeoutMs: 200 });
+    await expect(lock.run(async () => 'acquired')).resolves.toBe('acquired');
+  });
+});
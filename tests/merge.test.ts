@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { mergeMemories } from '../src/merge.js';
+import { memory } from './helpers.js';
+
+const options = { policy: 'importance-max' as const, deduplicateThreshold: 0.92 };
+
+describe('mergeMemories', () => {
+  it('reconciles the same memory by id', () => {
+    const ours = [memory('a', { tags: ['x'], accessCount: 2 })];
+    const theirs = [memory('a', { tags: ['y'], accessCount: 5, importance: 0.9 })];
+
+    const { memories, report } = mergeMemories(ours, theirs, options);
+    expect(memories).toHaveLength(1);
+    expect(memories[0]).toMatchObject({ id: 'a', tags: ['x', 'y'], accessCount: 5, importance: 0.9 });
+    expect(report.matchedById).toBe(1);
+  });
+
+  it('folds near-duplicates with different ids into the existing memory', () => {
+    const ours = [memory('a')];
+    const theirs = [
+      memory('b', { embedding: new Float32Array([0.99, 0.05, 0]), tags: ['dup'] }),
+      memory('c', { embedding: new Float32Array([0, 1, 0]) }),
+    ];
+
+    const { memories, added, report } = mergeMemories(ours, theirs, options);
+    expect(memories.map(m => m.id)).toEqual(['a', 'c']);
+    expect(memories[0].tags).toEqual(['dup']);
+    expect(added.map(m => m.id)).toEqual(['c']);
+    expect(report).toMatchObject({ duplicates: 1, added: 1 });
+  });
+
+  it('resolves diverged content per policy', () => {
+    const ours = [memory('a', { content: 'price is $10', importance: 0.8 })];
+    const theirs = [memory('a', { content: 'price is $12', importance: 0.4, lastAccessed: '2026-03-01T00:00:00.000Z' })];
+
+    expect(mergeMemories(ours, theirs, options).memories[0].content).toBe('price is $10');
+    expect(mergeMemories(ours, theirs, { ...options, policy: 'newest-wins' }).memories[0].content).toBe('price is $12');
+
+    const both = mergeMemories(ours, theirs, { ...options, policy: 'keep-both' });
+    expect(both.memories.map(m => m.content)).toEqual(['price is $10', 'price is $12']);
+    expect(both.memories[1].id).not.toBe('a');
+    expect(both.memories[1].metadata).toEqual({ mergedFrom: 'a' });
+    expect(both.report).toMatchObject({ conflicts: 1, keptBoth: 1 });
+  });
+
+  it('keeps near-duplicates apart when deduplication is off', () => {
+    const { memories } = mergeMemories([memory('a')], [memory('b')], { ...options, deduplicateThreshold: null });
+    expect(memories).toHaveLength(2);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { DefaultRanker, WeightedRanker, createRanker } from '../src/ranker.js';
+import { MemoryTier, type RankingSignals } from '../src/types.js';
+import { memory } from './helpers.js';
+
+const signals: RankingSignals = { similarity: 0.6, lexical: 0, relevance: 0.6, ageDays: 30, idleDays: 10 };
+
+describe('DefaultRanker', () => {
+  const ranker = new DefaultRanker();
+
+  it('multiplies relevance, tier boost and importance boost', () => {
+    const { score, factors } = ranker.score(memory('m', { tier: MemoryTier.ARCHIVE }), signals, {});
+    expect(factors).toEqual({ relevance: 0.6, tier: 0.85, importance: 1.1 });
+    expect(score).toBeCloseTo(0.6 * 0.85 * 1.1);
+  });
+
+  it('uses recency decay instead of the tier when configured, and neither without decayBoost', () => {
+    const recent = ranker.score(memory('m', {}), signals, { recency: { halfLifeDays: 30 } });
+    expect(recent.factors.recency).toBeCloseTo(0.5);
+    expect(recent.factors.tier).toBeUndefined();
+
+    const idle = ranker.score(memory('m', {}), signals, { recency: { halfLifeDays: 10, field: 'lastAccessed' } });
+    expect(idle.factors.recency).toBeCloseTo(0.5);
+
+    expect(ranker.score(memory('m', {}), signals, { decayBoost: false }).factors).toEqual({ relevance: 0.6, importance: 1.1 });
+  });
+});
+
+describe('WeightedRanker', () => {
+  it('adds weighted signals', () => {
+    const ranker = new WeightedRanker({ similarity: 1, importance: 0.5, recency: 0.2, accessFrequency: 0, halfLifeDays: 30 });
+    const { score, factors } = ranker.score(memory('m', { importance: 0.8 }), signals);
+    expect(factors).toEqual({ similarity: 0.6, importance: 0.4, recency: expect.closeTo(0.1), accessFrequency: 0 });
+    expect(score).toBeCloseTo(1.1);
+  });
+
+  it('follows the call\'s recency options', () => {
+    const ranker = new WeightedRanker({ similarity: 1, importance: 0, recency: 1, accessFrequency: 0, halfLifeDays: 30 });
+    expect(ranker.score(memory('m'), signals, {}).factors.recency).toBeCloseTo(0.5);
+    expect(ranker.score(memory('m'), signals, { recency: { halfLifeDays: 10, field: 'lastAccessed' } }).factors.recency).toBeCloseTo(0.5);
+    expect(ranker.score(memory('m'), signals, { recency: { halfLifeDays: 10, floor: 0.3 } }).factors.recency).toBeCloseTo(0.3 + 0.7 * 0.125);
+    expect(ranker.score(memory('m'), signals, { decayBoost: false }).factors).toEqual({ similarity: 0.6, importance: 0, accessFrequency: 0 });
+  });
+
+  it('reports the relevance for minScore', () => {
+    expect(new WeightedRanker({ importance: 5 }).score(memory('m', { importance: 1 }), signals).relevance).toBe(0.6);
+  });
+
+  it('favours frequently recalled memories', () => {
+    const ranker = new WeightedRanker();
+    expect(ranker.score(memory('m', { accessCount: 20 }), signals).score)
+      .toBeGreaterThan(ranker.score(memory('m', { accessCount: 0 }), signals).score);
+  });
+});
+
+describe('createRanker', () => {
+  it('takes a ranker, weights, or nothing', () => {
+    const custom = { name: 'custom', score: () => ({ score: 1, factors: {} }) };
+    expect(createRanker(custom)).toBe(custom);
+    expect(createRanker({ importance: 1 })).toBeInstanceOf(WeightedRanker);
+    expect(createRanker()).toBeInstanceOf(DefaultRanker);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { LLMReranker, CrossEncoderReranker, createReranker, parseGrades } from '../src/reranker.js';
+import type { LLM, Reranker } from '../src/types.js';
+
+function llm(reply: string, prompts: string[] = []): LLM {
+  return { generate: async (prompt: string) => { prompts.push(prompt); return reply; } };
+}
+
+describe('LLMReranker', () => {
+  it('numbers the candidates and scales grades to 0-1', async () => {
+    const prompts: string[] = [];
+    const reranker = new LLMReranker(llm('Sure: [2, 9.5]', prompts));
+    expect(await reranker.score('staging deploy', ['prod runs on k8s', 'staging runs on fly.io'])).toEqual([0.2, 0.95]);
+    expect(prompts[0]).toContain('[2] staging runs on fly.io');
+  });
+
+  it('skips the LLM for no candidates', async () => {
+    expect(await new LLMReranker(llm('oops')).score('q', [])).toEqual([]);
+  });
+});
+
+describe('parseGrades', () => {
+  it('clamps and rejects malformed replies', () => {
+    expect(parseGrades('[12, -1]', 2)).toEqual([1, 0]);
+    expect(() => parseGrades('[1, 2]', 3)).toThrow(/3 grades/);
+    expect(() => parseGrades('[1, "high"]', 2)).toThrow();
+    expect(() => parseGrades('no idea', 1)).toThrow();
+  });
+});
+
+describe('createReranker', () => {
+  it('defaults to the cross-encoder and passes custom rerankers through', () => {
+    expect(createReranker({}, null)).toBeInstanceOf(CrossEncoderReranker);
+    const custom: Reranker = { name: 'custom', score: async docs => docs.map(() => 0) };
+    expect(createReranker({ reranker: custom }, null)).toBe(custom);
+    expect(createReranker({ reranker: 'llm' }, llm('[]'))).toBeInstanceOf(LLMReranker);
+    expect(() => createReranker({ reranker: 'llm' }, null)).toThrow(/requires an llm/);
+  });
+});
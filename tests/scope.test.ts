@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { visibleTo, inScope, resolveScope, groupByScope } from '../src/scope.js';
+import { mergeMemories } from '../src/merge.js';
+import { memory } from './helpers.js';
+
+describe('visibleTo', () => {
+  it('hides private memories from other users and agents', () => {
+    const alice = memory('a', { scope: { userId: 'alice' } });
+    const aliceViaPlanner = memory('b', { scope: { userId: 'alice', agentId: 'planner' } });
+
+    expect(visibleTo(alice, { userId: 'alice' })).toBe(true);
+    expect(visibleTo(alice, { userId: 'bob' })).toBe(false);
+    expect(visibleTo(alice, {})).toBe(false);
+    expect(visibleTo(aliceViaPlanner, { userId: 'alice' })).toBe(false);
+    expect(visibleTo(aliceViaPlanner, { userId: 'alice', agentId: 'planner' })).toBe(true);
+  });
+
+  it('shows unscoped and shareable memories to everyone', () => {
+    expect(visibleTo(memory('a'), { userId: 'bob' })).toBe(true);
+    expect(visibleTo(memory('b', { scope: { userId: 'alice', visibility: 'shareable' } }), { userId: 'bob' })).toBe(true);
+  });
+});
+
+describe('inScope', () => {
+  it('matches every field the selector sets', () => {
+    const m = memory('a', { scope: { userId: 'alice', agentId: 'planner' } });
+    expect(inScope(m, { userId: 'alice' })).toBe(true);
+    expect(inScope(m, { userId: 'alice', agentId: 'coder' })).toBe(false);
+    expect(inScope(m, { visibility: 'private' })).toBe(true);
+    expect(inScope(memory('b'), { userId: 'alice' })).toBe(false);
+    expect(inScope(memory('b'), {})).toBe(true);
+  });
+});
+
+describe('resolveScope', () => {
+  it('merges the call scope over the default and drops empty scopes', () => {
+    expect(resolveScope({ agentId: 'planner' }, { userId: 'alice' })).toEqual({ userId: 'alice', agentId: 'planner' });
+    expect(resolveScope({}, {})).toBeUndefined();
+  });
+});
+
+describe('scope boundaries', () => {
+  it('groups memories by scope in first-seen order', () => {
+    const groups = groupByScope([memory('a', { scope: { userId: 'x' } }), memory('b'), memory('c', { scope: { userId: 'x' } })]);
+    expect(groups.map(g => g.map(m => m.id))).toEqual([['a', 'c'], ['b']]);
+  });
+
+  it('never deduplicates a merge across scopes', () => {
+    const { report } = mergeMemories(
+      [memory('a', { scope: { userId: 'alice' } })],
+      [memory('b', { scope: { userId: 'bob' } }), memory('c', { scope: { userId: 'alice' } })],
+      { policy: 'importance-max', deduplicateThreshold: 0.9 },
+    );
+    expect(report).toMatchObject({ added: 1, duplicates: 1 });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, readdir, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SnapshotStore } from '../src/snapshots.js';
+import { EncryptionError } from '../src/errors.js';
+import { MemoryTier } from '../src/types.js';
+import { memory } from './helpers.js';
+
+const kdfParams = { timeCost: 1, memoryCost: 1024, parallelism: 1 };
+
+async function objectCount(dir: string): Promise<number> {
+  let count = 0;
+  for (const prefix of await readdir(join(dir, 'objects'))) {
+    count += (await readdir(join(dir, 'objects', prefix))).length;
+  }
+  return count;
+}
+
+describe('SnapshotStore', () => {
+  it('round-trips memories, access stats included', async () => {
+    const store = new SnapshotStore(null);
+    const original = [memory('a', { accessCount: 3, metadata: { k: 1 } }), memory('b', { tier: MemoryTier.COLD })];
+    const info = await store.create(original, { label: 'first', reason: 'manual' });
+
+    expect(info).toMatchObject({ label: 'first', reason: 'manual', memories: 2 });
+    expect(await store.read(info.id)).toEqual(original);
+    expect((await store.list()).map(s => s.id)).toEqual([info.id]);
+  });
+
+  it('stores unchanged memories once across snapshots', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'trace-snap-'));
+    const store = new SnapshotStore(dir);
+
+    await store.create([memory('a'), memory('b')], { label: null, reason: 'manual' });
+    // Only access stats changed on `a`, and `c` is new
+    await store.create([memory('a', { accessCount: 7 }), memory('b'), memory('c')], { label: null, reason: 'manual' });
+
+    expect(await objectCount(dir)).toBe(3);
+  });
+
+  it('prunes to the retention and collects unreferenced objects', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'trace-snap-'));
+    const store = new SnapshotStore(dir);
+
+    const first = await store.create([memory('old')], { label: null, reason: 'manual' });
+    await store.create([memory('a')], { label: null, reason: 'manual' });
+    const last = await store.create([memory('a'), memory('b')], { label: null, reason: 'manual' });
+
+    expect(await store.prune({ keep: 1 })).toHaveLength(2);
+    expect((await store.list()).map(s => s.id)).toEqual([last.id]);
+    expect(await objectCount(dir)).toBe(2);
+    await expect(store.read(first.id)).rejects.toThrow(/Unknown snapshot/);
+  });
+
+  it('keeps creation order for snapshots taken in the same millisecond', async () => {
+    const store = new SnapshotStore(null);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T12:00:00.000Z'));
+    try {
+      const ids: string[] = [];
+      for (let i = 0; i < 8; i++) ids.push((await store.create([memory(`m${i}`)], { label: null, reason: 'manual' })).id);
+
+      expect((await store.list()).map(s => s.id)).toEqual(ids);
+      await store.prune({ keep: 1 });
+      expect((await store.list()).map(s => s.id)).toEqual([ids[7]]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('seals objects when encrypted and re-keys them', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'trace-snap-'));
+    const store = new SnapshotStore(dir, { encryption: { passphrase: 'correct horse', kdfParams } });
+    const info = await store.create([memory('a', { content: 'api key sk-123' })], { label: null, reason: 'manual' });
+
+    const [prefix] = await readdir(join(dir, 'objects'));
+    const [rest] = await readdir(join(dir, 'objects', prefix));
+    expect(await readFile(join(dir, 'objects', prefix, rest), 'utf8')).not.toContain('sk-123');
+
+    await expect(new SnapshotStore(dir).read(info.id)).rejects.toBeInstanceOf(EncryptionError);
+
+    await store.rekey(null);
+    const [memoryBack] = await new SnapshotStore(dir).read(info.id);
+    expect(memoryBack.content).toBe('api key sk-123');
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mkdir, mkdtemp, readdir, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MemoryStorage, ShardedStorage, createStorage, EngramFileStorage } from '../src/storage.js';
+import { readBrainFile, backupPath } from '../src/engram-file.js';
+import { EncryptionError } from '../src/errors.js';
+import { MemoryTier } from '../src/types.js';
+import { memory } from './helpers.js';
+
+describe('MemoryStorage', () => {
+  it('applies appended records on top of the last save', async () => {
+    const storage = new MemoryStorage();
+    await storage.save({ memories: [memory('a'), memory('b')], meta: {}, generation: 1 });
+    await storage.append({ op: 'store', memory: memory('c') });
+    await storage.append({ op: 'forget', ids: ['a'] });
+
+    const brain = await storage.load();
+    expect(brain.memories.map(m => m.id).sort()).toEqual(['b', 'c']);
+    expect(brain.generation).toBe(1);
+  });
+
+  it('hands out copies, not its own state', async () => {
+    const storage = new MemoryStorage();
+    await storage.save({ memories: [memory('a')], meta: {}, generation: 1 });
+
+    const brain = await storage.load();
+    brain.memories[0].content = 'changed';
+    expect((await storage.load()).memories[0].content).toBe('memory a');
+  });
+});
+
+describe('EngramFileStorage', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'trace-file-'));
+    file = join(dir, 'brain.engram');
+  });
+
+  const ids = async (storage: EngramFileStorage) => (await storage.load()).memories.map(m => m.id).sort();
+  const plain = async () => null;
+
+  it('keeps the previous file when a write fails part-way', async () => {
+    const storage = new EngramFileStorage(file, { journal: false, lock: false });
+    await storage.load();
+    await storage.save({ memories: [memory('a')], meta: {}, generation: 1 });
+
+    await mkdir(`${file}.tmp-${process.pid}`);
+    await expect(storage.save({ memories: [memory('a'), memory('b')], meta: {}, generation: 2 })).rejects.toThrow();
+    expect(await ids(new EngramFileStorage(file, { journal: false, lock: false }))).toEqual(['a']);
+  });
+
+  it('rotates backups, newest first', async () => {
+    const storage = new EngramFileStorage(file, { journal: false, lock: false, backups: 2 });
+    await storage.load();
+    for (let generation = 1; generation <= 3; generation++) {
+      await storage.save({ memories: [memory('a')], meta: {}, generation });
+    }
+
+    expect((await readBrainFile(backupPath(file, 1), plain)).generation).toBe(2);
+    expect((await readBrainFile(backupPath(file, 2), plain)).generation).toBe(1);
+  });
+
+  it('restores a corrupt file from the newest backup and moves it aside', async () => {
+    const storage = new EngramFileStorage(file, { journal: false, lock: false });
+    await storage.load();
+    await storage.save({ memories: [memory('a')], meta: {}, generation: 1 });
+    await storage.save({ memories: [memory('a'), memory('b')], meta: {}, generation: 2 });
+    await writeFile(file, '{"format": "engram-trace", "memories": [{"id": "a", "cont');
+
+    const reopened = new EngramFileStorage(file, { journal: false, lock: false });
+    const brain = await reopened.load();
+    expect(brain.memories.map(m => m.id)).toEqual(['a']);
+    expect(brain.needsSave).toBe(true);
+    expect(reopened.recoveryReport()).toMatchObject({ restoredFrom: backupPath(file, 1), memoriesRecovered: 1 });
+    expect((await readdir(dir)).filter(f => f.includes('.corrupt-'))).toHaveLength(1);
+  });
+
+  it('rethrows read and key errors instead of treating them as corruption', async () => {
+    const encrypted = new EngramFileStorage(file, { journal: false, lock: false, encryption: { keyProvider: () => Buffer.alloc(32, 1) } });
+    await encrypted.load();
+    await encrypted.save({ memories: [memory('a')], meta: {}, generation: 1 });
+    await encrypted.save({ memories: [memory('a')], meta: {}, generation: 2 });
+
+    const wrongKey = new EngramFileStorage(file, { journal: false, lock: false, encryption: { keyProvider: () => Buffer.alloc(32, 2) } });
+    await expect(wrongKey.load()).rejects.toThrow(EncryptionError);
+
+    // Not a file any more: an I/O error, not a malformed brain
+    await rm(file);
+    await mkdir(file);
+    await expect(new EngramFileStorage(file, { journal: false, lock: false }).load()).rejects.toMatchObject({ code: 'EISDIR' });
+    expect((await readdir(dir)).filter(f => f.includes('.corrupt-'))).toEqual([]);
+  });
+});
+
+describe('ShardedStorage', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = join(await mkdtemp(join(tmpdir(), 'trace-shards-')), 'brain');
+  });
+
+  it('splits memories into one file per tier and reads them back', async () => {
+    const storage = new ShardedStorage(dir, { journal: false, lock: false });
+    await storage.load();
+    await storage.save({
+      memories: [memory('a'), memory('b', { tier: MemoryTier.WARM }), memory('c', { tier: MemoryTier.COLD })],
+      meta: { lastConsolidation: '2026-01-01T00:00:00.000Z' },
+      generation: 3,
+    });
+
+    expect((await readdir(dir)).filter(f => f.endsWith('.engram')).sort()).toEqual(['cold.engram', 'hot.engram', 'warm.engram']);
+
+    const brain = await new ShardedStorage(dir, { journal: false, lock: false }).load();
+    expect(brain.memories.map(m => m.id).sort()).toEqual(['a', 'b', 'c']);
+    expect(brain.generation).toBe(3);
+    expect(brain.meta.lastConsolidation).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('rewrites only changed shards and removes emptied ones', async () => {
+    const storage = new ShardedStorage(dir, { journal: false, lock: false, backups: 0 });
+    await storage.load();
+    const warm = memory('b', { tier: MemoryTier.WARM });
+    await storage.save({ memories: [memory('a'), warm], meta: {}, generation: 1 });
+    const warmBefore = (await stat(join(dir, 'warm.engram'))).mtimeMs;
+
+    await new Promise(r => setTimeout(r, 20));
+    await storage.save({ memories: [warm, memory('c', { tier: MemoryTier.COLD })], meta: {}, generation: 2 });
+
+    expect((await stat(join(dir, 'warm.engram'))).mtimeMs).toBe(warmBefore);
+    expect((await readdir(dir)).filter(f => f.endsWith('.engram')).sort()).toEqual(['cold.engram', 'warm.engram']);
+  });
+
+  it('keeps a memory that moves between shards when a save fails part-way', async () => {
+    const storage = new ShardedStorage(dir, { journal: false, lock: false, backups: 0 });
+    await storage.load();
+    await storage.save({ memories: [memory('b'), memory('a')], meta: {}, generation: 1 });
+    const moved = { ...memory('a', { tier: MemoryTier.WARM }), content: 'moved' };
+
+    // The shard it moves to fails: nothing changed on disk yet
+    const blockWarm = join(dir, `warm.engram.tmp-${process.pid}`);
+    await mkdir(blockWarm);
+    await expect(storage.save({ memories: [memory('b'), moved], meta: {}, generation: 2 })).rejects.toThrow();
+    expect((await new ShardedStorage(dir, { journal: false, lock: false }).load()).memories.map(m => m.id).sort()).toEqual(['a', 'b']);
+    await rm(blockWarm, { recursive: true });
+
+    // The shard it leaves fails: it is in both, and the newer copy wins
+    const blockHot = join(dir, `hot.engram.tmp-${process.pid}`);
+    await mkdir(blockHot);
+    await expect(storage.save({ memories: [memory('b'), moved], meta: {}, generation: 2 })).rejects.toThrow();
+    const brain = await new ShardedStorage(dir, { journal: false, lock: false }).load();
+    expect(brain.memories.map(m => [m.id, m.content]).sort()).toEqual([['a', 'moved'], ['b', 'memory b']]);
+  });
+
+  it('removes emptied shards it did not load', async () => {
+    await mkdir(dir, { recursive: true });
+    await new ShardedStorage(dir, { journal: false, lock: false }).save({ memories: [memory('a'), memory('b', { tier: MemoryTier.WARM })], meta: {}, generation: 1 });
+    await new ShardedStorage(dir, { journal: false, lock: false }).save({ memories: [memory('a')], meta: {}, generation: 2 });
+
+    expect((await readdir(dir)).filter(f => f.startsWith('warm.'))).toEqual([]);
+  });
+
+  it('shards by creation month', async () => {
+    const storage = new ShardedStorage(dir, { shardBy: 'month', journal: false, lock: false });
+    await storage.load();
+    await storage.save({
+      memories: [memory('a', { createdAt: '2026-01-05T00:00:00.000Z' }), memory('b', { createdAt: '2026-02-05T00:00:00.000Z' })],
+      meta: {},
+      generation: 1,
+    });
+
+    expect((await readdir(dir)).filter(f => f.endsWith('.engram')).sort()).toEqual(['2026-01.engram', '2026-02.engram']);
+  });
+
+  it('replays journal appends made after the last save', async () => {
+    const storage = new ShardedStorage(dir);
+    await storage.load();
+    await storage.save({ memories: [memory('a')], meta: {}, generation: 1 });
+    await storage.append({ op: 'store', memory: memory('b') });
+
+    const brain = await new ShardedStorage(dir).load();
+    expect(brain.memories.map(m => m.id).sort()).toEqual(['a', 'b']);
+    expect(brain.journalRecords).toBe(1);
+  });
+});
+
+describe('createStorage', () => {
+  it('selects the adapter from TraceConfig', () => {
+    expect(createStorage({ file: '/tmp/x.engram' })).toBeInstanceOf(EngramFileStorage);
+    expect(createStorage({ file: '/tmp/x', storage: { type: 'memory' } })).toBeInstanceOf(MemoryStorage);
+    expect(createStorage({ file: '/tmp/x', storage: { type: 'sharded', shardBy: 'month' } })).toBeInstanceOf(ShardedStorage);
+
+    const custom = new MemoryStorage();
+    expect(createStorage({ file: '/tmp/x', storage: custom })).toBe(custom);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { parseTimePhrase, inRange, recencyFactor } from '../src/temporal.js';
+
+// Wednesday 14 October 2026, 15:30 local time
+const now = new Date(2026, 9, 14, 15, 30);
+
+describe('parseTimePhrase', () => {
+  it('reads calendar periods and cuts the phrase out of the query', () => {
+    expect(parseTimePhrase('what did we decide last week?', now)).toEqual({
+      query: 'what did we decide?',
+      phrase: 'last week',
+      since: new Date(2026, 9, 5),
+      until: new Date(2026, 9, 12),
+    });
+    expect(parseTimePhrase('bugs fixed yesterday', now)).toMatchObject({
+      query: 'bugs fixed',
+      since: new Date(2026, 9, 13),
+      until: new Date(2026, 9, 14),
+    });
+    expect(parseTimePhrase('releases this month', now)).toMatchObject({ since: new Date(2026, 9, 1) });
+    expect(parseTimePhrase('pricing changes during the last month', now)).toMatchObject({
+      query: 'pricing changes',
+      since: new Date(2026, 8, 1),
+      until: new Date(2026, 9, 1),
+    });
+  });
+
+  it('reads rolling windows and "ago"', () => {
+    expect(parseTimePhrase('errors in the past 3 days', now)).toMatchObject({
+      query: 'errors',
+      since: new Date(2026, 9, 11, 15, 30),
+    });
+    expect(parseTimePhrase('deploys over the past week', now)).toMatchObject({ since: new Date(2026, 9, 7, 15, 30) });
+    expect(parseTimePhrase('the outage two days ago', now)).toMatchObject({
+      query: 'the outage',
+      since: new Date(2026, 9, 12),
+      until: new Date(2026, 9, 13),
+    });
+  });
+
+  it('returns null without a time phrase', () => {
+    expect(parseTimePhrase('what is the staging port', now)).toBeNull();
+    expect(parseTimePhrase('the last deploy', now)).toBeNull();
+  });
+});
+
+describe('inRange', () => {
+  it('is inclusive of since and exclusive of until', () => {
+    const range = { since: new Date('2026-10-01T00:00:00Z'), until: new Date('2026-10-02T00:00:00Z') };
+    expect(inRange('2026-10-01T00:00:00.000Z', range)).toBe(true);
+    expect(inRange('2026-10-02T00:00:00.000Z', range)).toBe(false);
+    expect(inRange('2020-01-01T00:00:00.000Z', {})).toBe(true);
+  });
+});
+
+describe('recencyFactor', () => {
+  it('halves every half-life, down to the floor', () => {
+    const day = 86_400_000;
+    expect(recencyFactor(0, 7)).toBe(1);
+    expect(recencyFactor(7 * day, 7)).toBeCloseTo(0.5);
+    expect(recencyFactor(14 * day, 7)).toBeCloseTo(0.25);
+    expect(recencyFactor(7 * day, 7, 0.5)).toBeCloseTo(0.75);
+    expect(recencyFactor(1000 * day, 7, 0.5)).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,509 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { EngramTrace } from '../src/trace.js';
+import { EncryptionError, EmbedderMismatchError } from '../src/errors.js';
+import { Journal } from '../src/journal.js';
+import { EntityIndex } from '../src/entities.js';
+import { parseMemories } from '../src/interchange.js';
+import { MemoryStorage, EngramFileStorage } from '../src/storage.js';
+import type { Embedder, StoredBrain, TraceConfig } from '../src/types.js';
+
+/** Deterministic 3-dim embeddings from character codes */
+const embedder: Embedder = {
+  dims: 3,
+  model: 'fake',
+  embed: async (text: string) => {
+    const v = [1, 1, 1];
+    for (let i = 0; i < text.length; i++) v[i % 3] += text.charCodeAt(i) / 100;
+    return new Float32Array(v);
+  },
+};
+
+function trace(config: Partial<TraceConfig> & { file: string }): EngramTrace {
+  return new EngramTrace({ autoConsolidate: false, deduplicateThreshold: 2, snapshots: false, index: false, embedder, ...config });
+}
+
+async function tempFile(name = 'brain.engram'): Promise<string> {
+  return join(await mkdtemp(join(tmpdir(), 'trace-')), name);
+}
+
+const oldKey = { keyProvider: () => Buffer.alloc(32, 1) };
+const newKey = { keyProvider: () => Buffer.alloc(32, 2) };
+
+describe('rotateKey', () => {
+  it('re-keys a brain another process is writing to', async () => {
+    const file = await tempFile();
+    const a = trace({ file, encryption: oldKey });
+    const b = trace({ file, encryption: oldKey });
+    await a.init();
+    await b.init();
+
+    await a.remember('written by a');
+    await b.remember('written by b');  // journaled under the old key
+    await a.rotateKey(newKey);
+
+    // b still holds the old key: its writes fail instead of landing unreadable
+    await expect(b.remember('after rotation')).rejects.toThrow(EncryptionError);
+
+    const reopened = trace({ file, encryption: newKey });
+    await reopened.init();
+    expect(reopened.find().map(m => m.content).sort()).toEqual(['written by a', 'written by b']);
+    await expect(trace({ file, encryption: oldKey }).init()).rejects.toThrow(EncryptionError);
+    await a.close();
+    await reopened.close();
+  });
+
+  it('keeps the old key when rotation fails', async () => {
+    const file = await tempFile();
+    const a = trace({ file, encryption: oldKey });
+    await a.init();
+    await a.remember('before');
+
+    await expect(a.rotateKey({ keyProvider: () => { throw new Error('keychain locked'); } })).rejects.toThrow('keychain locked');
+    await a.remember('after');
+    await a.close();
+
+    const reopened = trace({ file, encryption: oldKey });
+    await reopened.init();
+    expect(reopened.find().map(m => m.content).sort()).toEqual(['after', 'before']);
+    await reopened.close();
+  });
+});
+
+describe('journal', () => {
+  it('does not bring back consolidated memories after a crash before the journal truncate', async () => {
+    const file = await tempFile();
+    const a = trace({ file, deduplicateThreshold: 0.99 });
+    await a.init();
+    await a.remember('the deploy runs on fridays');
+    await a.remember('the deploy runs on fridays');
+
+    const truncate = vi.spyOn(Journal.prototype, 'truncate').mockRejectedValueOnce(new Error('crashed'));
+    await expect(a.consolidate()).rejects.toThrow('crashed');
+    truncate.mockRestore();
+
+    const reopened = trace({ file });
+    await reopened.init();
+    expect(reopened.find()).toHaveLength(1);
+    await reopened.close();
+  });
+});
+
+describe('forget', () => {
+  it('refuses a filter that sets no condition unless told to forget everything', async () => {
+    const a = trace({ file: await tempFile() });
+    await a.init();
+    await a.remember('keep me', { source: 'manual' });
+    await a.remember('and me');
+
+    const source: string | undefined = undefined;
+    await expect(a.forget({})).rejects.toThrow(/pass \{ all: true \}/);
+    await expect(a.forget({ source })).rejects.toThrow(/no condition/);
+    await expect(a.forget({ importance: {} })).rejects.toThrow(/no condition/);
+    await expect(a.forget({ createdAt: { olderThanDays: undefined } })).rejects.toThrow(/no condition/);
+    expect(a.find()).toHaveLength(2);
+
+    expect(await a.forget({ source: 'manual' })).toBe(1);
+    expect(await a.forget({}, { all: true })).toBe(1);
+    await a.close();
+  });
+});
+
+describe('conversation', () => {
+  it('keeps windows for the most recently active users, with turns clipped', async () => {
+    const a = trace({ file: await tempFile(), conversation: { maxConversations: 2, maxTurnChars: 12 } });
+    await a.init();
+    await a.process('hi', 'hello', { scope: { userId: 'u1' } });
+    await a.process('hi', 'hello', { scope: { userId: 'u2' } });
+    await a.process('again', 'hello', { scope: { userId: 'u1' } });
+    await a.process('a rather long message', 'an equally long response', { scope: { userId: 'u3' } });
+
+    expect(a.conversation({ userId: 'u1' })).toHaveLength(2);
+    expect(a.conversation({ userId: 'u2' })).toEqual([]);
+    expect(a.conversation({ userId: 'u3' })).toMatchObject([{ user: 'a rather', assistant: 'an equally' }]);
+    await a.close();
+  });
+});
+
+describe('importFrom', () => {
+  it.each(['jsonl', 'csv'] as const)('round-trips every persisted field through %s', async format => {
+    const source = trace({ file: await tempFile() });
+    await source.init();
+    const old = await source.remember('Dana moved the billing service to v2.4.0', {
+      importance: 0.9,
+      tags: ['billing', 'infra'],
+      source: 'manual',
+      metadata: { ticket: { id: 'ENG-42' } },
+      scope: { userId: 'u1', visibility: 'shareable' },
+    });
+    const current = await source.remember('the billing service runs on fridays');
+    await source.link(current.id, old.id, 'supersedes');
+    await source.recall('billing');
+    const exported = await source.exportTo(format);
+    await source.close();
+
+    const target = trace({ file: await tempFile() });
+    await target.init();
+    expect(await target.importFrom(format, exported)).toMatchObject({ imported: 2, embedded: 0 });
+    expect(parseMemories(await target.exportTo(format), format)).toEqual(parseMemories(exported, format));
+    await target.close();
+  });
+
+  it('stores imports under the configured scope, and exports only what the caller can see', async () => {
+    const source = trace({ file: await tempFile() });
+    await source.init();
+    await source.remember('Alice keeps her notes in Obsidian');
+    await source.remember('Shared: the office is closed on Mondays', { scope: { visibility: 'shareable' } });
+    const exported = await source.exportTo('jsonl');
+    await source.close();
+
+    const alice = trace({ file: await tempFile(), scope: { userId: 'alice' } });
+    await alice.init();
+    await alice.importFrom('jsonl', exported);
+    expect(alice.find().map(m => [m.content, m.scope]).sort()).toEqual([
+      ['Alice keeps her notes in Obsidian', { userId: 'alice' }],
+      ['Shared: the office is closed on Mondays', { userId: 'alice', visibility: 'shareable' }],
+    ]);
+    expect(alice.find(undefined, { scope: { userId: 'bob' } }).map(m => m.content)).toEqual(['Shared: the office is closed on Mondays']);
+    expect(alice.export(undefined, { userId: 'bob' })).toHaveLength(1);
+    expect(parseMemories(await alice.exportTo('jsonl', { scope: { userId: 'bob' } }), 'jsonl').memories).toHaveLength(1);
+    expect(parseMemories(await alice.exportTo('jsonl'), 'jsonl').memories).toHaveLength(2);
+    await alice.close();
+  });
+
+  it('re-embeds a CSV export made with another model', async () => {
+    const source = trace({ file: await tempFile() });
+    await source.init();
+    await source.remember('the deploy runs on fridays');
+    const exported = (await source.exportTo('csv')).replace(/,fake\n/g, ',other-model\n');
+    await source.close();
+
+    const target = trace({ file: await tempFile() });
+    await target.init();
+    expect(await target.importFrom('csv', exported)).toMatchObject({ imported: 1, embedded: 1 });
+    await target.close();
+  });
+
+  it('keeps links, re-pointed at the new ids when ids are not preserved', async () => {
+    const source = trace({ file: await tempFile() });
+    await source.init();
+    const old = await source.remember('the deploy runs on fridays');
+    const current = await source.remember('the deploy runs on mondays');
+    await source.link(current.id, old.id, 'supersedes');
+    const text = await source.exportTo('jsonl');
+    await source.close();
+
+    const target = trace({ file: await tempFile() });
+    await target.init();
+    await target.importFrom('jsonl', text, { preserveIds: false });
+    const byContent = new Map(target.find().map(m => [m.content, m]));
+    const links = byContent.get('the deploy runs on mondays')!.links!;
+    expect(links).toMatchObject([{ type: 'supersedes', target: byContent.get('the deploy runs on fridays')!.id }]);
+    expect(links[0].target).not.toBe(old.id);
+    await target.close();
+  });
+});
+
+describe('JSON fallback files', () => {
+  it('loads a legacy JSON brain, filling in missing fields', async () => {
+    const file = await tempFile();
+    await writeFile(file, JSON.stringify({
+      version: 1,
+      format: 'engram-trace',
+      memories: [{ id: 'legacy-1', content: 'the deploy runs on fridays', embedding: [1, 2, 3], createdAt: '2025-06-01T00:00:00.000Z' }],
+    }));
+
+    const a = trace({ file });
+    await a.init();
+    expect(a.find()).toMatchObject([{
+      id: 'legacy-1',
+      content: 'the deploy runs on fridays',
+      tags: [],
+      importance: 0.5,
+      tier: 'hot',
+      lastAccessed: '2025-06-01T00:00:00.000Z',
+      accessCount: 0,
+    }]);
+    expect(Array.from(a.find()[0].embedding)).toEqual([1, 2, 3]);
+    expect(a.stats().fileFormat).toBe('json');
+    await a.close();
+  });
+
+  it('leaves the JSON file as it was when upgrade() cannot write .engram', async () => {
+    const file = await tempFile();
+    const a = trace({ file });
+    await a.init();
+    await a.remember('the deploy runs on fridays');
+    await a.save();
+    const before = await readFile(file, 'utf8');
+
+    // @terronex/engram is optional; without it, save() falls back but upgrade() must not
+    let upgraded = true;
+    try {
+      await import('@terronex/engram' as string);
+    } catch {
+      upgraded = false;
+    }
+    if (upgraded) {
+      await a.upgrade();
+      expect(a.stats().fileFormat).toBe('engram');
+    } else {
+      await expect(a.upgrade()).rejects.toThrow();
+      expect(await readFile(file, 'utf8')).toBe(before);
+      expect(a.stats().fileFormat).toBe('json');
+    }
+    await a.close();
+  });
+
+  it('upgrade() rewrites the brain with other writers\' changes merged in', async () => {
+    class UpgradableStorage extends MemoryStorage {
+      upgraded: StoredBrain | null = null;
+      async upgrade(brain: StoredBrain): Promise<void> {
+        await this.save(brain);
+        this.upgraded = structuredClone(brain);
+      }
+      format(): 'engram' | 'json' {
+        return this.upgraded ? 'engram' : 'json';
+      }
+    }
+    const storage = new UpgradableStorage();
+    const a = trace({ file: 'shared', storage });
+    const b = trace({ file: 'shared', storage });
+    await a.init();
+    await b.init();
+    await a.remember('written by a');
+    await b.remember('written by b');
+
+    await a.upgrade();
+    expect(storage.upgraded!.memories.map(m => m.content).sort()).toEqual(['written by a', 'written by b']);
+    expect(a.stats().fileFormat).toBe('engram');
+  });
+});
+
+describe('save with another writer on the same file', () => {
+  async function twoWriters(contents: string[]) {
+    const file = await tempFile();
+    const a = trace({ file });
+    await a.init();
+    const ids: string[] = [];
+    for (const content of contents) ids.push((await a.remember(content)).id);
+    await a.save();
+    const b = trace({ file });
+    await b.init();
+    const reopen = async () => {
+      const c = trace({ file });
+      await c.init();
+      return new Map(c.find().map(m => [m.id, m]));
+    };
+    return { a, b, ids, reopen };
+  }
+
+  it('keeps an edit only one of them made, and the last saver\'s when both did', async () => {
+    const { a, b, ids: [x, y, z, w], reopen } = await twoWriters(['x', 'y', 'z', 'w']);
+    await a.link(x, y, 'related-to');
+    await b.link(x, z, 'related-to');
+    await a.link(w, y, 'supersedes');
+    await b.recall('w');  // b's copy of w only changes access stats
+    await a.save();
+    await b.save();
+
+    const stored = await reopen();
+    expect(stored.get(x)!.links!.map(l => l.target)).toEqual([z]);
+    expect(stored.get(w)!.links!.map(l => l.target)).toEqual([y]);
+    expect(stored.get(w)!.accessCount).toBeGreaterThan(0);
+  });
+
+  it('lets a deletion win over an edit, whoever saves first', async () => {
+    const { a, b, ids: [x, y, z], reopen } = await twoWriters(['x', 'y', 'z']);
+    await a.forget({ ids: [x] });
+    await b.link(x, y, 'related-to');
+    await b.forget({ ids: [y] });
+    await a.link(y, z, 'related-to');
+    await a.save();
+    await b.save();
+    await a.save();
+
+    expect([...(await reopen()).keys()]).toEqual([z]);
+  });
+
+  it('keeps the memories both of them added', async () => {
+    const { a, b, reopen } = await twoWriters(['x']);
+    await a.remember('added by a');
+    await b.remember('added by b');
+    await b.save();
+    await a.save();
+
+    expect([...(await reopen()).values()].map(m => m.content).sort()).toEqual(['added by a', 'added by b', 'x']);
+  });
+});
+
+describe('reembed', () => {
+  /** 4-dim model; `failAfter` calls succeed, then it throws */
+  function newModel(failAfter = Infinity) {
+    let calls = 0;
+    const model: Embedder & { calls: () => number } = {
+      dims: 4,
+      model: 'fake-2',
+      embed: async (text: string) => {
+        if (++calls > failAfter) throw new Error('embedder down');
+        return new Float32Array([text.length, 1, 1, 1]);
+      },
+      calls: () => calls,
+    };
+    return model;
+  }
+
+  const storedMeta = async (file: string) => (await new EngramFileStorage(file, { lock: false }).load()).meta;
+
+  async function brainOf(contents: string[]): Promise<string> {
+    const file = await tempFile();
+    const a = trace({ file });
+    await a.init();
+    for (const content of contents) await a.remember(content);
+    await a.close();
+    return file;
+  }
+
+  it('records the new model in the file once every memory is re-embedded', async () => {
+    const file = await brainOf(['one', 'two', 'three']);
+    const a = trace({ file, onEmbedderMismatch: 'warn', embedder: newModel() });
+    await a.init();
+    expect(await a.reembed()).toMatchObject({ model: 'fake-2', dims: 4, total: 3, reembedded: 3, complete: true });
+    await a.close();
+
+    expect(await storedMeta(file)).toMatchObject({ embedder: { model: 'fake-2', dims: 4 }, reembed: null });
+    const reopened = trace({ file, embedder: newModel() });
+    await reopened.init();
+    expect(reopened.stats().reembedPending).toBe(0);
+    expect(reopened.find().every(m => m.embedding.length === 4)).toBe(true);
+    await reopened.close();
+    await expect(trace({ file }).init()).rejects.toThrow(EmbedderMismatchError);
+    await expect(trace({ file }).init()).rejects.toThrow(/Reopen with onEmbedderMismatch: 'reembed'/);
+  });
+
+  it('resumes an interrupted run where its last checkpoint left off', async () => {
+    const file = await brainOf(['one', 'two', 'three']);
+    const a = trace({ file, onEmbedderMismatch: 'warn', embedder: newModel(2) });
+    await a.init();
+    await expect(a.reembed({ checkpointEvery: 1 })).rejects.toThrow('embedder down');
+    expect(await storedMeta(file)).toMatchObject({ embedder: { model: 'fake', dims: 3 }, reembed: { model: 'fake-2', dims: 4 } });
+    expect((await storedMeta(file)).reembed!.completed).toHaveLength(2);
+
+    // A new process with the same target model picks the migration up without a mismatch error
+    const model = newModel();
+    const resumed = trace({ file, embedder: model });
+    await resumed.init();
+    expect(resumed.stats().reembedPending).toBe(1);
+    expect(await resumed.reembed()).toMatchObject({ total: 3, resumed: 2, reembedded: 1, complete: true });
+    expect(model.calls()).toBe(1);
+    await resumed.close();
+    expect(await storedMeta(file)).toMatchObject({ embedder: { model: 'fake-2', dims: 4 }, reembed: null });
+  });
+});
+
+describe('mounts', () => {
+  it('never writes to a mounted brain', async () => {
+    const shared = await tempFile('team.engram');
+    const team = trace({ file: shared });
+    await team.init();
+    await team.remember('The deploy script lives in ops/deploy.sh', { importance: 0.9 });
+    await team.remember('The deploy script lives in ops/deploy.sh!', { importance: 0.9 });
+    await team.close();
+    const dir = await readdir(dirname(shared));
+    const before = { bytes: await readFile(shared), mtime: (await stat(shared)).mtimeMs };
+
+    const a = trace({ file: await tempFile(), mounts: [{ file: shared, label: 'team' }], deduplicateThreshold: 0.99 });
+    await a.init();
+    const results = await a.recall('deploy script', { limit: 5 });
+    expect(results.some(r => r.origin === 'team')).toBe(true);
+    await a.bootstrap();
+    await a.process('Remember that I always deploy on Fridays', 'Noted.');
+    await a.remember('The deploy script needs ops access');
+    await a.forget('The deploy script lives in ops/deploy.sh', 0.5);
+    await a.forget({}, { all: true });
+    expect(a.stats().mounts).toEqual([expect.objectContaining({ label: 'team', memories: 2 })]);
+    await a.consolidate();
+    await a.save();
+    await a.close();
+
+    expect(await readFile(shared)).toEqual(before.bytes);
+    expect((await stat(shared)).mtimeMs).toBe(before.mtime);
+    expect(await readdir(dirname(shared))).toEqual(dir);
+  });
+});
+
+describe('recall', () => {
+  it('applies minScore to the similarity before rank fusion, keeping matches on words that aren\'t stopwords', async () => {
+    const a = trace({
+      file: await tempFile(),
+      embedder: { ...embedder, embed: async (text: string) => new Float32Array(text.includes('alpha') ? [1, 0, 0] : [0, 1, 0]) },
+    });
+    await a.init();
+    await a.remember('Notes about alpha');
+    await a.remember('Unrelated notes on beta');
+    await a.remember('ERR_X seen on beta');
+    await a.remember('What is the plan for beta');
+
+    const results = await a.recall('what is the alpha ERR_X', { fusion: 'rrf', minScore: 0.5 });
+    expect(results.map(r => r.memory.content).sort()).toEqual(['ERR_X seen on beta', 'Notes about alpha']);
+    await a.close();
+  });
+});
+
+describe('ranker', () => {
+  it('keeps importance and recency from lifting an irrelevant memory past minScore', async () => {
+    const a = trace({
+      file: await tempFile(),
+      ranker: { similarity: 1, importance: 1, recency: 1 },
+      embedder: { ...embedder, embed: async (text: string) => new Float32Array(text.includes('alpha') ? [1, 0, 0] : [0, 1, 0]) },
+    });
+    await a.init();
+    await a.remember('Notes about alpha', { importance: 0.2 });
+    await a.remember('Critical notes on beta', { importance: 1 });
+
+    expect((await a.recall('alpha', { minScore: 0.5 })).map(r => r.memory.content)).toEqual(['Notes about alpha']);
+    await a.close();
+  });
+});
+
+describe('snapshots', () => {
+  it('restores links and entity mentions', async () => {
+    const a = trace({ file: await tempFile(), snapshots: {} });
+    await a.init();
+    const old = await a.remember('Dana owns the billing service');
+    const current = await a.remember('Sam Lee owns the billing service now');
+    await a.link(current.id, old.id, 'supersedes');
+    a.entities();
+    const before = a.find().map(m => ({ id: m.id, links: m.links, entities: m.entities }));
+    expect(before.every(m => m.entities?.length)).toBe(true);
+
+    const snap = await a.snapshot();
+    await a.unlink(current.id, old.id);
+    await a.forget({}, { all: true });
+    await a.restore(snap.id);
+
+    expect(a.find().map(m => ({ id: m.id, links: m.links, entities: m.entities }))).toEqual(before);
+    expect(a.links(current.id)).toHaveLength(1);
+    await a.close();
+  });
+});
+
+describe('recallAbout', () => {
+  it('resolves entities only among memories the caller can see', async () => {
+    const a = trace({ file: await tempFile() });
+    await a.init();
+    await a.remember('Asked Dana about the billing service', { scope: { userId: 'alice' } });
+    await a.remember('The billing service deploys on Fridays', { scope: { visibility: 'shareable' } });
+
+    const resolve = vi.spyOn(EntityIndex.prototype, 'get');
+    expect(await a.recallAbout('Dana', { scope: { userId: 'bob' } })).toEqual([]);
+    expect(resolve.mock.results[0].value).toBeUndefined();
+    expect((await a.recallAbout('billing service', { scope: { userId: 'bob' } })).map(r => r.memory.content)).toEqual(['The billing service deploys on Fridays']);
+    expect(resolve.mock.results[1].value.memoryIds).toHaveLength(1);
+    expect(await a.recallAbout('Dana', { scope: { userId: 'alice' } })).toHaveLength(1);
+    resolve.mockRestore();
+    await a.close();
+  });
+});